@@ -0,0 +1,90 @@
+/**
+ * Batch-grade a folder of student exports.
+ *
+ * Usage:
+ *   pnpm grade:cohort <exportDir> [outDir] [--time-basis wall|active]
+ *
+ * Reads every *.json / *.yaml / *.yml file in exportDir, re-runs the analysis
+ * and grading from the raw observations, and writes to outDir (default
+ * <exportDir>/graded):
+ *   - roster.csv                one row per submission (rejected files included)
+ *   - cohort-analysis.json      pooled and per-expertise learning curves
+ *   - <file>.detail.json        full analysis + grading per student
+ *   - similarity.json           near-duplicate queries per task, with clusters
+ *   - review-pairs.csv          student pairs to review for copied queries
+ *
+ * --time-basis active grades on active time (hidden-tab and idle periods
+ * removed) instead of wall-clock time. Older exports only have wall time.
+ *
+ * Integrity is checked with NEXT_PUBLIC_INTEGRITY_KEY (or the default key), so
+ * set it to whatever the app was built with.
+ */
+
+import { readdirSync, readFileSync, mkdirSync, writeFileSync, statSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import {
+  gradeCohort,
+  buildRosterCsv,
+  buildStudentDetail,
+  buildReviewPairsCsv,
+  studentDetailFileName,
+} from '../src/lib/cohort';
+import type { CohortFile } from '../src/lib/cohort';
+
+const EXPORT_PATTERN = /\.(json|ya?ml)$/i;
+const USAGE = 'Usage: pnpm grade:cohort <exportDir> [outDir] [--time-basis wall|active]';
+
+function main(argv: string[]): number {
+  const basisIdx = argv.indexOf('--time-basis');
+  const timeBasis = basisIdx === -1 ? 'wall' : argv[basisIdx + 1];
+  if (timeBasis !== 'wall' && timeBasis !== 'active') {
+    console.error(USAGE);
+    return 2;
+  }
+  const positional = basisIdx === -1 ? argv : argv.filter((_, i) => i !== basisIdx && i !== basisIdx + 1);
+
+  const [exportDir, outArg] = positional;
+  if (!exportDir) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const inDir = resolve(exportDir);
+  const outDir = resolve(outArg ?? join(inDir, 'graded'));
+
+  const files: CohortFile[] = readdirSync(inDir)
+    .filter((name) => EXPORT_PATTERN.test(name) && statSync(join(inDir, name)).isFile())
+    .sort()
+    .map((name) => ({ source: name, content: readFileSync(join(inDir, name), 'utf-8') }));
+
+  if (files.length === 0) {
+    console.error(`No .json/.yaml exports found in ${inDir}`);
+    return 1;
+  }
+
+  const result = gradeCohort(files, {}, { timeBasis });
+
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, 'roster.csv'), buildRosterCsv(result));
+  writeFileSync(join(outDir, 'cohort-analysis.json'), JSON.stringify(result.cohortAnalysis, null, 2));
+  writeFileSync(join(outDir, 'similarity.json'), JSON.stringify(result.similarity, null, 2));
+  writeFileSync(join(outDir, 'review-pairs.csv'), buildReviewPairsCsv(result.similarity));
+  for (const student of result.students) {
+    writeFileSync(
+      join(outDir, studentDetailFileName(student)),
+      JSON.stringify(buildStudentDetail(student), null, 2)
+    );
+  }
+
+  console.log(`Graded ${result.students.length}/${files.length} exports (${timeBasis} time) → ${outDir}`);
+  if (result.similarity.reviewPairs.length > 0) {
+    console.log(`  ${result.similarity.reviewPairs.length} student pair(s) with near-duplicate queries → review-pairs.csv`);
+  }
+  for (const e of result.errors) {
+    console.warn(`  skipped ${e.source}: ${e.message}`);
+  }
+
+  return result.students.length > 0 ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -35,6 +35,7 @@ export default function CompletePage() {
   const router = useRouter();
   const { session, isLoading, downloadData, resetStudy, exitSandbox, stats } = useStudy();
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('csv');
+  const [includeAttempts, setIncludeAttempts] = useState(false);
 
   const handleReset = () => {
     resetStudy();
@@ -206,18 +207,34 @@ export default function CompletePage() {
             {selectedFormat === 'csv' && (
               <p className="text-sm text-muted-foreground">
                 Includes: student_name, sql_expertise, round, query_num, task_id,
-                query_sequence, time_sec, total_attempts, submitted_query, completed_at.
+                query_sequence, time_sec, wall_time_sec, active_time_sec, total_attempts,
+                submitted_query, completed_at. Active time leaves out periods when the tab was
+                hidden or you were idle.
               </p>
             )}
+            {selectedFormat === 'csv' && (
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-0.5 accent-primary"
+                  checked={includeAttempts}
+                  onChange={(e) => setIncludeAttempts(e.target.checked)}
+                />
+                <span>
+                  Also download every attempt (second CSV): attempt number, elapsed time,
+                  correct or not, and why a wrong answer didn&apos;t match.
+                </span>
+              </label>
+            )}
             {(selectedFormat === 'json' || selectedFormat === 'yaml') && (
               <p className="text-sm text-muted-foreground">
                 Includes all observation data plus: learning curve regression (exponent, rate, R&sup2;),
                 per-round summaries, task difficulty scores, auto-grading rubric (score, letter grade,
-                criteria breakdown), and R/Python code snippets.
+                criteria breakdown), every attempt including wrong ones, and R/Python code snippets.
               </p>
             )}
 
-            <Button size="lg" className="w-full" onClick={() => downloadData(selectedFormat)}>
+            <Button size="lg" className="w-full" onClick={() => downloadData(selectedFormat, { includeAttempts })}>
               <Download className="w-4 h-4 mr-2" />
               Download {selectedFormat.toUpperCase()}
             </Button>
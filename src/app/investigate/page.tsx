@@ -13,16 +13,19 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Clock, ChevronRight, Lightbulb, Play, AlertCircle, Home, Check, X } from 'lucide-react';
+import { Clock, ChevronRight, Lightbulb, Play, AlertCircle, AlertTriangle, Home, Check, X, Square, ListTree } from 'lucide-react';
 import { toast } from 'sonner';
 import { useStudy } from '@/context/StudyContext';
 import { SqlEditor } from '@/components/SqlEditor';
 import { ResultsTable } from '@/components/ResultsTable';
+import { QueryPlanView } from '@/components/QueryPlanView';
 import { SchemaReference } from '@/components/SchemaReference';
 import { ProgressIndicator } from '@/components/ProgressIndicator';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { tasks, getTotalTaskCount } from '@/data/tasks';
 import type { QueryResult } from '@/types';
+import type { QueryPlan } from '@/lib/queryPlan';
+import type { RevealedDiff } from '@/lib/resultDiff';
 
 export default function InvestigatePage() {
   const router = useRouter();
@@ -33,6 +36,8 @@ export default function InvestigatePage() {
     currentTask,
     currentRound,
     runQuery,
+    cancelQuery,
+    explainQuery,
     submitAnswer,
     trackHintViewed,
     exitSandbox,
@@ -43,8 +48,11 @@ export default function InvestigatePage() {
   const [sql, setSql] = useState('');
   const [result, setResult] = useState<QueryResult | null>(null);
   const [homeDialogOpen, setHomeDialogOpen] = useState(false);
-  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | 'technique'; message: string; hints?: string[] } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [plan, setPlan] = useState<QueryPlan | null>(null);
+  const [diff, setDiff] = useState<RevealedDiff | null>(null);
   const [showHints, setShowHints] = useState(false);
   const [showNarrative, setShowNarrative] = useState(true);
 
@@ -54,6 +62,8 @@ export default function InvestigatePage() {
   useEffect(() => {
     setSql('');
     setResult(null);
+    setPlan(null);
+    setDiff(null);
     setFeedback(null);
     setShowHints(false);
     // Show narrative at start of each round
@@ -64,11 +74,30 @@ export default function InvestigatePage() {
 
   // Run query (without submission)
   const handleRun = useCallback(async () => {
-    if (!sql.trim()) return;
+    if (!sql.trim() || isRunning) return;
     setFeedback(null);
+    setDiff(null);
+    setIsRunning(true);
     const queryResult = await runQuery(sql);
     setResult(queryResult);
-  }, [sql, runQuery]);
+    setIsRunning(false);
+  }, [sql, runQuery, isRunning]);
+
+  // Show the query plan (without running the query)
+  const handleExplain = useCallback(async () => {
+    if (!sql.trim() || isRunning) return;
+    setFeedback(null);
+    setIsRunning(true);
+    const explained = await explainQuery(sql);
+    setIsRunning(false);
+    if (explained.plan) {
+      setPlan(explained.plan);
+    } else {
+      setPlan(null);
+      setDiff(null);
+      setResult({ columns: [], values: [], error: explained.error });
+    }
+  }, [sql, explainQuery, isRunning]);
 
   // Submit answer for checking
   const handleSubmit = useCallback(async () => {
@@ -76,10 +105,13 @@ export default function InvestigatePage() {
 
     setIsSubmitting(true);
     setFeedback(null);
+    setDiff(null);
 
     // Run the query first to show results
+    setIsRunning(true);
     const queryResult = await runQuery(sql);
     setResult(queryResult);
+    setIsRunning(false);
 
     if (queryResult.error) {
       setFeedback({ type: 'error', message: queryResult.error });
@@ -88,12 +120,14 @@ export default function InvestigatePage() {
     }
 
     // Check answer
-    const { isCorrect, message } = await submitAnswer(sql);
+    const { isCorrect, outcome, message, diff: answerDiff, hints } = await submitAnswer(sql);
 
     setFeedback({
-      type: isCorrect ? 'success' : 'error',
+      type: isCorrect ? 'success' : outcome === 'wrong_technique' ? 'technique' : 'error',
       message,
+      hints,
     });
+    setDiff(answerDiff ?? null);
 
     setIsSubmitting(false);
 
@@ -333,44 +367,91 @@ export default function InvestigatePage() {
               <Button
                 variant="outline"
                 onClick={handleRun}
-                disabled={!sql.trim() || isSubmitting}
+                disabled={!sql.trim() || isSubmitting || isRunning}
               >
                 <Play className="w-4 h-4 mr-2" />
-                Run Query
+                {isRunning ? 'Running…' : 'Run Query'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleExplain}
+                disabled={!sql.trim() || isSubmitting || isRunning}
+              >
+                <ListTree className="w-4 h-4 mr-2" />
+                Explain
               </Button>
               <Button
                 onClick={handleSubmit}
-                disabled={!sql.trim() || isSubmitting}
+                disabled={!sql.trim() || isSubmitting || isRunning}
               >
                 Submit Answer
               </Button>
+              {isRunning && (
+                <Button variant="destructive" onClick={cancelQuery}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
             </div>
 
             {/* Feedback */}
             {feedback && (
               <div
-                className={`flex items-center gap-2 p-4 rounded-lg ${
+                className={`p-4 rounded-lg space-y-2 ${
                   feedback.type === 'success'
                     ? 'bg-green-500/10 text-green-700 dark:text-green-400'
-                    : 'bg-destructive/10 text-destructive'
+                    : feedback.type === 'technique'
+                      ? 'bg-amber-500/10 text-amber-800 dark:text-amber-300'
+                      : 'bg-destructive/10 text-destructive'
                 }`}
               >
-                {feedback.type === 'success' ? (
-                  <Check className="w-5 h-5" />
-                ) : (
-                  <X className="w-5 h-5" />
+                <div className="flex items-center gap-2">
+                  {feedback.type === 'success' ? (
+                    <Check className="w-5 h-5" />
+                  ) : feedback.type === 'technique' ? (
+                    <AlertTriangle className="w-5 h-5" />
+                  ) : (
+                    <X className="w-5 h-5" />
+                  )}
+                  <span className="font-medium">{feedback.message}</span>
+                </div>
+                {feedback.hints && feedback.hints.length > 0 && (
+                  <ul className="space-y-1 text-sm text-foreground">
+                    {feedback.hints.map((hint) => (
+                      <li key={hint} className="flex items-start gap-2">
+                        <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-500" />
+                        <span>{hint}</span>
+                      </li>
+                    ))}
+                  </ul>
                 )}
-                <span className="font-medium">{feedback.message}</span>
               </div>
             )}
 
+            {/* Query plan (from Explain) */}
+            {plan && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium">Query Plan</CardTitle>
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setPlan(null)}>
+                      Hide
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <QueryPlanView plan={plan} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Results table */}
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium">Results</CardTitle>
               </CardHeader>
               <CardContent className="p-0">
-                <ResultsTable result={result} className="max-h-80" />
+                <ResultsTable result={result} diff={diff} className="max-h-80" />
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,72 @@
+'use client';
+
+import type { QueryPlan, QueryPlanNode } from '@/lib/queryPlan';
+
+interface QueryPlanViewProps {
+  plan: QueryPlan;
+  className?: string;
+}
+
+const KIND_STYLES: Record<QueryPlanNode['kind'], { label: string; className: string } | null> = {
+  scan: { label: 'Full scan', className: 'bg-amber-500/15 text-amber-800 dark:text-amber-300' },
+  index: { label: 'Index', className: 'bg-green-500/15 text-green-700 dark:text-green-400' },
+  temp: { label: 'Temp B-tree', className: 'bg-muted text-muted-foreground' },
+  other: null,
+};
+
+/**
+ * EXPLAIN QUERY PLAN output as a tree, with full table scans and index use
+ * highlighted.
+ */
+export function QueryPlanView({ plan, className = '' }: QueryPlanViewProps) {
+  if (plan.roots.length === 0) {
+    return (
+      <div className={`text-muted-foreground p-4 ${className}`}>
+        SQLite reported no plan steps for this query
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-4 space-y-3 ${className}`}>
+      <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+        <span>
+          Full scans: {plan.fullScans.length > 0 ? plan.fullScans.join(', ') : 'none'}
+        </span>
+        <span>
+          Indexes: {plan.indexes.length > 0 ? plan.indexes.join(', ') : 'none'}
+        </span>
+        {plan.tempBTrees > 0 && <span>Temp B-trees: {plan.tempBTrees}</span>}
+      </div>
+      <ul className="space-y-1 text-sm">
+        {plan.roots.map((node) => (
+          <PlanNode key={node.id} node={node} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function PlanNode({ node }: { node: QueryPlanNode }) {
+  const style = KIND_STYLES[node.kind];
+
+  return (
+    <li>
+      <div className="flex items-center gap-2">
+        <span className="font-mono">{node.detail}</span>
+        {style && (
+          <span className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${style.className}`}>
+            {node.index ? `${style.label}: ${node.index}` : style.label}
+          </span>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-5 mt-1 space-y-1 border-l border-border pl-3">
+          {node.children.map((child) => (
+            <PlanNode key={child.id} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
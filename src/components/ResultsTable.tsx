@@ -1,20 +1,35 @@
 'use client';
 
 import type { QueryResult } from '@/types';
+import { describeDiff } from '@/lib/resultDiff';
+import type { RevealedDiff } from '@/lib/resultDiff';
 
 interface ResultsTableProps {
   result: QueryResult | null;
   className?: string;
   maxRows?: number;
+  /** Differences from the expected result, shown on a wrong answer. */
+  diff?: RevealedDiff | null;
+}
+
+function Cell({ value }: { value: unknown }) {
+  return value === null || value === undefined ? (
+    <span className="text-muted-foreground italic">NULL</span>
+  ) : (
+    <>{String(value)}</>
+  );
 }
 
 /**
- * Display query results as a table.
+ * Display query results as a table. With a diff, a summary of what differs is
+ * shown above it and, from the `rows` reveal level, extra rows and wrong cells
+ * are highlighted inline (plus expected values and missing rows at `values`).
  */
 export function ResultsTable({
   result,
   className = '',
   maxRows = 100,
+  diff = null,
 }: ResultsTableProps) {
   if (!result) {
     return (
@@ -27,32 +42,61 @@ export function ResultsTable({
   if (result.error) {
     return (
       <div className={`p-4 bg-destructive/10 text-destructive rounded-lg ${className}`}>
-        <div className="font-medium mb-1">Error</div>
-        <div className="font-mono text-sm">{result.error}</div>
+        <div className="font-medium mb-1">
+          {result.interrupted === 'timeout' ? 'Query stopped' : result.interrupted === 'cancelled' ? 'Cancelled' : 'Error'}
+        </div>
+        <div className={result.interrupted ? 'text-sm' : 'font-mono text-sm'}>{result.error}</div>
       </div>
     );
   }
 
-  if (result.values.length === 0) {
+  const summary = diff ? describeDiff(diff, result.columns) : [];
+  const summaryBar = summary.length > 0 && (
+    <ul className="px-3 py-2 text-sm border-b border-border bg-destructive/5 text-destructive space-y-0.5">
+      {summary.map((line) => (
+        <li key={line}>{line}</li>
+      ))}
+    </ul>
+  );
+
+  const highlight = diff !== null && diff.reveal !== 'summary';
+  const missingRows = highlight ? diff.missingRows.filter((m) => m.values) : [];
+
+  if (result.values.length === 0 && missingRows.length === 0) {
     return (
-      <div className={`text-muted-foreground p-4 ${className}`}>
-        Query returned no results
+      <div className={className}>
+        {summaryBar}
+        <div className="text-muted-foreground p-4">Query returned no results</div>
       </div>
     );
   }
 
+  const extraRows = new Set(highlight ? diff.extraRows : []);
+  const extraColumns = new Set(highlight ? diff.alignment.extraColumns : []);
+  const wrongCells = new Map(
+    (highlight ? diff.cellMismatches : []).map((m) => [`${m.row}:${m.column}`, m])
+  );
+  const typeMismatchColumns = new Set(diff ? diff.typeMismatches.map((t) => t.column) : []);
+  const outOfOrderRow = highlight ? diff.orderMismatchRow : null;
+
+  // Missing rows are shown in the student's column order
+  const expectedColumnAt = (column: number) => (diff ? diff.alignment.mapping.indexOf(column) : -1);
+
   const displayRows = result.values.slice(0, maxRows);
   const hasMore = result.values.length > maxRows;
 
   return (
     <div className={`overflow-auto ${className}`}>
+      {summaryBar}
       <table className="w-full text-sm border-collapse">
         <thead>
           <tr className="bg-muted">
             {result.columns.map((col, idx) => (
               <th
                 key={idx}
-                className="text-left px-3 py-2 font-medium border-b border-border"
+                className={`text-left px-3 py-2 font-medium border-b border-border ${
+                  extraColumns.has(col) ? 'line-through text-muted-foreground' : ''
+                } ${typeMismatchColumns.has(idx) ? 'text-amber-800 dark:text-amber-300' : ''}`}
               >
                 {col}
               </th>
@@ -63,20 +107,45 @@ export function ResultsTable({
           {displayRows.map((row, rowIdx) => (
             <tr
               key={rowIdx}
-              className="hover:bg-muted/50 transition-colors"
+              className={`hover:bg-muted/50 transition-colors ${
+                extraRows.has(rowIdx) ? 'bg-destructive/10' : ''
+              } ${outOfOrderRow === rowIdx ? 'outline outline-1 -outline-offset-1 outline-amber-500' : ''}`}
+              title={extraRows.has(rowIdx) ? 'Not in the expected result' : undefined}
+            >
+              {row.map((cell, cellIdx) => {
+                const wrong = wrongCells.get(`${rowIdx}:${cellIdx}`);
+                return (
+                  <td
+                    key={cellIdx}
+                    className={`px-3 py-2 border-b border-border font-mono ${
+                      wrong ? 'bg-amber-500/15 text-amber-800 dark:text-amber-300' : ''
+                    }`}
+                  >
+                    <Cell value={cell} />
+                    {wrong && 'expected' in wrong && (
+                      <div className="text-xs text-green-700 dark:text-green-400">
+                        expected <Cell value={wrong.expected} />
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          {missingRows.map((missing) => (
+            <tr
+              key={`missing-${missing.expectedRow}`}
+              className="bg-green-500/10 text-green-700 dark:text-green-400"
+              title="Missing from your result"
             >
-              {row.map((cell, cellIdx) => (
-                <td
-                  key={cellIdx}
-                  className="px-3 py-2 border-b border-border font-mono"
-                >
-                  {cell === null ? (
-                    <span className="text-muted-foreground italic">NULL</span>
-                  ) : (
-                    String(cell)
-                  )}
-                </td>
-              ))}
+              {result.columns.map((_, cellIdx) => {
+                const expectedIdx = expectedColumnAt(cellIdx);
+                return (
+                  <td key={cellIdx} className="px-3 py-2 border-b border-border font-mono">
+                    {expectedIdx >= 0 && <Cell value={missing.values![expectedIdx]} />}
+                  </td>
+                );
+              })}
             </tr>
           ))}
         </tbody>
@@ -85,6 +154,7 @@ export function ResultsTable({
       <div className="px-3 py-2 text-sm text-muted-foreground border-t border-border bg-muted/50">
         {result.values.length} row{result.values.length !== 1 ? 's' : ''} returned
         {hasMore && ` (showing first ${maxRows})`}
+        {missingRows.length > 0 && ` · ${missingRows.length} missing row${missingRows.length !== 1 ? 's' : ''} shown in green`}
       </div>
     </div>
   );
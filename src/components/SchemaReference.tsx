@@ -120,6 +120,9 @@ export function SchemaReference({ className = '' }: SchemaReferenceProps) {
         <span className="flex items-center gap-1">
           <Link className="w-3 h-3 text-primary" /> Foreign Key
         </span>
+        <span className="ml-auto font-mono" title="Current date and time in the hospital record">
+          clinical_now()
+        </span>
       </div>
     </div>
   );
@@ -1,11 +1,23 @@
 'use client';
 
 import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
-import type { StudySession, StudentInfo, QueryResult } from '@/types';
+import type { StudySession, StudentInfo, QueryResult, AttemptOutcome } from '@/types';
 import { rounds } from '@/data/rounds';
 import { tasks, getTasksForRound, getTotalTaskCount } from '@/data/tasks';
-import { initDatabase, executeQuery } from '@/lib/database';
+import { initDatabase, executeQuery, cancelQuery } from '@/lib/database';
 import { checkQueryResult } from '@/lib/resultComparison';
+import { buildQueryPlan, explainSql, summarizePlan } from '@/lib/queryPlan';
+import type { QueryPlan } from '@/lib/queryPlan';
+import { revealDiff, DEFAULT_REVEAL_LEVEL } from '@/lib/resultDiff';
+import type { RevealedDiff } from '@/lib/resultDiff';
+import { analyzeSqlFeedback } from '@/lib/sqlFeedback';
+import {
+  IDLE_THRESHOLD_MS,
+  openInactiveInterval,
+  closeInactiveInterval,
+  measureTaskTime,
+} from '@/lib/activityTracking';
+import type { InactivityReason } from '@/types';
 import {
   getSession,
   saveSession,
@@ -16,7 +28,7 @@ import {
   downloadFile,
   getSessionStats,
 } from '@/lib/dataLogger';
-import type { ExportFormat } from '@/lib/dataLogger';
+import type { ExportFormat, ExportOptions } from '@/lib/dataLogger';
 import {
   useStudyTracking,
   useRoundTracking,
@@ -25,6 +37,14 @@ import {
   useErrorTracking,
 } from '@/lib/analytics';
 
+export interface AnswerFeedback {
+  isCorrect: boolean;
+  outcome?: AttemptOutcome;
+  message: string;
+  diff?: RevealedDiff | null;
+  hints?: string[];
+}
+
 interface StudyContextType {
   // Session state
   session: StudySession;
@@ -38,11 +58,21 @@ interface StudyContextType {
   // Actions
   startStudy: (studentInfo: StudentInfo) => void;
   runQuery: (sql: string) => Promise<QueryResult>;
-  submitAnswer: (sql: string) => Promise<{ isCorrect: boolean; message: string }>;
+  /** Stop the running query (it resolves with a "cancelled" error). */
+  cancelQuery: () => void;
+  /** EXPLAIN QUERY PLAN for the query, as a tree; `error` if it can't be explained. */
+  explainQuery: (sql: string) => Promise<{ plan: QueryPlan | null; error?: string }>;
+  /**
+   * Check the answer. On a wrong answer, `diff` is what differs (redacted to the
+   * task's reveal level) and `hints` name likely mistakes found in the SQL. A
+   * right result without the task's technique ('wrong_technique') has the
+   * broken concept rules as hints instead.
+   */
+  submitAnswer: (sql: string) => Promise<AnswerFeedback>;
   resetStudy: () => void;
   /** Exit sandbox: restores previous session if one was active, otherwise resets. */
   exitSandbox: () => void;
-  downloadData: (format?: ExportFormat) => void;
+  downloadData: (format?: ExportFormat, options?: ExportOptions) => void;
   trackHintViewed: () => void;
   /** Jump to any task by ID (sandbox mode — no advancement, no completion). */
   skipTo: (taskId: string) => void;
@@ -85,8 +115,8 @@ export function StudyProvider({ children }: { children: ReactNode }) {
         const savedSession = getSession();
         setSession(savedSession);
 
-        // Initialize database
-        await initDatabase();
+        // Initialize database with the dataset the session started on
+        await initDatabase(savedSession.seedConfig);
         setIsDbReady(true);
       } catch (error) {
         console.error('Failed to initialize:', error);
@@ -127,6 +157,74 @@ export function StudyProvider({ children }: { children: ReactNode }) {
     }
   }, [session.currentRound, session.studentInfo, session.currentQuery, session.isComplete, trackRoundStarted, session]);
 
+  // ---------------------------------------------------------------------------
+  // Active-time tracking: record hidden-tab, unfocused and idle intervals for
+  // the current task so submitAnswer can report active time next to wall time.
+  // ---------------------------------------------------------------------------
+
+  const isTiming = !!session.studentInfo && !!session.taskStartTime && !session.isComplete;
+  const lastInputRef = useRef(Date.now());
+  const idleOpenRef = useRef(false);
+
+  const updateIntervals = useCallback((reason: InactivityReason, open: boolean, at: number) => {
+    setSession((prev) => {
+      if (!prev.taskStartTime) return prev;
+      const current = prev.inactiveIntervals ?? [];
+      const next = open
+        ? openInactiveInterval(current, reason, at)
+        : closeInactiveInterval(current, reason, at);
+      if (next === current) return prev;
+      const updated = { ...prev, inactiveIntervals: next };
+      saveSession(updated);
+      return updated;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isTiming) return;
+
+    const now = Date.now();
+    lastInputRef.current = now;
+    idleOpenRef.current = false;
+    // Anything still open (tab closed while hidden, reload) ends now
+    updateIntervals('idle', false, now);
+    if (!document.hidden) updateIntervals('hidden', false, now);
+    if (document.hasFocus()) updateIntervals('blur', false, now);
+
+    const onVisibility = () => updateIntervals('hidden', document.hidden, Date.now());
+    const onBlur = () => updateIntervals('blur', true, Date.now());
+    const onFocus = () => updateIntervals('blur', false, Date.now());
+    const onInput = () => {
+      const at = Date.now();
+      lastInputRef.current = at;
+      if (idleOpenRef.current) {
+        idleOpenRef.current = false;
+        updateIntervals('idle', false, at);
+      }
+    };
+    const idleCheck = window.setInterval(() => {
+      const idleSince = lastInputRef.current + IDLE_THRESHOLD_MS;
+      if (!idleOpenRef.current && Date.now() >= idleSince) {
+        idleOpenRef.current = true;
+        updateIntervals('idle', true, idleSince);
+      }
+    }, 15_000);
+
+    const inputEvents = ['keydown', 'pointerdown', 'pointermove', 'wheel'] as const;
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('blur', onBlur);
+    window.addEventListener('focus', onFocus);
+    inputEvents.forEach((e) => window.addEventListener(e, onInput, { passive: true }));
+
+    return () => {
+      window.clearInterval(idleCheck);
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('blur', onBlur);
+      window.removeEventListener('focus', onFocus);
+      inputEvents.forEach((e) => window.removeEventListener(e, onInput));
+    };
+  }, [isTiming, session.taskStartTime, updateIntervals]);
+
   // Get current task and round
   const currentRound = rounds.find((r) => r.id === session.currentRound) || null;
   const tasksInRound = getTasksForRound(session.currentRound);
@@ -144,10 +242,26 @@ export function StudyProvider({ children }: { children: ReactNode }) {
     };
   }, [session.studentInfo]);
 
+  // Switch the database to a session's dataset (a no-op if it is already loaded)
+  const loadDataset = useCallback((seedConfig: StudySession['seedConfig']) => {
+    setIsDbReady(false);
+    initDatabase(seedConfig)
+      .then(() => setIsDbReady(true))
+      .catch((error) => {
+        console.error('Failed to initialize:', error);
+        trackError({}, {
+          errorType: 'database_init',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+  }, [trackError]);
+
   // Start a new study session
   const startStudy = useCallback((studentInfo: StudentInfo) => {
     const newSession = startSession(studentInfo);
     setSession(newSession);
+    // Each student gets their own dataset; rebuild the database for it
+    loadDataset(newSession.seedConfig);
     setAttemptCount(0);
     cumulativeTimeRef.current = 0;
     roundStartTimeRef.current = Date.now();
@@ -157,7 +271,7 @@ export function StudyProvider({ children }: { children: ReactNode }) {
       studentName: studentInfo.studentName,
       sqlExpertise: studentInfo.sqlExpertise,
     });
-  }, [trackStudyStarted]);
+  }, [trackStudyStarted, loadDataset]);
 
   // Run a query (without checking correctness)
   const runQuery = useCallback(async (sql: string): Promise<QueryResult> => {
@@ -183,9 +297,19 @@ export function StudyProvider({ children }: { children: ReactNode }) {
     return result;
   }, [isDbReady, getAnalyticsContext, currentTask, trackQueryRun]);
 
+  // Explain a query's plan (without running it)
+  const explainQuery = useCallback(async (sql: string): Promise<{ plan: QueryPlan | null; error?: string }> => {
+    if (!isDbReady) {
+      return { plan: null, error: 'Database not ready' };
+    }
+
+    const result = await executeQuery(explainSql(sql));
+    return result.error ? { plan: null, error: result.error } : { plan: buildQueryPlan(result, sql) };
+  }, [isDbReady]);
+
   // Submit an answer and check correctness
   const submitAnswer = useCallback(
-    async (sql: string): Promise<{ isCorrect: boolean; message: string }> => {
+    async (sql: string): Promise<AnswerFeedback> => {
       if (!currentTask || !session.studentInfo || !session.taskStartTime) {
         return { isCorrect: false, message: 'Session not initialized' };
       }
@@ -199,15 +323,18 @@ export function StudyProvider({ children }: { children: ReactNode }) {
       const newAttemptCount = attemptCount + 1;
       setAttemptCount(newAttemptCount);
 
-      // Calculate time spent
-      const timeSec = (Date.now() - session.taskStartTime) / 1000;
+      // Calculate time spent (wall clock, and with inactive periods removed)
+      const { wallTimeSec: timeSec, activeTimeSec } = measureTaskTime(session);
 
       // Check correctness
-      const result = await checkQueryResult(
-        sql,
-        currentTask.expectedQuery,
-        currentTask.preserveOrder
-      );
+      const result = await checkQueryResult(sql, currentTask);
+      const outcome: AttemptOutcome = result.isMatch
+        ? 'correct'
+        : result.failedRule === 'concepts' ? 'wrong_technique' : 'incorrect';
+
+      // Record how the query ran (index use, full scans) alongside the attempt
+      const explained = result.studentResult.error ? null : await explainQuery(sql);
+      const queryPlan = explained?.plan ? summarizePlan(explained.plan) : undefined;
 
       // Track attempt
       trackQueryAttempt(ctx, {
@@ -230,7 +357,11 @@ export function StudyProvider({ children }: { children: ReactNode }) {
         sql,
         timeSec,
         newAttemptCount,
-        result.isMatch
+        result.isMatch,
+        activeTimeSec,
+        result.message,
+        queryPlan,
+        outcome
       );
 
       // If correct, handle advancement
@@ -255,6 +386,7 @@ export function StudyProvider({ children }: { children: ReactNode }) {
           updatedSession = {
             ...updatedSession,
             taskStartTime: Date.now(),
+            inactiveIntervals: [],
             sandboxMode: true,
           };
         } else {
@@ -315,12 +447,29 @@ export function StudyProvider({ children }: { children: ReactNode }) {
       setSession(updatedSession);
       saveSession(updatedSession);
 
+      if (outcome === 'wrong_technique') {
+        return {
+          isCorrect: false,
+          outcome,
+          message: 'Right result, wrong technique.',
+          diff: null,
+          hints: result.conceptViolations?.map((v) => v.message) ?? [],
+        };
+      }
+
       return {
         isCorrect: result.isMatch,
+        outcome,
         message: result.message || (result.isMatch ? 'Correct!' : 'Not quite right'),
+        diff: result.isMatch || !result.diff
+          ? null
+          : revealDiff(result.diff, currentTask.reveal ?? DEFAULT_REVEAL_LEVEL),
+        hints: result.isMatch
+          ? []
+          : analyzeSqlFeedback(sql, { expectedQuery: currentTask.expectedQuery }).map((f) => f.message),
       };
     },
-    [currentTask, session, querySequence, attemptCount, currentRound, trackQueryAttempt, trackQuerySuccess, trackRoundCompleted, trackStudyCompleted]
+    [currentTask, session, querySequence, attemptCount, currentRound, trackQueryAttempt, trackQuerySuccess, trackRoundCompleted, trackStudyCompleted, explainQuery]
   );
 
   // Track hint viewed
@@ -372,6 +521,8 @@ export function StudyProvider({ children }: { children: ReactNode }) {
         localStorage.setItem(STORAGE_KEY, JSON.stringify(restored));
         localStorage.removeItem(STASH_KEY);
         setSession(restored);
+        // Queries must run against the dataset the export will record
+        loadDataset(restored.seedConfig);
         return;
       } catch {
         // Corrupted stash — fall through to reset
@@ -380,11 +531,11 @@ export function StudyProvider({ children }: { children: ReactNode }) {
 
     // No stash to restore — full reset
     resetStudy();
-  }, [resetStudy]);
+  }, [resetStudy, loadDataset]);
 
   // Download data in specified format
-  const downloadData = useCallback((format: ExportFormat = 'csv') => {
-    downloadFile(session, format);
+  const downloadData = useCallback((format: ExportFormat = 'csv', options: ExportOptions = {}) => {
+    downloadFile(session, format, options);
 
     // Track download
     const ctx = getAnalyticsContext();
@@ -434,8 +585,11 @@ export function StudyProvider({ children }: { children: ReactNode }) {
       currentQuery: target.queryNum,
       attempts: [],
       taskStartTime: Date.now(),
+      inactiveIntervals: [],
       isComplete: false,
       sandboxMode: true,
+      // Same dataset as the stashed session, so the reload doesn't fall back to the default
+      seedConfig: savedSession?.seedConfig ?? session.seedConfig,
     };
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(patched));
@@ -511,6 +665,8 @@ export function StudyProvider({ children }: { children: ReactNode }) {
         currentRound,
         startStudy,
         runQuery,
+        cancelQuery,
+        explainQuery,
         submitAnswer,
         resetStudy,
         exitSandbox,
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SEED_CONFIG,
+  generateSeedData,
+  generateSeedSQL,
+  resolveSeedConfig,
+  seedConfigForStudent,
+  seedConfigHash,
+  studentSeed,
+} from '../seed';
+import type { SeedConfig } from '../seed';
+import { ols } from '@/lib/analysis';
+
+describe('resolveSeedConfig', () => {
+  it('returns the defaults when given no overrides', () => {
+    expect(resolveSeedConfig()).toEqual(DEFAULT_SEED_CONFIG);
+  });
+
+  it('merges effect overrides without dropping the other effects', () => {
+    const config = resolveSeedConfig({ seed: 7, effects: { nightShiftDelay: [20, 30] } });
+    expect(config.seed).toBe(7);
+    expect(config.effects.nightShiftDelay).toEqual([20, 30]);
+    expect(config.effects.problemUnit).toBe('Cardiac B');
+  });
+
+  it('rejects configs the tasks cannot run against', () => {
+    expect(() => resolveSeedConfig({ patientCount: 100 })).toThrow(/patient 247/);
+    expect(() => resolveSeedConfig({ effects: { problemUnit: 'Cardiac C' } })).toThrow(/Unknown problemUnit/);
+    expect(() => resolveSeedConfig({ dateWindow: { start: '2024-12-28', end: '2024-12-01' } })).toThrow(/start before end/);
+    expect(() => resolveSeedConfig({ effects: { eveningShiftDelay: [8, 3] } })).toThrow(/min <= max/);
+    expect(() => resolveSeedConfig({ seed: 1.5 })).toThrow(/integer/);
+    expect(() => resolveSeedConfig({ effects: { problemUnitStaffing: 0 } })).toThrow(/problemUnitStaffing/);
+    expect(() => resolveSeedConfig({ clinicalNow: '2024-12-28' })).toThrow(/HH:MM:SS/);
+    expect(() => resolveSeedConfig({ clinicalNow: '2024-12-15 12:00:00' })).toThrow(/before the data ends/);
+  });
+});
+
+describe('seedConfigHash', () => {
+  it('ignores key order', () => {
+    const reordered = { ...DEFAULT_SEED_CONFIG, effects: { ...DEFAULT_SEED_CONFIG.effects } };
+    const { seed, ...rest } = reordered;
+    expect(seedConfigHash({ ...rest, seed })).toBe(seedConfigHash(DEFAULT_SEED_CONFIG));
+  });
+
+  it('changes when any setting changes', () => {
+    const base = seedConfigHash(DEFAULT_SEED_CONFIG);
+    expect(seedConfigHash(resolveSeedConfig({ seed: 43 }))).not.toBe(base);
+    expect(seedConfigHash(resolveSeedConfig({ effects: { maxDelayMinutes: 120 } }))).not.toBe(base);
+    expect(base).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('generateSeedSQL', () => {
+  it('is deterministic for a config', () => {
+    expect(generateSeedSQL(DEFAULT_SEED_CONFIG)).toBe(generateSeedSQL());
+  });
+
+  it('produces different data for a different seed', () => {
+    expect(generateSeedSQL(resolveSeedConfig({ seed: 43 }))).not.toBe(generateSeedSQL());
+  });
+
+  it('keeps John Martinez on the problem unit', () => {
+    const sql = generateSeedSQL(resolveSeedConfig({ seed: 43, effects: { problemUnit: 'ICU' } }));
+    expect(sql).toMatch(/\(247, 'MRN100247', 'John', 'Martinez', '[^']+', 'M', '[^']+', (NULL|'[^']+'), 'ICU', /);
+  });
+
+  it('uses the configured record counts', () => {
+    const sql = generateSeedSQL(resolveSeedConfig({ patientCount: 300, nurseCount: 12, providerCount: 5 }));
+    expect(sql).toContain('-- Providers (5 records)');
+    expect(sql).toContain('-- Nurses (12 records)');
+    expect(sql).toContain('-- Patients (300 records)');
+    expect(sql).not.toMatch(/\(301, 'MRN100301'/);
+  });
+});
+
+describe('studentSeed', () => {
+  it('is stable for a name regardless of case and spacing', () => {
+    expect(studentSeed('  Ada  Lovelace ')).toBe(studentSeed('ada lovelace'));
+  });
+
+  it('differs between students', () => {
+    expect(studentSeed('Ada Lovelace')).not.toBe(studentSeed('Grace Hopper'));
+  });
+
+  it('produces a seed resolveSeedConfig accepts', () => {
+    const config = seedConfigForStudent('Ada Lovelace');
+    expect(resolveSeedConfig(config)).toEqual(config);
+    expect(config.seed).toBeGreaterThan(0);
+    expect(config.seed).toBeLessThanOrEqual(0x7fffffff);
+  });
+});
+
+describe('planted effects', () => {
+  const configs = [
+    DEFAULT_SEED_CONFIG,
+    ...['Ada Lovelace', 'Grace Hopper', 'Alan Turing', 'Edgar Codd'].map((name) => seedConfigForStudent(name)),
+  ];
+
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+  /** Medication rows joined to their patient and nurse, as students query them. */
+  function joined(config: SeedConfig) {
+    const data = generateSeedData(config);
+    const patients = new Map(data.patients.map((p) => [p.patient_id, p]));
+    const nurses = new Map(data.nurses.map((n) => [n.nurse_id, n]));
+    return data.medications.map((m) => ({
+      delay: m.delay_minutes,
+      unit: patients.get(m.patient_id)!.unit,
+      nurse: nurses.get(m.administering_nurse_id)!,
+    }));
+  }
+
+  it.each(configs)('problem unit delay is within the configured range (seed $seed)', (config) => {
+    const rows = joined(config);
+    const [min, max] = config.effects.problemUnitDelay;
+    const gap = mean(rows.filter((r) => r.unit === config.effects.problemUnit).map((r) => r.delay))
+      - mean(rows.filter((r) => r.unit !== config.effects.problemUnit).map((r) => r.delay));
+    expect(gap).toBeGreaterThanOrEqual(min);
+    expect(gap).toBeLessThanOrEqual(max);
+  });
+
+  it.each(configs)('night > evening > day, by about the configured amounts (seed $seed)', (config) => {
+    const rows = joined(config);
+    const byShift = (shift: string) => mean(rows.filter((r) => r.nurse.shift === shift).map((r) => r.delay));
+    const day = byShift('Day');
+    const { nightShiftDelay, eveningShiftDelay } = config.effects;
+    // Tolerance covers differences in experience mix between shifts
+    const tolerance = 3;
+
+    expect(byShift('Night') - day).toBeGreaterThanOrEqual(nightShiftDelay[0] - tolerance);
+    expect(byShift('Night') - day).toBeLessThanOrEqual(nightShiftDelay[1] + tolerance);
+    expect(byShift('Evening') - day).toBeGreaterThanOrEqual(eveningShiftDelay[0] - tolerance);
+    expect(byShift('Evening') - day).toBeLessThanOrEqual(eveningShiftDelay[1] + tolerance);
+    expect(byShift('Night')).toBeGreaterThan(byShift('Evening'));
+  });
+
+  it.each(configs)('delay falls with nurse experience at about the configured rate (seed $seed)', (config) => {
+    const rows = joined(config);
+    const fit = ols(rows.map((r) => r.nurse.years_experience), rows.map((r) => r.delay));
+    const perYear = config.effects.experienceDelayPerYear;
+
+    expect(fit.slope).toBeLessThan(-perYear / 2);
+    expect(fit.slope).toBeGreaterThan(-perYear * 2);
+    expect(fit.pValue!).toBeLessThan(0.001);
+  });
+
+  it('effects vanish when configured to zero', () => {
+    const config = resolveSeedConfig({
+      effects: { problemUnitDelay: [0, 0], nightShiftDelay: [0, 0], eveningShiftDelay: [0, 0], experienceDelayPerYear: 0 },
+    });
+    const rows = joined(config);
+    const problem = mean(rows.filter((r) => r.unit === config.effects.problemUnit).map((r) => r.delay));
+    const other = mean(rows.filter((r) => r.unit !== config.effects.problemUnit).map((r) => r.delay));
+    expect(Math.abs(problem - other)).toBeLessThan(2);
+  });
+
+  it.each(configs)('problem unit gets fewer nurse shifts for its beds (seed $seed)', (config) => {
+    const data = generateSeedData(config);
+    const coverage = new Map(data.units.map((u) => {
+      const shifts = data.shiftAssignments.filter((a) => a.unit === u.unit_name).length;
+      return [u.unit_name, shifts / (u.bed_count / u.target_patients_per_nurse)];
+    }));
+    const problem = coverage.get(config.effects.problemUnit)!;
+    const others = [...coverage].filter(([unit]) => unit !== config.effects.problemUnit).map(([, c]) => c);
+
+    expect(problem).toBeLessThan(Math.min(...others));
+  });
+
+  it.each(configs)('problem unit orders take longer to complete (seed $seed)', (config) => {
+    const data = generateSeedData(config);
+    const units = new Map(data.patients.map((p) => [p.patient_id, p.unit]));
+    const minutes = (o: { ordered_time: string; completed_time: string | null }) =>
+      (Date.parse(o.completed_time!.replace(' ', 'T')) - Date.parse(o.ordered_time.replace(' ', 'T'))) / 60_000;
+    const completed = data.orders.filter((o) => o.status === 'Completed');
+    const gap = mean(completed.filter((o) => units.get(o.patient_id) === config.effects.problemUnit).map(minutes))
+      - mean(completed.filter((o) => units.get(o.patient_id) !== config.effects.problemUnit).map(minutes));
+    const [min, max] = config.effects.problemUnitDelay;
+
+    // Tolerance covers the STAT/routine mix, which differs by unit
+    expect(gap).toBeGreaterThanOrEqual(min - 8);
+    expect(gap).toBeLessThanOrEqual(max + 8);
+  });
+
+  it('links each medication to one of its own patient\'s encounters', () => {
+    const data = generateSeedData();
+    const encounters = new Map(data.encounters.map((e) => [e.encounter_id, e]));
+    expect(data.medications.every((m) => encounters.get(m.encounter_id)?.patient_id === m.patient_id)).toBe(true);
+  });
+
+  it('keeps the new tables consistent with the rest of the data', () => {
+    const data = generateSeedData();
+    const units = new Set(data.units.map((u) => u.unit_name));
+    const nurses = new Map(data.nurses.map((n) => [n.nurse_id, n]));
+    const encounters = new Map(data.encounters.map((e) => [e.encounter_id, e]));
+
+    expect(data.patients.every((p) => units.has(p.unit))).toBe(true);
+    expect(data.shiftAssignments.every((a) => units.has(a.unit) && nurses.get(a.nurse_id)?.shift === a.shift)).toBe(true);
+    expect(data.vitals.every((v) => nurses.has(v.recorded_by_nurse_id))).toBe(true);
+    expect(data.orders.every((o) => {
+      const encounter = encounters.get(o.encounter_id);
+      return encounter?.patient_id === o.patient_id && encounter.provider_id === o.provider_id;
+    })).toBe(true);
+    expect(data.orders.every((o) => (o.status === 'Completed') === (o.completed_time !== null))).toBe(true);
+  });
+
+  it.each(configs)('has each medication given by a nurse rostered on the patient\'s unit that day (seed $seed)', (config) => {
+    const data = generateSeedData(config);
+    const units = new Map(data.patients.map((p) => [p.patient_id, p.unit]));
+    const rostered = new Set(data.shiftAssignments.map((a) => `${a.nurse_id}|${a.shift_date}|${a.unit}`));
+    const shiftsPerDay = new Set(data.shiftAssignments.map((a) => `${a.nurse_id}|${a.shift_date}`));
+    const inWindow = data.medications.filter((m) =>
+      m.scheduled_time >= config.dateWindow.start && m.scheduled_time < config.dateWindow.end
+    );
+
+    expect(inWindow.length).toBeGreaterThan(0);
+    expect(inWindow.every((m) =>
+      rostered.has(`${m.administering_nurse_id}|${m.scheduled_time.slice(0, 10)}|${units.get(m.patient_id)}`)
+    )).toBe(true);
+    expect(shiftsPerDay.size).toBe(data.shiftAssignments.length);
+  });
+
+  it.each(configs)('records vitals only while the patient is admitted (seed $seed)', (config) => {
+    const data = generateSeedData(config);
+    const patients = new Map(data.patients.map((p) => [p.patient_id, p]));
+    expect(data.vitals.every((v) => {
+      const { admission_date, discharge_date } = patients.get(v.patient_id)!;
+      return v.recorded_time >= admission_date && (discharge_date === null || v.recorded_time <= discharge_date);
+    })).toBe(true);
+  });
+});
@@ -12,7 +12,7 @@ export const rounds: Round[] = [
     contextBefore: `Welcome to Bozeman Deaconess Hospital. You've been brought in as an Industrial Engineering consultant to investigate a recurring issue: patients on certain units are experiencing significant delays in receiving their scheduled medications.
 
 A nurse on Cardiac Unit B reported that a patient named John Martinez experienced a medication delay yesterday. Your first task is to locate this patient in the EMR system.`,
-    contextAfter: `Good work. You've found John Martinez (patient_id 247) and confirmed multiple medication delays in his record. The data shows delays ranging from 20 to 45 minutes—well above acceptable thresholds.
+    contextAfter: `Good work. You've found John Martinez (patient_id 247) and confirmed multiple medication delays in his record. Most of them ran 20 minutes late or more—well above acceptable thresholds.
 
 But is this an isolated case, or a systemic problem? Let's dig deeper into his history.`,
   },
@@ -34,7 +34,7 @@ Time to zoom out and see if this is affecting other patients too.`,
     contextBefore: `Individual patient stories are compelling, but leadership needs data. How widespread is the medication delay problem? What's the hospital-wide average? Which units are performing worst?
 
 Let's aggregate the data and find the patterns.`,
-    contextAfter: `The numbers don't lie. Hospital-wide average delay is around 18 minutes, but Cardiac Unit B is averaging over 30 minutes—nearly double. This isn't a one-patient problem.
+    contextAfter: `The numbers don't lie. Hospital-wide average delay is around 20 minutes, but Cardiac Unit B is averaging about 40 minutes—roughly double. This isn't a one-patient problem.
 
 Now we need to find the root cause. Is it staffing? Shift timing? Individual performance?`,
   },
@@ -101,6 +101,59 @@ export const tableSchemas: TableSchema[] = [
       { name: 'years_experience', type: 'INTEGER', description: 'Years of nursing experience' },
     ],
   },
+  {
+    name: 'units',
+    description: 'Hospital units, bed capacity and staffing targets',
+    columns: [
+      { name: 'unit_name', type: 'TEXT', description: 'Unit name (matches patients.unit, nurses.unit)', isPrimaryKey: true },
+      { name: 'unit_type', type: 'TEXT', description: 'Cardiac, Medical, Surgical, Critical Care, ...' },
+      { name: 'floor', type: 'INTEGER', description: 'Floor number' },
+      { name: 'bed_count', type: 'INTEGER', description: 'Staffed beds' },
+      { name: 'target_patients_per_nurse', type: 'INTEGER', description: 'Staffing target per shift' },
+    ],
+  },
+  {
+    name: 'shift_assignments',
+    description: 'Which nurse worked which unit on each shift',
+    columns: [
+      { name: 'assignment_id', type: 'INTEGER', description: 'Unique assignment ID', isPrimaryKey: true },
+      { name: 'nurse_id', type: 'INTEGER', isForeignKey: true, references: 'nurses.nurse_id' },
+      { name: 'shift_date', type: 'DATE', description: 'Date of the shift' },
+      { name: 'shift', type: 'TEXT', description: 'Day/Evening/Night' },
+      { name: 'unit', type: 'TEXT', isForeignKey: true, references: 'units.unit_name', description: 'Unit worked (may differ from home unit)' },
+    ],
+  },
+  {
+    name: 'vitals',
+    description: 'Vital sign readings',
+    columns: [
+      { name: 'vital_id', type: 'INTEGER', description: 'Unique reading ID', isPrimaryKey: true },
+      { name: 'patient_id', type: 'INTEGER', isForeignKey: true, references: 'patients.patient_id' },
+      { name: 'recorded_time', type: 'DATETIME', description: 'When recorded' },
+      { name: 'heart_rate', type: 'INTEGER', description: 'Beats per minute' },
+      { name: 'systolic_bp', type: 'INTEGER', description: 'mmHg' },
+      { name: 'diastolic_bp', type: 'INTEGER', description: 'mmHg' },
+      { name: 'respiratory_rate', type: 'INTEGER', description: 'Breaths per minute' },
+      { name: 'temperature_f', type: 'REAL', description: 'Degrees Fahrenheit' },
+      { name: 'spo2', type: 'INTEGER', description: 'Oxygen saturation (%)' },
+      { name: 'recorded_by_nurse_id', type: 'INTEGER', isForeignKey: true, references: 'nurses.nurse_id' },
+    ],
+  },
+  {
+    name: 'orders',
+    description: 'Provider orders and when they were completed',
+    columns: [
+      { name: 'order_id', type: 'INTEGER', description: 'Unique order ID', isPrimaryKey: true },
+      { name: 'patient_id', type: 'INTEGER', isForeignKey: true, references: 'patients.patient_id' },
+      { name: 'encounter_id', type: 'INTEGER', isForeignKey: true, references: 'encounters.encounter_id' },
+      { name: 'provider_id', type: 'INTEGER', isForeignKey: true, references: 'providers.provider_id' },
+      { name: 'order_type', type: 'TEXT', description: 'Medication, Lab, Imaging, Consult' },
+      { name: 'priority', type: 'TEXT', description: 'Routine or STAT' },
+      { name: 'ordered_time', type: 'DATETIME', description: 'When ordered' },
+      { name: 'status', type: 'TEXT', description: 'Completed, Pending, Cancelled' },
+      { name: 'completed_time', type: 'DATETIME', description: 'When completed (NULL unless Completed)' },
+    ],
+  },
 ];
 
 // ============================================================================
@@ -197,6 +250,58 @@ CREATE TABLE labs (
   FOREIGN KEY (patient_id) REFERENCES patients(patient_id)
 );
 
+-- Units table
+CREATE TABLE units (
+  unit_name TEXT PRIMARY KEY,
+  unit_type TEXT NOT NULL,
+  floor INTEGER NOT NULL,
+  bed_count INTEGER NOT NULL,
+  target_patients_per_nurse INTEGER NOT NULL
+);
+
+-- Shift assignments table (nurse x date x unit)
+CREATE TABLE shift_assignments (
+  assignment_id INTEGER PRIMARY KEY,
+  nurse_id INTEGER NOT NULL,
+  shift_date DATE NOT NULL,
+  shift TEXT CHECK(shift IN ('Day', 'Evening', 'Night')),
+  unit TEXT NOT NULL,
+  FOREIGN KEY (nurse_id) REFERENCES nurses(nurse_id),
+  FOREIGN KEY (unit) REFERENCES units(unit_name)
+);
+
+-- Vitals table
+CREATE TABLE vitals (
+  vital_id INTEGER PRIMARY KEY,
+  patient_id INTEGER NOT NULL,
+  recorded_time DATETIME NOT NULL,
+  heart_rate INTEGER NOT NULL,
+  systolic_bp INTEGER NOT NULL,
+  diastolic_bp INTEGER NOT NULL,
+  respiratory_rate INTEGER NOT NULL,
+  temperature_f REAL NOT NULL,
+  spo2 INTEGER NOT NULL,
+  recorded_by_nurse_id INTEGER NOT NULL,
+  FOREIGN KEY (patient_id) REFERENCES patients(patient_id),
+  FOREIGN KEY (recorded_by_nurse_id) REFERENCES nurses(nurse_id)
+);
+
+-- Orders table
+CREATE TABLE orders (
+  order_id INTEGER PRIMARY KEY,
+  patient_id INTEGER NOT NULL,
+  encounter_id INTEGER NOT NULL,
+  provider_id INTEGER NOT NULL,
+  order_type TEXT CHECK(order_type IN ('Medication', 'Lab', 'Imaging', 'Consult')),
+  priority TEXT CHECK(priority IN ('Routine', 'STAT')),
+  ordered_time DATETIME NOT NULL,
+  status TEXT CHECK(status IN ('Completed', 'Pending', 'Cancelled')),
+  completed_time DATETIME,
+  FOREIGN KEY (patient_id) REFERENCES patients(patient_id),
+  FOREIGN KEY (encounter_id) REFERENCES encounters(encounter_id),
+  FOREIGN KEY (provider_id) REFERENCES providers(provider_id)
+);
+
 -- Create indexes for common queries
 CREATE INDEX idx_patients_unit ON patients(unit);
 CREATE INDEX idx_patients_last_name ON patients(last_name);
@@ -205,4 +310,7 @@ CREATE INDEX idx_medications_delay ON medications(delay_minutes);
 CREATE INDEX idx_encounters_patient ON encounters(patient_id);
 CREATE INDEX idx_diagnoses_encounter ON diagnoses(encounter_id);
 CREATE INDEX idx_labs_patient ON labs(patient_id);
+CREATE INDEX idx_shift_assignments_date ON shift_assignments(shift_date, unit);
+CREATE INDEX idx_vitals_patient ON vitals(patient_id, recorded_time);
+CREATE INDEX idx_orders_patient ON orders(patient_id);
 `;
@@ -5,29 +5,214 @@
  * - Cardiac Unit B has significantly higher medication delays
  * - Night shift has worse delays than Day/Evening
  * - Less experienced nurses have higher delays
+ * - Cardiac B is short-staffed and its orders take longer to complete
  * - Patient 247 (John Martinez) is the specific case they investigate first
+ *
+ * Counts, date windows and effect sizes come from a SeedConfig so other
+ * sections and semesters can get a different dataset. Each student's session
+ * uses its own seed (seedConfigForStudent), so numeric answers differ between
+ * students while the patterns above hold for all of them. The tasks and round
+ * narrative name Cardiac B and patient 247, so changing `problemUnit` means
+ * editing those too.
+ *
+ * Medication delays are computed from the generated patient and nurse rows,
+ * so the patterns appear in the joined data exactly as students query it.
  */
 
-// Seeded random number generator for reproducibility
-function seededRandom(seed: number) {
-  return function() {
-    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-    return seed / 0x7fffffff;
+import { canonicalJson, sha256Hex } from '@/lib/hash';
+import type {
+  Diagnosis,
+  Encounter,
+  Lab,
+  Medication,
+  Nurse,
+  Order,
+  Patient,
+  Provider,
+  ShiftAssignment,
+  Unit,
+  Vital,
+} from '@/types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Inclusive date range, as YYYY-MM-DD. */
+export interface DateWindow {
+  start: string;
+  end: string;
+}
+
+/** Minutes added to delay_minutes, drawn uniformly from [min, max]. */
+export type DelayRange = [number, number];
+
+export interface SeedEffects {
+  /** Unit with systematically worse delays (the investigation's answer). */
+  problemUnit: string;
+  problemUnitDelay: DelayRange;
+  nightShiftDelay: DelayRange;
+  eveningShiftDelay: DelayRange;
+  /** Extra minutes per year of experience below 20. */
+  experienceDelayPerYear: number;
+  /** Cap on delay_minutes. */
+  maxDelayMinutes: number;
+  /** Problem unit's share of normal nurse staffing per shift (0-1]. */
+  problemUnitStaffing: number;
+}
+
+export interface SeedConfig {
+  /** PRNG seed; same config, same data. */
+  seed: number;
+  patientCount: number;
+  nurseCount: number;
+  providerCount: number;
+  /** Admissions, encounters, diagnoses and labs fall in this window. */
+  dateWindow: DateWindow;
+  /** Medication scheduled times fall in this window. */
+  medicationWindow: DateWindow;
+  /**
+   * The simulated "current" time, as YYYY-MM-DD HH:MM:SS. Queries read it with
+   * clinical_now(); real dates would drift away from the fixed data windows.
+   */
+  clinicalNow: string;
+  effects: SeedEffects;
+}
+
+export type SeedConfigOverrides = Partial<Omit<SeedConfig, 'effects'>> & {
+  effects?: Partial<SeedEffects>;
+};
+
+/** The narrative's patient (John Martinez), always on the problem unit. */
+export const INDEX_PATIENT_ID = 247;
+
+export const DEFAULT_SEED_CONFIG: SeedConfig = {
+  seed: 42,
+  patientCount: 500,
+  nurseCount: 60,
+  providerCount: 30,
+  dateWindow: { start: '2024-12-01', end: '2024-12-28' },
+  medicationWindow: { start: '2024-12-20', end: '2024-12-28' },
+  clinicalNow: '2024-12-28 12:00:00',
+  effects: {
+    problemUnit: 'Cardiac B',
+    problemUnitDelay: [15, 30],
+    nightShiftDelay: [8, 15],
+    eveningShiftDelay: [3, 8],
+    experienceDelayPerYear: 0.5,
+    maxDelayMinutes: 90,
+    problemUnitStaffing: 0.6,
+  },
+};
+
+/**
+ * Merge overrides onto DEFAULT_SEED_CONFIG and validate the result.
+ * Throws if the config can't produce the dataset the tasks rely on.
+ */
+export function resolveSeedConfig(overrides: SeedConfigOverrides = {}): SeedConfig {
+  const config: SeedConfig = {
+    ...DEFAULT_SEED_CONFIG,
+    ...overrides,
+    effects: { ...DEFAULT_SEED_CONFIG.effects, ...overrides.effects },
   };
+
+  if (!Number.isInteger(config.seed)) {
+    throw new Error(`Seed must be an integer (got ${config.seed}).`);
+  }
+  if (config.patientCount < INDEX_PATIENT_ID) {
+    throw new Error(`patientCount must be at least ${INDEX_PATIENT_ID} so patient ${INDEX_PATIENT_ID} exists.`);
+  }
+  if (config.nurseCount < 3 || config.providerCount < 1) {
+    throw new Error('Need at least 3 nurses (one per shift) and 1 provider.');
+  }
+  if (!UNITS.includes(config.effects.problemUnit)) {
+    throw new Error(`Unknown problemUnit "${config.effects.problemUnit}". Expected one of: ${UNITS.join(', ')}.`);
+  }
+  for (const [name, window] of [['dateWindow', config.dateWindow], ['medicationWindow', config.medicationWindow]] as const) {
+    if (!(new Date(window.start) < new Date(window.end))) {
+      throw new Error(`${name} must have start before end (got ${window.start} – ${window.end}).`);
+    }
+  }
+  if (!/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(config.clinicalNow)) {
+    throw new Error(`clinicalNow must be YYYY-MM-DD HH:MM:SS (got ${config.clinicalNow}).`);
+  }
+  const latest = [config.dateWindow.end, config.medicationWindow.end].sort().pop()!;
+  if (config.clinicalNow < latest) {
+    throw new Error(`clinicalNow (${config.clinicalNow}) must not be before the data ends (${latest}).`);
+  }
+  if (!(config.effects.problemUnitStaffing > 0 && config.effects.problemUnitStaffing <= 1)) {
+    throw new Error(`problemUnitStaffing must be in (0, 1] (got ${config.effects.problemUnitStaffing}).`);
+  }
+  const { problemUnitDelay, nightShiftDelay, eveningShiftDelay } = config.effects;
+  for (const [min, max] of [problemUnitDelay, nightShiftDelay, eveningShiftDelay]) {
+    if (!(Number.isInteger(min) && Number.isInteger(max) && min <= max)) {
+      throw new Error(`Delay ranges must be integer [min, max] with min <= max (got [${min}, ${max}]).`);
+    }
+  }
+
+  return config;
 }
 
-const random = seededRandom(42); // Fixed seed for reproducibility
+/**
+ * Version of the generator logic. Bump it whenever a change to the generator
+ * functions alters the data produced for an existing config.
+ */
+export const SEED_GENERATOR_VERSION = 4;
 
-function randomInt(min: number, max: number): number {
-  return Math.floor(random() * (max - min + 1)) + min;
+/**
+ * Short, stable identifier for a config and generator version (first 16 hex
+ * chars of their SHA-256). Recorded in exports so a result can be traced to
+ * the exact dataset.
+ */
+export function seedConfigHash(config: SeedConfig): string {
+  return sha256Hex(canonicalJson({ generator: SEED_GENERATOR_VERSION, config })).slice(0, 16);
+}
+
+/**
+ * PRNG seed for a student, derived from their name (trimmed, case- and
+ * whitespace-insensitive): the same student always gets the same data, and two
+ * students almost never share a dataset.
+ */
+export function studentSeed(studentName: string): number {
+  const normalized = studentName.trim().replace(/\s+/g, ' ').toLowerCase();
+  return (parseInt(sha256Hex(normalized).slice(0, 8), 16) & 0x7fffffff) || 1;
 }
 
-function randomChoice<T>(arr: T[]): T {
-  return arr[Math.floor(random() * arr.length)];
+/** `base` with the seed replaced by the student's own. */
+export function seedConfigForStudent(studentName: string, base: SeedConfig = DEFAULT_SEED_CONFIG): SeedConfig {
+  return { ...base, seed: studentSeed(studentName) };
 }
 
-function randomDate(start: Date, end: Date): Date {
-  return new Date(start.getTime() + random() * (end.getTime() - start.getTime()));
+/**
+ * SQL function that returns `config.clinicalNow`. Registered on every database
+ * so date-relative tasks (`datetime(clinical_now(), '-7 days')`) see the same
+ * "today" as the data, whenever the lab is actually run.
+ */
+export const CLINICAL_NOW_FUNCTION = 'clinical_now';
+
+// ============================================================================
+// Random helpers
+// ============================================================================
+
+interface Rng {
+  random: () => number;
+  randomInt: (min: number, max: number) => number;
+  randomChoice: <T>(arr: T[]) => T;
+  randomDate: (start: Date, end: Date) => Date;
+}
+
+// Seeded random number generator for reproducibility
+function createRng(seed: number): Rng {
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+  return {
+    random,
+    randomInt: (min, max) => Math.floor(random() * (max - min + 1)) + min,
+    randomChoice: (arr) => arr[Math.floor(random() * arr.length)],
+    randomDate: (start, end) => new Date(start.getTime() + random() * (end.getTime() - start.getTime())),
+  };
 }
 
 function formatDate(d: Date): string {
@@ -46,7 +231,17 @@ const FIRST_NAMES_M = ['James', 'John', 'Robert', 'Michael', 'William', 'David',
 const FIRST_NAMES_F = ['Mary', 'Patricia', 'Jennifer', 'Linda', 'Elizabeth', 'Barbara', 'Susan', 'Jessica', 'Sarah', 'Karen', 'Lisa', 'Nancy', 'Betty', 'Margaret', 'Sandra', 'Ashley', 'Kimberly', 'Emily', 'Donna', 'Michelle', 'Dorothy', 'Carol', 'Amanda', 'Melissa', 'Deborah', 'Stephanie', 'Rebecca', 'Sharon', 'Laura', 'Cynthia'];
 const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Hernandez', 'Lopez', 'Gonzalez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin', 'Lee', 'Perez', 'Thompson', 'White', 'Harris', 'Sanchez', 'Clark', 'Ramirez', 'Lewis', 'Robinson'];
 
-const UNITS = ['Cardiac A', 'Cardiac B', 'Medical 1', 'Medical 2', 'Surgical', 'ICU', 'Oncology', 'Orthopedic'];
+const UNIT_RECORDS: Unit[] = [
+  { unit_name: 'Cardiac A', unit_type: 'Cardiac', floor: 3, bed_count: 48, target_patients_per_nurse: 4 },
+  { unit_name: 'Cardiac B', unit_type: 'Cardiac', floor: 3, bed_count: 48, target_patients_per_nurse: 4 },
+  { unit_name: 'Medical 1', unit_type: 'Medical', floor: 4, bed_count: 52, target_patients_per_nurse: 5 },
+  { unit_name: 'Medical 2', unit_type: 'Medical', floor: 4, bed_count: 52, target_patients_per_nurse: 5 },
+  { unit_name: 'Surgical', unit_type: 'Surgical', floor: 5, bed_count: 50, target_patients_per_nurse: 5 },
+  { unit_name: 'ICU', unit_type: 'Critical Care', floor: 2, bed_count: 50, target_patients_per_nurse: 2 },
+  { unit_name: 'Oncology', unit_type: 'Oncology', floor: 6, bed_count: 46, target_patients_per_nurse: 4 },
+  { unit_name: 'Orthopedic', unit_type: 'Orthopedic', floor: 5, bed_count: 46, target_patients_per_nurse: 5 },
+];
+const UNITS = UNIT_RECORDS.map((u) => u.unit_name);
 const DEPARTMENTS = ['Emergency', 'Internal Medicine', 'Cardiology', 'Surgery', 'Oncology', 'Orthopedics', 'Neurology'];
 const SPECIALTIES = ['Internal Medicine', 'Cardiology', 'Surgery', 'Emergency Medicine', 'Oncology', 'Orthopedics', 'Neurology', 'Family Medicine'];
 const ENCOUNTER_TYPES = ['Inpatient', 'Outpatient', 'Emergency', 'Observation'];
@@ -93,6 +288,8 @@ const MEDICATIONS = [
   { name: 'Amlodipine', dose: '5mg', route: 'PO', freq: 'Daily' },
 ];
 
+const ORDER_TYPES: Order['order_type'][] = ['Medication', 'Lab', 'Imaging', 'Consult'];
+
 const LAB_TESTS = [
   { name: 'Hemoglobin', units: 'g/dL', low: 12.0, high: 17.5 },
   { name: 'WBC', units: 'K/uL', low: 4.5, high: 11.0 },
@@ -110,52 +307,59 @@ const LAB_TESTS = [
 // Generator Functions
 // ============================================================================
 
-function generateProviders(): string[] {
-  const providers: string[] = [];
-  const shifts: ('Day' | 'Evening' | 'Night')[] = ['Day', 'Evening', 'Night'];
-
-  for (let i = 1; i <= 30; i++) {
-    const name = `Dr. ${randomChoice(FIRST_NAMES_M.concat(FIRST_NAMES_F))} ${randomChoice(LAST_NAMES)}`;
-    const specialty = randomChoice(SPECIALTIES);
-    const department = randomChoice(DEPARTMENTS);
-    const shift = randomChoice(shifts);
-    providers.push(`(${i}, '${name}', '${specialty}', '${department}', '${shift}')`);
+function generateProviders({ randomChoice }: Rng, config: SeedConfig): Provider[] {
+  const providers: Provider[] = [];
+  const shifts: Provider['shift'][] = ['Day', 'Evening', 'Night'];
+
+  for (let i = 1; i <= config.providerCount; i++) {
+    providers.push({
+      provider_id: i,
+      name: `Dr. ${randomChoice(FIRST_NAMES_M.concat(FIRST_NAMES_F))} ${randomChoice(LAST_NAMES)}`,
+      specialty: randomChoice(SPECIALTIES),
+      department: randomChoice(DEPARTMENTS),
+      shift: randomChoice(shifts),
+    });
   }
 
   return providers;
 }
 
-function generateNurses(): string[] {
-  const nurses: string[] = [];
-  const shifts: ('Day' | 'Evening' | 'Night')[] = ['Day', 'Evening', 'Night'];
+function generateNurses({ random, randomChoice }: Rng, config: SeedConfig): Nurse[] {
+  const nurses: Nurse[] = [];
+  const shifts: Nurse['shift'][] = ['Day', 'Evening', 'Night'];
 
-  for (let i = 1; i <= 60; i++) {
+  for (let i = 1; i <= config.nurseCount; i++) {
     const name = `${randomChoice(FIRST_NAMES_F)} ${randomChoice(LAST_NAMES)}`;
     const unit = randomChoice(UNITS);
-    const shift = shifts[i % 3]; // Distribute evenly
     // Experience: 1-20 years, skewed toward lower experience
     const years = Math.min(20, Math.max(1, Math.floor(Math.abs(random() - random()) * 20) + 1));
-    nurses.push(`(${i}, '${name}', '${unit}', '${shift}', ${years})`);
+    nurses.push({
+      nurse_id: i,
+      name,
+      unit,
+      shift: shifts[i % 3], // Distribute evenly
+      years_experience: years,
+    });
   }
 
   return nurses;
 }
 
-function generatePatients(): string[] {
-  const patients: string[] = [];
-  const baseDate = new Date('2024-12-01');
-  const endDate = new Date('2024-12-28');
+function generatePatients({ random, randomInt, randomChoice, randomDate }: Rng, config: SeedConfig): Patient[] {
+  const patients: Patient[] = [];
+  const baseDate = new Date(config.dateWindow.start);
+  const endDate = new Date(config.dateWindow.end);
 
-  // Ensure patient 247 is John Martinez on Cardiac B (the investigation target)
-  for (let i = 1; i <= 500; i++) {
+  // Ensure the index patient is John Martinez on the problem unit (the investigation target)
+  for (let i = 1; i <= config.patientCount; i++) {
     let firstName: string, lastName: string, gender: 'M' | 'F', unit: string;
 
-    if (i === 247) {
+    if (i === INDEX_PATIENT_ID) {
       // Special case: John Martinez - the patient in the narrative
       firstName = 'John';
       lastName = 'Martinez';
       gender = 'M';
-      unit = 'Cardiac B';
+      unit = config.effects.problemUnit;
     } else {
       gender = random() > 0.5 ? 'M' : 'F';
       firstName = gender === 'M' ? randomChoice(FIRST_NAMES_M) : randomChoice(FIRST_NAMES_F);
@@ -163,68 +367,71 @@ function generatePatients(): string[] {
       unit = randomChoice(UNITS);
     }
 
-    const mrn = `MRN${String(100000 + i).padStart(6, '0')}`;
     const dob = formatDate(randomDate(new Date('1940-01-01'), new Date('2006-01-01')));
     const admissionDate = randomDate(baseDate, endDate);
     const isDischargedPatient = random() > 0.7;
     const dischargeDate = isDischargedPatient
       ? formatDateTime(new Date(admissionDate.getTime() + randomInt(1, 10) * 24 * 60 * 60 * 1000))
-      : 'NULL';
-    const room = `${unit.charAt(0)}${randomInt(100, 150)}`;
-
-    patients.push(
-      `(${i}, '${mrn}', '${firstName}', '${lastName}', '${dob}', '${gender}', ` +
-      `'${formatDateTime(admissionDate)}', ${dischargeDate === 'NULL' ? 'NULL' : `'${dischargeDate}'`}, '${unit}', '${room}')`
-    );
+      : null;
+
+    patients.push({
+      patient_id: i,
+      mrn: `MRN${String(100000 + i).padStart(6, '0')}`,
+      first_name: firstName,
+      last_name: lastName,
+      dob,
+      gender,
+      admission_date: formatDateTime(admissionDate),
+      discharge_date: dischargeDate,
+      unit,
+      room_number: `${unit.charAt(0)}${randomInt(100, 150)}`,
+    });
   }
 
   return patients;
 }
 
-function generateEncounters(patientCount: number): string[] {
-  const encounters: string[] = [];
-  let encounterId = 1;
-  const baseDate = new Date('2024-12-01');
+function generateEncounters({ randomInt, randomChoice, randomDate }: Rng, config: SeedConfig): Encounter[] {
+  const encounters: Encounter[] = [];
+  const baseDate = new Date(config.dateWindow.start);
 
-  for (let patientId = 1; patientId <= patientCount; patientId++) {
+  for (let patientId = 1; patientId <= config.patientCount; patientId++) {
     const numEncounters = randomInt(1, 4);
 
     for (let e = 0; e < numEncounters; e++) {
-      const encounterDate = randomDate(baseDate, new Date('2024-12-28'));
-      const type = randomChoice(ENCOUNTER_TYPES);
-      const department = randomChoice(DEPARTMENTS);
-      const providerId = randomInt(1, 30);
-      const complaint = randomChoice(CHIEF_COMPLAINTS);
-      const los = randomInt(2, 120);
-
-      encounters.push(
-        `(${encounterId}, ${patientId}, '${formatDateTime(encounterDate)}', '${type}', ` +
-        `'${department}', ${providerId}, '${complaint}', ${los})`
-      );
-      encounterId++;
+      encounters.push({
+        encounter_id: encounters.length + 1,
+        patient_id: patientId,
+        encounter_date: formatDateTime(randomDate(baseDate, new Date(config.dateWindow.end))),
+        encounter_type: randomChoice(ENCOUNTER_TYPES),
+        department: randomChoice(DEPARTMENTS),
+        provider_id: randomInt(1, config.providerCount),
+        chief_complaint: randomChoice(CHIEF_COMPLAINTS),
+        length_of_stay_hours: randomInt(2, 120),
+      });
     }
   }
 
   return encounters;
 }
 
-function generateDiagnoses(encounterCount: number): string[] {
-  const diagnoses: string[] = [];
-  let diagId = 1;
-  const baseDate = new Date('2024-12-01');
+function generateDiagnoses({ randomInt, randomChoice, randomDate }: Rng, config: SeedConfig, encounters: Encounter[]): Diagnosis[] {
+  const diagnoses: Diagnosis[] = [];
+  const baseDate = new Date(config.dateWindow.start);
 
-  for (let encId = 1; encId <= encounterCount; encId++) {
+  for (const encounter of encounters) {
     const numDiag = randomInt(1, 3);
 
     for (let d = 0; d < numDiag; d++) {
       const diag = randomChoice(DIAGNOSES);
-      const isPrimary = d === 0 ? 1 : 0;
-      const diagDate = formatDate(randomDate(baseDate, new Date('2024-12-28')));
-
-      diagnoses.push(
-        `(${diagId}, ${encId}, '${diag.code}', '${diag.desc}', '${diagDate}', ${isPrimary})`
-      );
-      diagId++;
+      diagnoses.push({
+        diagnosis_id: diagnoses.length + 1,
+        encounter_id: encounter.encounter_id,
+        icd10_code: diag.code,
+        description: diag.desc,
+        diagnosis_date: formatDate(randomDate(baseDate, new Date(config.dateWindow.end))),
+        is_primary: d === 0,
+      });
     }
   }
 
@@ -232,80 +439,127 @@ function generateDiagnoses(encounterCount: number): string[] {
 }
 
 /**
- * Generate medications with delay patterns:
- * - Cardiac B: +15-25 minutes average delay
- * - Night shift: +10-15 minutes
- * - Less experience: inversely correlated (1 year = +8 min avg, 20 years = +2 min avg)
+ * Generate medications with delay patterns (defaults in brackets), read from
+ * the generated patient and nurse rows so they show up in joined queries:
+ * - Patient on the problem unit: +problemUnitDelay minutes [15-30]
+ * - Nurse on nights: +nightShiftDelay [8-15]; evenings: +eveningShiftDelay [3-8]
+ * - Nurse experience: +experienceDelayPerYear per year below 20 [0.5]
+ *
+ * Within the roster's date window the administering nurse is one rostered on
+ * the patient's unit that day. A unit with nobody rostered gets a nurse called
+ * in from those off that day, appended to `shiftAssignments`.
  */
-function generateMedications(patientCount: number, encounterCount: number): string[] {
-  const medications: string[] = [];
-  let medId = 1;
+function generateMedications(
+  { randomInt, randomChoice, randomDate }: Rng,
+  config: SeedConfig,
+  patients: Patient[],
+  nurses: Nurse[],
+  encounters: Encounter[],
+  shiftAssignments: ShiftAssignment[]
+): Medication[] {
+  const medications: Medication[] = [];
+  const { effects } = config;
+
+  const nurseById = new Map(nurses.map((n) => [n.nurse_id, n]));
+  const onUnit = new Map<string, Nurse[]>();
+  const onDay = new Map<string, Set<number>>();
+  const roster = (a: ShiftAssignment) => {
+    const key = `${a.shift_date}|${a.unit}`;
+    onUnit.set(key, [...(onUnit.get(key) ?? []), nurseById.get(a.nurse_id)!]);
+    onDay.set(a.shift_date, (onDay.get(a.shift_date) ?? new Set()).add(a.nurse_id));
+  };
+  shiftAssignments.forEach(roster);
+
+  const pickNurse = (unit: string, date: string): Nurse => {
+    if (date < config.dateWindow.start || date >= config.dateWindow.end) return randomChoice(nurses);
+
+    const working = onUnit.get(`${date}|${unit}`);
+    if (working) return randomChoice(working);
+
+    const off = nurses.filter((n) => !onDay.get(date)?.has(n.nurse_id));
+    if (off.length === 0) return randomChoice(nurses);
+    const nurse = randomChoice(off);
+    const callIn: ShiftAssignment = {
+      assignment_id: shiftAssignments.length + 1,
+      nurse_id: nurse.nurse_id,
+      shift_date: date,
+      shift: nurse.shift,
+      unit,
+    };
+    shiftAssignments.push(callIn);
+    roster(callIn);
+    return nurse;
+  };
 
-  // We need to know patient units and nurse info for delay calculation
-  // For simplicity, we'll generate based on patterns
+  const encountersByPatient = new Map<number, Encounter[]>();
+  for (const e of encounters) {
+    const list = encountersByPatient.get(e.patient_id) ?? [];
+    list.push(e);
+    encountersByPatient.set(e.patient_id, list);
+  }
 
-  for (let patientId = 1; patientId <= patientCount; patientId++) {
+  for (const patient of patients) {
     const numMeds = randomInt(3, 12);
-    const encounterId = randomInt(1, encounterCount);
-
-    // Determine patient's unit (simplified - Cardiac B for ~12.5% of patients)
-    const isCardiacB = patientId === 247 || (patientId % 8 === 0);
+    // Every patient has at least one encounter (generateEncounters)
+    const encounter = randomChoice(encountersByPatient.get(patient.patient_id)!);
 
     for (let m = 0; m < numMeds; m++) {
       const med = randomChoice(MEDICATIONS);
-      const nurseId = randomInt(1, 60);
+      const scheduledTime = randomDate(new Date(config.medicationWindow.start), new Date(config.medicationWindow.end));
+      const nurse = pickNurse(patient.unit, formatDate(scheduledTime));
 
       // Calculate delay based on patterns
-      let baseDelay = randomInt(0, 15); // Base: 0-15 minutes
+      let delay = randomInt(0, 15); // Base: 0-15 minutes
 
-      // Unit effect: Cardiac B has much worse delays
-      if (isCardiacB) {
-        baseDelay += randomInt(15, 30);
+      // Unit effect: the problem unit has much worse delays
+      if (patient.unit === effects.problemUnit) {
+        delay += randomInt(...effects.problemUnitDelay);
       }
 
-      // Shift effect: Night shift worse (nurse IDs are distributed by shift)
-      const nurseShiftIndex = nurseId % 3;
-      if (nurseShiftIndex === 2) { // Night shift
-        baseDelay += randomInt(8, 15);
-      } else if (nurseShiftIndex === 1) { // Evening
-        baseDelay += randomInt(3, 8);
+      // Shift effect: night shift worst, evening in between
+      if (nurse.shift === 'Night') {
+        delay += randomInt(...effects.nightShiftDelay);
+      } else if (nurse.shift === 'Evening') {
+        delay += randomInt(...effects.eveningShiftDelay);
       }
 
-      // Experience effect: Less experience = more delay
-      // Nurse experience was generated with ID-based pattern
-      const estimatedExperience = Math.min(20, Math.max(1, 20 - (nurseId % 15)));
-      baseDelay += Math.max(0, Math.floor((20 - estimatedExperience) * 0.5));
+      // Experience effect: less experience = more delay
+      delay += Math.floor((20 - nurse.years_experience) * effects.experienceDelayPerYear);
 
       // Cap delays at reasonable max
-      const delayMinutes = Math.min(90, Math.max(0, baseDelay));
+      const delayMinutes = Math.min(effects.maxDelayMinutes, Math.max(0, delay));
 
-      // Generate scheduled time within last 7 days
-      const scheduledTime = randomDate(new Date('2024-12-20'), new Date('2024-12-28'));
       const administeredTime = new Date(scheduledTime.getTime() + delayMinutes * 60 * 1000);
 
-      medications.push(
-        `(${medId}, ${patientId}, ${encounterId}, '${med.name}', '${med.dose}', '${med.freq}', ` +
-        `'${med.route}', '${formatDateTime(scheduledTime)}', '${formatDateTime(administeredTime)}', ` +
-        `${delayMinutes}, ${nurseId})`
-      );
-      medId++;
+      medications.push({
+        med_id: medications.length + 1,
+        patient_id: patient.patient_id,
+        encounter_id: encounter.encounter_id,
+        drug_name: med.name,
+        dose: med.dose,
+        frequency: med.freq,
+        route: med.route,
+        scheduled_time: formatDateTime(scheduledTime),
+        administered_time: formatDateTime(administeredTime),
+        delay_minutes: delayMinutes,
+        administering_nurse_id: nurse.nurse_id,
+      });
     }
   }
 
   return medications;
 }
 
-function generateLabs(patientCount: number): string[] {
-  const labs: string[] = [];
-  let labId = 1;
-  const baseDate = new Date('2024-12-01');
+function generateLabs({ random, randomInt, randomChoice, randomDate }: Rng, config: SeedConfig): Lab[] {
+  const labs: Lab[] = [];
+  const baseDate = new Date(config.dateWindow.start);
 
-  for (let patientId = 1; patientId <= patientCount; patientId++) {
+  for (let patientId = 1; patientId <= config.patientCount; patientId++) {
     const numLabs = randomInt(2, 8);
 
     for (let l = 0; l < numLabs; l++) {
       const test = randomChoice(LAB_TESTS);
-      const collectedDate = randomDate(baseDate, new Date('2024-12-28'));
+      const collectedDate = randomDate(baseDate, new Date(config.dateWindow.end));
 
       // Generate result - mostly normal, some abnormal
       let value: number;
@@ -326,59 +580,210 @@ function generateLabs(patientCount: number): string[] {
         flag = 'N';
       }
 
-      value = Math.round(value * 100) / 100;
-
-      labs.push(
-        `(${labId}, ${patientId}, '${test.name}', ${value}, '${test.units}', ` +
-        `${test.low}, ${test.high}, '${formatDateTime(collectedDate)}', '${flag}')`
-      );
-      labId++;
+      labs.push({
+        lab_id: labs.length + 1,
+        patient_id: patientId,
+        test_name: test.name,
+        result_value: Math.round(value * 100) / 100,
+        units: test.units,
+        reference_low: test.low,
+        reference_high: test.high,
+        collected_date: formatDateTime(collectedDate),
+        abnormal_flag: flag,
+      });
     }
   }
 
   return labs;
 }
 
+/**
+ * Roughly five shifts a week per nurse, on their own shift, across the date
+ * window. Each shift the nurse is placed where they're needed (weighted by
+ * beds per staffing target) rather than always on their home unit; the problem
+ * unit only gets `problemUnitStaffing` of its share, so it runs short-staffed.
+ */
+function generateShiftAssignments({ random }: Rng, config: SeedConfig, nurses: Nurse[]): ShiftAssignment[] {
+  const assignments: ShiftAssignment[] = [];
+  const end = new Date(config.dateWindow.end);
+  const weights = UNIT_RECORDS.map((u) =>
+    (u.bed_count / u.target_patients_per_nurse) *
+    (u.unit_name === config.effects.problemUnit ? config.effects.problemUnitStaffing : 1)
+  );
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const pickUnit = () => {
+    let r = random() * totalWeight;
+    const index = weights.findIndex((w) => (r -= w) < 0);
+    return UNITS[index === -1 ? UNITS.length - 1 : index];
+  };
+
+  for (let day = new Date(config.dateWindow.start); day < end; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    for (const nurse of nurses) {
+      if (random() >= 5 / 7) continue;
+
+      assignments.push({
+        assignment_id: assignments.length + 1,
+        nurse_id: nurse.nurse_id,
+        shift_date: formatDate(day),
+        shift: nurse.shift,
+        unit: pickUnit(),
+      });
+    }
+  }
+
+  return assignments;
+}
+
+function generateVitals({ random, randomInt, randomChoice, randomDate }: Rng, config: SeedConfig, patients: Patient[], nurses: Nurse[]): Vital[] {
+  const vitals: Vital[] = [];
+  const end = new Date(config.dateWindow.end);
+
+  for (const patient of patients) {
+    const numReadings = randomInt(3, 8);
+    const admitted = new Date(patient.admission_date.replace(' ', 'T') + 'Z');
+    const discharged = patient.discharge_date ? new Date(patient.discharge_date.replace(' ', 'T') + 'Z') : end;
+    // Readings stop at discharge
+    const last = discharged < end ? discharged : end;
+    const unitNurses = nurses.filter((n) => n.unit === patient.unit);
+
+    for (let v = 0; v < numReadings; v++) {
+      // ~10% of readings are from a patient who is decompensating
+      const unstable = random() < 0.1;
+      vitals.push({
+        vital_id: vitals.length + 1,
+        patient_id: patient.patient_id,
+        recorded_time: formatDateTime(randomDate(admitted, last)),
+        heart_rate: unstable ? randomInt(105, 140) : randomInt(60, 100),
+        systolic_bp: unstable ? randomInt(85, 100) : randomInt(105, 145),
+        diastolic_bp: randomInt(60, 90),
+        respiratory_rate: unstable ? randomInt(22, 30) : randomInt(12, 20),
+        temperature_f: Math.round((unstable ? 100.4 + random() * 2.5 : 97.5 + random() * 1.8) * 10) / 10,
+        spo2: unstable ? randomInt(86, 92) : randomInt(94, 100),
+        recorded_by_nurse_id: randomChoice(unitNurses.length > 0 ? unitNurses : nurses).nurse_id,
+      });
+    }
+  }
+
+  return vitals;
+}
+
+/**
+ * Orders per encounter, placed by the encounter's provider. Turnaround
+ * (completed_time - ordered_time) carries the same problem-unit delay as
+ * medications, so the story holds in date-arithmetic queries too.
+ */
+function generateOrders({ random, randomInt, randomChoice }: Rng, config: SeedConfig, patients: Patient[], encounters: Encounter[]): Order[] {
+  const orders: Order[] = [];
+  const unitByPatient = new Map(patients.map((p) => [p.patient_id, p.unit]));
+
+  for (const encounter of encounters) {
+    const numOrders = randomInt(1, 3);
+    const encounterTime = new Date(encounter.encounter_date.replace(' ', 'T') + 'Z').getTime();
+
+    for (let o = 0; o < numOrders; o++) {
+      const priority: Order['priority'] = random() < 0.2 ? 'STAT' : 'Routine';
+      const orderedTime = encounterTime + randomInt(0, 12 * 60) * 60 * 1000;
+
+      let turnaround = priority === 'STAT' ? randomInt(5, 30) : randomInt(20, 120);
+      if (unitByPatient.get(encounter.patient_id) === config.effects.problemUnit) {
+        turnaround += randomInt(...config.effects.problemUnitDelay);
+      }
+
+      const roll = random();
+      const status: Order['status'] = roll < 0.9 ? 'Completed' : roll < 0.95 ? 'Pending' : 'Cancelled';
+
+      orders.push({
+        order_id: orders.length + 1,
+        patient_id: encounter.patient_id,
+        encounter_id: encounter.encounter_id,
+        provider_id: encounter.provider_id,
+        order_type: randomChoice(ORDER_TYPES),
+        priority,
+        ordered_time: formatDateTime(new Date(orderedTime)),
+        status,
+        completed_time: status === 'Completed' ? formatDateTime(new Date(orderedTime + turnaround * 60 * 1000)) : null,
+      });
+    }
+  }
+
+  return orders;
+}
+
 // ============================================================================
 // Main Export
 // ============================================================================
 
-export function generateSeedSQL(): string {
-  const providers = generateProviders();
-  const nurses = generateNurses();
-  const patients = generatePatients();
-  const encounters = generateEncounters(500);
-  const diagnoses = generateDiagnoses(encounters.length);
-  const medications = generateMedications(500, encounters.length);
-  const labs = generateLabs(500);
-
-  return `
--- Providers (30 records)
-INSERT INTO providers (provider_id, name, specialty, department, shift) VALUES
-${providers.join(',\n')};
-
--- Nurses (60 records)
-INSERT INTO nurses (nurse_id, name, unit, shift, years_experience) VALUES
-${nurses.join(',\n')};
-
--- Patients (500 records)
-INSERT INTO patients (patient_id, mrn, first_name, last_name, dob, gender, admission_date, discharge_date, unit, room_number) VALUES
-${patients.join(',\n')};
-
--- Encounters (~1000-2000 records)
-INSERT INTO encounters (encounter_id, patient_id, encounter_date, encounter_type, department, provider_id, chief_complaint, length_of_stay_hours) VALUES
-${encounters.join(',\n')};
-
--- Diagnoses (~2000-4000 records)
-INSERT INTO diagnoses (diagnosis_id, encounter_id, icd10_code, description, diagnosis_date, is_primary) VALUES
-${diagnoses.join(',\n')};
-
--- Medications (~3000-6000 records with delay patterns!)
-INSERT INTO medications (med_id, patient_id, encounter_id, drug_name, dose, frequency, route, scheduled_time, administered_time, delay_minutes, administering_nurse_id) VALUES
-${medications.join(',\n')};
-
--- Labs (~2000-4000 records)
-INSERT INTO labs (lab_id, patient_id, test_name, result_value, units, reference_low, reference_high, collected_date, abnormal_flag) VALUES
-${labs.join(',\n')};
-  `.trim();
+/** Every generated row, by table. */
+export interface SeedDataset {
+  providers: Provider[];
+  nurses: Nurse[];
+  patients: Patient[];
+  encounters: Encounter[];
+  diagnoses: Diagnosis[];
+  medications: Medication[];
+  labs: Lab[];
+  units: Unit[];
+  shiftAssignments: ShiftAssignment[];
+  vitals: Vital[];
+  orders: Order[];
+}
+
+/**
+ * Generate the dataset as records. Deterministic: the same config always
+ * yields the same rows.
+ */
+export function generateSeedData(config: SeedConfig = DEFAULT_SEED_CONFIG): SeedDataset {
+  const rng = createRng(config.seed);
+  const providers = generateProviders(rng, config);
+  const nurses = generateNurses(rng, config);
+  const patients = generatePatients(rng, config);
+  const encounters = generateEncounters(rng, config);
+  const diagnoses = generateDiagnoses(rng, config, encounters);
+  // Medications are given by nurses on the roster, so it comes first
+  const shiftAssignments = generateShiftAssignments(rng, config, nurses);
+  const medications = generateMedications(rng, config, patients, nurses, encounters, shiftAssignments);
+  const labs = generateLabs(rng, config);
+  const vitals = generateVitals(rng, config, patients, nurses);
+  const orders = generateOrders(rng, config, patients, encounters);
+
+  return {
+    providers, nurses, patients, encounters, diagnoses, medications, labs,
+    units: UNIT_RECORDS.map((u) => ({ ...u })), shiftAssignments, vitals, orders,
+  };
+}
+
+function sqlLiteral(value: string | number | boolean | null): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') return String(value);
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function insertStatement<T extends object>(table: string, comment: string, rows: T[]): string {
+  const columns = Object.keys(rows[0] ?? {});
+  const values = rows.map((row) =>
+    `(${Object.values(row).map((v) => sqlLiteral(v as string | number | boolean | null)).join(', ')})`
+  );
+  return `-- ${comment}\nINSERT INTO ${table} (${columns.join(', ')}) VALUES\n${values.join(',\n')};`;
+}
+
+/**
+ * Build the INSERT statements for a dataset (see generateSeedData).
+ */
+export function generateSeedSQL(config: SeedConfig = DEFAULT_SEED_CONFIG): string {
+  const data = generateSeedData(config);
+
+  return [
+    insertStatement('providers', `Providers (${data.providers.length} records)`, data.providers),
+    insertStatement('nurses', `Nurses (${data.nurses.length} records)`, data.nurses),
+    insertStatement('patients', `Patients (${data.patients.length} records)`, data.patients),
+    insertStatement('encounters', `Encounters (${data.encounters.length} records)`, data.encounters),
+    insertStatement('diagnoses', `Diagnoses (${data.diagnoses.length} records)`, data.diagnoses),
+    insertStatement('medications', `Medications (${data.medications.length} records with delay patterns)`, data.medications),
+    insertStatement('labs', `Labs (${data.labs.length} records)`, data.labs),
+    insertStatement('units', `Units (${data.units.length} records)`, data.units),
+    insertStatement('shift_assignments', `Shift assignments (${data.shiftAssignments.length} records)`, data.shiftAssignments),
+    insertStatement('vitals', `Vitals (${data.vitals.length} records)`, data.vitals),
+    insertStatement('orders', `Orders (${data.orders.length} records)`, data.orders),
+  ].join('\n\n');
 }
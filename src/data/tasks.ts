@@ -33,10 +33,15 @@ export const tasks: Task[] = [
     id: '1.3',
     round: 1,
     queryNum: 3,
-    prompt: 'List all medications administered to patient_id 247 in the last 7 days, ordered by scheduled time.',
-    expectedQuery: `SELECT * FROM medications WHERE patient_id = 247 AND scheduled_time >= date('now', '-7 days') ORDER BY scheduled_time;`,
+    prompt: 'List all medications administered to patient_id 247 in the last 7 days, ordered by scheduled time. (Use clinical_now() for the current date and time in the hospital record.)',
+    expectedQuery: `SELECT * FROM medications WHERE patient_id = 247 AND scheduled_time >= datetime(clinical_now(), '-7 days') ORDER BY scheduled_time;`,
     preserveOrder: true,
-    hints: ['Use ORDER BY for sorting', 'SQLite date functions: date("now", "-7 days")'],
+    comparison: { orderKeys: ['scheduled_time'] },
+    hints: [
+      'Use ORDER BY for sorting',
+      "SQLite date functions: datetime(clinical_now(), '-7 days')",
+      "date('now') is today's real date — the hospital data is from December 2024",
+    ],
   },
 
   // ============================================================================
@@ -52,6 +57,7 @@ FROM encounters e
 JOIN providers p ON e.provider_id = p.provider_id
 WHERE e.patient_id = 247;`,
     preserveOrder: false,
+    concepts: { require: ['join'] },
     hints: ['JOIN connects tables using a shared key', 'Use table aliases (e, p) for cleaner queries'],
   },
   {
@@ -64,6 +70,7 @@ FROM medications m
 JOIN nurses n ON m.administering_nurse_id = n.nurse_id
 WHERE m.patient_id = 247;`,
     preserveOrder: false,
+    concepts: { require: ['join'] },
     hints: ['The foreign key is administering_nurse_id', 'Alias the joined column for clarity'],
   },
   {
@@ -76,6 +83,7 @@ FROM diagnoses d
 JOIN encounters e ON d.encounter_id = e.encounter_id
 WHERE e.patient_id = 247;`,
     preserveOrder: false,
+    concepts: { require: ['join'] },
     hints: ['Diagnoses link to patients through encounters', 'You need to JOIN through the encounters table'],
   },
 
@@ -98,6 +106,7 @@ WHERE e.patient_id = 247;`,
     prompt: 'How many medication administrations had a delay greater than 30 minutes?',
     expectedQuery: `SELECT COUNT(*) as count FROM medications WHERE delay_minutes > 30;`,
     preserveOrder: false,
+    comparison: { numeric: {} },
     hints: ['COUNT(*) counts all matching rows', 'Filter with WHERE before counting'],
   },
   {
@@ -121,6 +130,8 @@ GROUP BY p.unit;`,
   ROUND(100.0 * SUM(CASE WHEN delay_minutes > 15 THEN 1 ELSE 0 END) / COUNT(*), 2) as pct_delayed
 FROM medications;`,
     preserveOrder: false,
+    // 100 * x / y truncates to a whole percentage; accept it as close enough
+    comparison: { numeric: { absolute: 1 } },
     hints: ['Use CASE WHEN for conditional counting', 'Multiply by 100.0 (not 100) for decimal division'],
   },
 
@@ -153,6 +164,8 @@ GROUP BY n.nurse_id, n.name
 ORDER BY avg_delay DESC
 LIMIT 10;`,
     preserveOrder: true,
+    // Nurses tied on avg_delay may come in any order, and either side of the cutoff
+    comparison: { columns: 'superset', orderKeys: ['avg_delay'] },
     hints: ['ORDER BY ... DESC for highest first', 'LIMIT 10 restricts to top 10'],
   },
   {
@@ -195,6 +208,9 @@ JOIN nurses n ON m.administering_nurse_id = n.nurse_id
 GROUP BY n.nurse_id, n.name
 HAVING AVG(m.delay_minutes) > (SELECT AVG(delay_minutes) FROM medications);`,
     preserveOrder: false,
+    comparison: { columns: 'superset' },
+    // The hospital average from 3.1 typed in as a number would match too
+    concepts: { require: ['subquery'], maxNumericLiteral: 2 },
     hints: ['Use a subquery to get the hospital average', 'HAVING filters after GROUP BY (unlike WHERE)'],
   },
   {
@@ -209,6 +225,7 @@ WHERE m.delay_minutes > 15
 GROUP BY p.unit
 ORDER BY total_delayed_minutes DESC;`,
     preserveOrder: true,
+    comparison: { orderKeys: ['total_delayed_minutes'] },
     hints: ['Filter delays > 15 in WHERE', 'SUM() adds up all values in the group'],
   },
   {
@@ -225,6 +242,7 @@ FROM medications m
 JOIN patients p ON m.patient_id = p.patient_id
 GROUP BY p.unit;`,
     preserveOrder: false,
+    comparison: { numeric: {}, numericColumns: { delay_rate: { absolute: 1 } } },
     hints: ['Use CASE WHEN inside SUM() for conditional counting', 'Calculate percentage: 100.0 * delayed / total'],
   },
   {
@@ -241,6 +259,7 @@ GROUP BY p.unit;`,
     )
   ) as potential_minutes_saved;`,
     preserveOrder: false,
+    concepts: { require: ['subquery'], maxNumericLiteral: 2 },
     hints: [
       'Savings = count_cardiac_b × (avg_cardiac_b - avg_hospital)',
       'Use subqueries for each component',
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  openInactiveInterval,
+  closeInactiveInterval,
+  computeActiveTimeSec,
+  measureTaskTime,
+} from '../activityTracking';
+import type { InactiveInterval, StudySession } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Interval bookkeeping
+// ---------------------------------------------------------------------------
+
+describe('openInactiveInterval / closeInactiveInterval', () => {
+  it('opens one interval per reason and closes it', () => {
+    let intervals: InactiveInterval[] = [];
+    intervals = openInactiveInterval(intervals, 'hidden', 1000);
+    intervals = openInactiveInterval(intervals, 'hidden', 2000);
+    expect(intervals).toEqual([{ reason: 'hidden', start: 1000, end: null }]);
+
+    intervals = closeInactiveInterval(intervals, 'hidden', 5000);
+    expect(intervals).toEqual([{ reason: 'hidden', start: 1000, end: 5000 }]);
+  });
+
+  it('returns the same array when nothing changes', () => {
+    const intervals: InactiveInterval[] = [{ reason: 'blur', start: 0, end: null }];
+    expect(openInactiveInterval(intervals, 'blur', 10)).toBe(intervals);
+    expect(closeInactiveInterval(intervals, 'idle', 10)).toBe(intervals);
+  });
+
+  it('never closes an interval before it started', () => {
+    const intervals = closeInactiveInterval([{ reason: 'idle', start: 5000, end: null }], 'idle', 4000);
+    expect(intervals[0].end).toBe(5000);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Active time
+// ---------------------------------------------------------------------------
+
+describe('computeActiveTimeSec', () => {
+  it('equals wall time without intervals', () => {
+    expect(computeActiveTimeSec(0, 90_000, [])).toBe(90);
+  });
+
+  it('subtracts closed and open intervals', () => {
+    const intervals: InactiveInterval[] = [
+      { reason: 'hidden', start: 10_000, end: 40_000 },
+      { reason: 'idle', start: 80_000, end: null },
+    ];
+    expect(computeActiveTimeSec(0, 100_000, intervals)).toBe(50);
+  });
+
+  it('counts overlapping intervals once', () => {
+    const intervals: InactiveInterval[] = [
+      { reason: 'blur', start: 10_000, end: 50_000 },
+      { reason: 'hidden', start: 20_000, end: 40_000 },
+      { reason: 'idle', start: 45_000, end: 60_000 },
+    ];
+    expect(computeActiveTimeSec(0, 100_000, intervals)).toBe(50);
+  });
+
+  it('clips intervals to the task window', () => {
+    const intervals: InactiveInterval[] = [{ reason: 'hidden', start: -5_000, end: 5_000 }];
+    expect(computeActiveTimeSec(0, 20_000, intervals)).toBe(15);
+  });
+});
+
+describe('measureTaskTime', () => {
+  it('reports both clocks for the current task', () => {
+    const session = {
+      taskStartTime: 1_000_000,
+      inactiveIntervals: [{ reason: 'hidden', start: 1_010_000, end: 1_610_000 }],
+    } as StudySession;
+
+    expect(measureTaskTime(session, 1_700_000)).toEqual({ wallTimeSec: 700, activeTimeSec: 100 });
+  });
+
+  it('is zero when no task is running', () => {
+    const session = { taskStartTime: null } as StudySession;
+    expect(measureTaskTime(session, 5000)).toEqual({ wallTimeSec: 0, activeTimeSec: 0 });
+  });
+});
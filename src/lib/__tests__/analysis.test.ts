@@ -7,13 +7,23 @@ import {
   computeTaskDifficulties,
   computeOverallStats,
   analyzeSqlComplexity,
+  analyzeCohort,
   ols,
+  multipleRegression,
+  fitCovariateModel,
+  detectOutliers,
+  studentTCdf,
+  studentTQuantile,
+  LEARNING_CURVE_MODELS,
 } from '../analysis';
+import type { TaskAttempt } from '@/types';
 import {
   createCleanSession,
   createRetrySession,
   createPartialSession,
   createEmptySession,
+  createIdleSession,
+  createCohortSessions,
   CLEAN_SESSION_EXPECTED,
   RETRY_SESSION_EXPECTED,
 } from './fixtures';
@@ -60,6 +70,145 @@ describe('ols', () => {
     expect(result.slope).toBeCloseTo(0, 5);
     expect(result.rSquared).toBeCloseTo(0, 5);
   });
+
+  it('reports coefficient standard errors, t and p like lm()/Minitab', () => {
+    // Hand-computed: Sxx = 10, SSE = 2.79, s² = 0.93, t(0.975, 3) = 3.1824
+    const xs = [1, 2, 3, 4, 5];
+    const ys = [1, 2, 1.3, 3.75, 2.25];
+    const result = ols(xs, ys);
+
+    expect(result.slope).toBeCloseTo(0.425, 6);
+    expect(result.intercept).toBeCloseTo(0.785, 6);
+    expect(result.degreesOfFreedom).toBe(3);
+    expect(result.slopeStdError!).toBeCloseTo(0.305, 4);
+    expect(result.interceptStdError!).toBeCloseTo(1.0116, 3);
+    expect(result.tStatistic!).toBeCloseTo(1.3934, 3);
+    expect(result.pValue!).toBeCloseTo(0.2578, 3);
+    expect(result.slopeCI95![0]).toBeCloseTo(-0.5456, 3);
+    expect(result.slopeCI95![1]).toBeCloseTo(1.3956, 3);
+  });
+
+  it('omits inference with only two points', () => {
+    const result = ols([1, 2], [3, 5]);
+    expect(result.slope).toBeCloseTo(2, 10);
+    expect(result.slopeStdError).toBeNull();
+    expect(result.pValue).toBeNull();
+  });
+});
+
+describe('multipleRegression', () => {
+  it('recovers exact coefficients', () => {
+    const rows = [[1, 1, 0], [1, 2, 1], [1, 3, 0], [1, 4, 2], [1, 5, 1]];
+    const ys = rows.map(([, x1, x2]) => 1 + 2 * x1 - 3 * x2);
+    const result = multipleRegression(rows, ys, ['intercept', 'x1', 'x2'])!;
+
+    expect(result.coefficients.map((c) => c.estimate)).toEqual([
+      expect.closeTo(1, 8),
+      expect.closeTo(2, 8),
+      expect.closeTo(-3, 8),
+    ]);
+    expect(result.rSquared).toBeCloseTo(1, 8);
+    expect(result.degreesOfFreedom).toBe(2);
+  });
+
+  it('matches simple OLS inference with one predictor', () => {
+    const xs = [1, 2, 3, 4, 5];
+    const ys = [1, 2, 1.3, 3.75, 2.25];
+    const simple = ols(xs, ys);
+    const result = multipleRegression(xs.map((x) => [1, x]), ys, ['intercept', 'x'])!;
+    const slope = result.coefficients[1];
+
+    expect(slope.estimate).toBeCloseTo(simple.slope, 10);
+    expect(slope.stdError!).toBeCloseTo(simple.slopeStdError!, 10);
+    expect(slope.pValue!).toBeCloseTo(simple.pValue!, 10);
+    expect(slope.ci95![0]).toBeCloseTo(simple.slopeCI95![0], 8);
+    expect(result.coefficients[0].stdError!).toBeCloseTo(simple.interceptStdError!, 10);
+  });
+
+  it('returns null for collinear columns', () => {
+    const rows = [[1, 1, 2], [1, 2, 4], [1, 3, 6], [1, 4, 8]];
+    expect(multipleRegression(rows, [1, 2, 3, 5], ['intercept', 'x', 'twoX'])).toBeNull();
+  });
+
+  it('returns null with fewer observations than coefficients', () => {
+    expect(multipleRegression([[1, 1, 1], [1, 2, 0]], [1, 2], ['a', 'b', 'c'])).toBeNull();
+  });
+});
+
+describe('fitCovariateModel', () => {
+  it('controls for task tier on the clean session', () => {
+    const session = createCleanSession();
+    const model = fitCovariateModel(getSuccessfulAttempts(session), session.attempts)!;
+
+    expect(model.coefficients.map((c) => c.name)).toEqual(['intercept', 'ln_sequence', 'task_tier']);
+    expect(model.droppedPredictors).toEqual(['attempts']);
+    expect(model.formula).toBe('log(time_sec) ~ log(query_sequence) + task_tier');
+    expect(model.degreesOfFreedom).toBe(15);
+    expect(model.adjustedExponent).toBe(model.coefficients[1].estimate);
+    expect(model.adjustedLearningRate).toBeCloseTo(Math.pow(2, model.adjustedExponent), 3);
+  });
+
+  it('includes attempts when tasks were retried', () => {
+    const session = createRetrySession();
+    const model = fitCovariateModel(getSuccessfulAttempts(session), session.attempts)!;
+
+    expect(model.coefficients.map((c) => c.name)).toContain('attempts');
+    expect(model.droppedPredictors).not.toContain('attempts');
+  });
+
+  it('returns null without enough tasks', () => {
+    const session = createCleanSession();
+    const successful = getSuccessfulAttempts(session).slice(0, 2);
+    expect(fitCovariateModel(successful, session.attempts)).toBeNull();
+  });
+});
+
+describe('detectOutliers', () => {
+  it('flags nothing on a smooth power-law session', () => {
+    const result = detectOutliers(getSuccessfulAttempts(createCleanSession()))!;
+
+    expect(result.diagnostics).toHaveLength(18);
+    expect(result.outlierTaskIds).toEqual([]);
+    expect(result.refit).toBeNull();
+  });
+
+  it('flags an idle 40-minute task and refits without it', () => {
+    const successful = getSuccessfulAttempts(createIdleSession());
+    const result = detectOutliers(successful)!;
+    const idle = result.diagnostics.find((d) => d.taskId === '3.2')!;
+
+    expect(result.outlierTaskIds).toEqual(['3.2']);
+    expect(idle.studentizedResidual).toBeGreaterThan(3);
+    expect(idle.cooksDistance).toBeGreaterThan(4 / 18);
+    expect(result.refit!.n).toBe(17);
+
+    const withIdle = fitLearningCurve(successful);
+    expect(result.refit!.rSquared).toBeGreaterThan(withIdle.rSquared);
+  });
+
+  it('computes leverage as the log-log hat values', () => {
+    const result = detectOutliers(getSuccessfulAttempts(createCleanSession()))!;
+    const totalLeverage = result.diagnostics.reduce((s, d) => s + d.leverage, 0);
+    // trace(H) = number of coefficients
+    expect(totalLeverage).toBeCloseTo(2, 2);
+  });
+
+  it('needs at least 5 tasks', () => {
+    expect(detectOutliers(getSuccessfulAttempts(createCleanSession()).slice(0, 4))).toBeNull();
+  });
+});
+
+describe('Student t distribution', () => {
+  it('matches t-table critical values', () => {
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.2281, 3);
+    expect(studentTQuantile(0.975, 16)).toBeCloseTo(2.1199, 3);
+    expect(studentTQuantile(0.95, 5)).toBeCloseTo(2.0150, 3);
+  });
+
+  it('is symmetric around zero', () => {
+    expect(studentTCdf(0, 7)).toBeCloseTo(0.5, 10);
+    expect(studentTCdf(-1.3, 7) + studentTCdf(1.3, 7)).toBeCloseTo(1, 10);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -137,6 +286,23 @@ describe('fitLearningCurve', () => {
     expect(result.rSquared).toBeLessThan(CLEAN_SESSION_EXPECTED.rSquared.max);
   });
 
+  it('reports significance and confidence intervals on the exponent', () => {
+    const result = fitLearningCurve(getSuccessfulAttempts(createCleanSession()));
+
+    expect(result.exponentStdError).toBeGreaterThan(0);
+    expect(result.exponentTStatistic).toBeLessThan(0);
+    expect(result.exponentPValue).toBeLessThan(0.001);
+
+    const [lo, hi] = result.exponentCI95!;
+    expect(lo).toBeLessThan(result.exponent);
+    expect(hi).toBeGreaterThan(result.exponent);
+    expect(hi).toBeLessThan(0);
+
+    const [rateLo, rateHi] = result.learningRateCI95!;
+    expect(rateLo).toBeCloseTo(Math.pow(2, lo), 3);
+    expect(rateHi).toBeCloseTo(Math.pow(2, hi), 3);
+  });
+
   it('returns correct number of residuals and predicted times', () => {
     const session = createCleanSession();
     const successful = getSuccessfulAttempts(session);
@@ -179,6 +345,117 @@ describe('fitLearningCurve', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Alternative Learning Curve Models
+// ---------------------------------------------------------------------------
+
+function syntheticAttempts(timeFor: (n: number) => number, count = 18): TaskAttempt[] {
+  return Array.from({ length: count }, (_, i) => ({
+    studentName: 'Model Student',
+    sqlExpertise: 1,
+    round: 1,
+    queryNum: i + 1,
+    taskId: `1.${i + 1}`,
+    querySequence: i + 1,
+    attemptNum: 1,
+    timeSec: timeFor(i + 1),
+    totalAttempts: 1,
+    submittedQuery: 'SELECT 1;',
+    completedAt: new Date().toISOString(),
+    isCorrect: true,
+  }));
+}
+
+describe('fitLearningCurve - model selection', () => {
+  it('fits only the power law by default', () => {
+    const result = fitLearningCurve(getSuccessfulAttempts(createCleanSession()));
+    expect(result.models.map((m) => m.model)).toEqual(['power']);
+    expect(result.bestModel).toBe('power');
+  });
+
+  it('fits every requested model with AIC, BIC and R²', () => {
+    const result = fitLearningCurve(getSuccessfulAttempts(createCleanSession()), {
+      models: LEARNING_CURVE_MODELS,
+    });
+    expect(result.models.map((m) => m.model)).toEqual(LEARNING_CURVE_MODELS);
+    result.models.forEach((m) => {
+      expect(Number.isFinite(m.aic)).toBe(true);
+      expect(Number.isFinite(m.bic)).toBe(true);
+      expect(m.rSquared).toBeGreaterThan(0);
+      expect(m.predictedTimes).toHaveLength(18);
+    });
+
+    // Power-law entry agrees with the headline fit
+    const power = result.models.find((m) => m.model === 'power')!;
+    expect(power.parameters.b).toBeCloseTo(result.exponent, 3);
+    expect(power.rSquared).toBeCloseTo(result.rSquared, 3);
+  });
+
+  it('prefers the power law for power-law data', () => {
+    const result = fitLearningCurve(syntheticAttempts((n) => 100 * Math.pow(n, -0.4)), {
+      models: LEARNING_CURVE_MODELS,
+    });
+    expect(result.bestModel).toBe('power');
+  });
+
+  it('recovers the incompressible fraction of De Jong data', () => {
+    const result = fitLearningCurve(
+      syntheticAttempts((n) => 100 * (0.4 + 0.6 * Math.pow(n, -0.8))),
+      { models: LEARNING_CURVE_MODELS }
+    );
+    expect(result.bestModel).toBe('deJong');
+    const deJong = result.models.find((m) => m.model === 'deJong')!;
+    expect(deJong.parameters.M).toBeCloseTo(0.4, 2);
+    expect(deJong.parameters.b).toBeCloseTo(-0.8, 2);
+  });
+
+  it('fits De Jong and exponential on the log scale they are ranked on', () => {
+    // Multiplicative noise: the log-scale fit must beat the generating curve
+    const noise = (n: number) => Math.exp(0.5 * Math.sin(1.7 * n));
+    const curves = {
+      deJong: (n: number) => 100 * (0.4 + 0.6 * Math.pow(n, -0.8)),
+      exponential: (n: number) => 30 + 90 * Math.exp(-0.3 * (n - 1)),
+    };
+    for (const [model, curve] of Object.entries(curves)) {
+      const attempts = syntheticAttempts((n) => curve(n) * noise(n));
+      const result = fitLearningCurve(attempts, { models: LEARNING_CURVE_MODELS });
+      const fitted = result.models.find((m) => m.model === model)!;
+      const trueSse = attempts.reduce(
+        (s, a) => s + (Math.log(a.timeSec) - Math.log(curve(a.querySequence))) ** 2,
+        0
+      );
+      expect(fitted.sse).toBeLessThanOrEqual(trueSse + 1e-4);
+    }
+  });
+
+  it('recovers the plateau of exponential data', () => {
+    const result = fitLearningCurve(
+      syntheticAttempts((n) => 30 + 90 * Math.exp(-0.3 * (n - 1))),
+      { models: LEARNING_CURVE_MODELS }
+    );
+    expect(result.bestModel).toBe('exponential');
+    const exp = result.models.find((m) => m.model === 'exponential')!;
+    expect(exp.parameters.Tinf).toBeCloseTo(30, 1);
+    expect(exp.parameters.k).toBeCloseTo(0.3, 2);
+  });
+
+  it('recovers prior experience in Stanford-B data', () => {
+    const result = fitLearningCurve(
+      syntheticAttempts((n) => 200 * Math.pow(n + 4, -0.5)),
+      { models: LEARNING_CURVE_MODELS }
+    );
+    expect(result.bestModel).toBe('stanfordB');
+    expect(result.models.find((m) => m.model === 'stanfordB')!.parameters.B).toBeCloseTo(4, 1);
+  });
+
+  it('skips three-parameter models with too few points', () => {
+    const result = fitLearningCurve(syntheticAttempts((n) => 100 / n, 3), {
+      models: LEARNING_CURVE_MODELS,
+    });
+    expect(result.models.map((m) => m.model)).toEqual(['power']);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Round Summaries
 // ---------------------------------------------------------------------------
@@ -371,6 +648,8 @@ describe('analyzeSession', () => {
     expect(analysis.roundSummaries).toHaveLength(5);
     expect(analysis.taskDifficulties).toHaveLength(18);
     expect(analysis.overallStats.completedTasks).toBe(18);
+    expect(analysis.covariateModel).not.toBeNull();
+    expect(analysis.outliers).not.toBeNull();
   });
 
   it('returns null learning curve for empty session', () => {
@@ -378,6 +657,7 @@ describe('analyzeSession', () => {
     const analysis = analyzeSession(session);
 
     expect(analysis.learningCurve).toBeNull();
+    expect(analysis.covariateModel).toBeNull();
     expect(analysis.roundSummaries).toHaveLength(5);
     expect(analysis.taskDifficulties).toHaveLength(0);
   });
@@ -391,3 +671,52 @@ describe('analyzeSession', () => {
     expect(analysis.taskDifficulties).toHaveLength(9);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Cohort Analysis
+// ---------------------------------------------------------------------------
+
+describe('analyzeCohort', () => {
+  const cohort = analyzeCohort(createCohortSessions());
+
+  it('pools every student into one fit', () => {
+    expect(cohort.studentCount).toBe(4);
+    expect(cohort.pooled).not.toBeNull();
+    expect(cohort.pooled!.n).toBe(72);
+    expect(cohort.students).toHaveLength(4);
+  });
+
+  it('fits each expertise level separately', () => {
+    expect(cohort.byExpertise).toHaveLength(4);
+
+    const novices = cohort.byExpertise.find((g) => g.sqlExpertise === 0)!;
+    const experts = cohort.byExpertise.find((g) => g.sqlExpertise === 3)!;
+    expect(novices.studentCount).toBe(2);
+    expect(experts.studentCount).toBe(2);
+    expect(novices.fit!.exponent).toBeLessThan(experts.fit!.exponent);
+    expect(novices.sdStudentExponent).not.toBeNull();
+
+    // Levels with no students have no fit
+    expect(cohort.byExpertise.find((g) => g.sqlExpertise === 1)!.fit).toBeNull();
+  });
+
+  it('compares exponents between groups with Welch t', () => {
+    expect(cohort.exponentComparisons).toHaveLength(1);
+    const cmp = cohort.exponentComparisons[0];
+    expect(cmp.groupA).toBe(0);
+    expect(cmp.groupB).toBe(3);
+    expect(cmp.exponentDifference).toBeLessThan(0);
+    expect(cmp.tStatistic).toBeLessThan(0);
+    expect(cmp.degreesOfFreedom).toBeGreaterThan(0);
+    expect(cmp.pValue).toBeGreaterThan(0);
+    expect(cmp.pValue).toBeLessThan(0.05);
+  });
+
+  it('handles an empty cohort', () => {
+    const empty = analyzeCohort([createEmptySession()]);
+    expect(empty.studentCount).toBe(1);
+    expect(empty.pooled).toBeNull();
+    expect(empty.students).toHaveLength(0);
+    expect(empty.exponentComparisons).toHaveLength(0);
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExportPayload,
+  validateSchemaVersion,
+  sessionFromPayload,
+  gradeCohort,
+  buildRosterCsv,
+  buildReviewPairsCsv,
+  studentDetailFileName,
+} from '../cohort';
+import { exportToJson, exportToYaml, buildExportPayload } from '../dataLogger';
+import { analyzeSession } from '../analysis';
+import { gradeSession } from '../grading';
+import {
+  createCleanSession,
+  createRetrySession,
+  createPartialSession,
+  createIdleSession,
+  withIntegrityChain,
+} from './fixtures';
+
+// ---------------------------------------------------------------------------
+// Parsing and validation
+// ---------------------------------------------------------------------------
+
+describe('parseExportPayload', () => {
+  it('parses a JSON export', () => {
+    const payload = parseExportPayload(exportToJson(createCleanSession()), 'a.json');
+    expect(payload.student.studentName).toBe('Test Student');
+    expect(payload.observations).toHaveLength(18);
+  });
+
+  it('parses a YAML export by extension', () => {
+    const payload = parseExportPayload(exportToYaml(createCleanSession()), 'a.yaml');
+    expect(payload.observations).toHaveLength(18);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseExportPayload('{not json', 'bad.json')).toThrow(/Could not parse JSON/);
+  });
+
+  it('rejects exports without observations', () => {
+    const payload = buildExportPayload(createCleanSession(), 'json');
+    const broken = JSON.stringify({ ...payload, observations: undefined });
+    expect(() => parseExportPayload(broken, 'x.json')).toThrow(/observations/);
+  });
+
+  it('rejects malformed attempt rows', () => {
+    const payload = buildExportPayload(createRetrySession(), 'json');
+    payload.attempts[0] = { ...payload.attempts[0], is_correct: 'no' as unknown as boolean };
+    expect(() => parseExportPayload(JSON.stringify(payload), 'x.json')).toThrow(/Attempt 1/);
+  });
+
+  it('rejects observations with non-numeric time', () => {
+    const payload = buildExportPayload(createCleanSession(), 'json');
+    payload.observations[3] = { ...payload.observations[3], time_sec: 'fast' as unknown as number };
+    expect(() => parseExportPayload(JSON.stringify(payload), 'x.json')).toThrow(/time_sec/);
+  });
+});
+
+describe('validateSchemaVersion', () => {
+  it('accepts the current major version', () => {
+    expect(() => validateSchemaVersion('2.0.0')).not.toThrow();
+    expect(() => validateSchemaVersion('2.3.1')).not.toThrow();
+  });
+
+  it('rejects a different major version', () => {
+    expect(() => validateSchemaVersion('1.0.0')).toThrow(/Unsupported/);
+  });
+
+  it('rejects a missing version', () => {
+    expect(() => validateSchemaVersion(undefined)).toThrow(/schemaVersion/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Session reconstruction
+// ---------------------------------------------------------------------------
+
+describe('sessionFromPayload', () => {
+  it('reproduces the original grading for a clean session', () => {
+    const session = createCleanSession();
+    const original = gradeSession(analyzeSession(session));
+    const rebuilt = sessionFromPayload(buildExportPayload(session, 'json'));
+
+    expect(gradeSession(analyzeSession(rebuilt)).totalScore).toBe(original.totalScore);
+  });
+
+  it('keeps wall and active time apart', () => {
+    const rebuilt = sessionFromPayload(buildExportPayload(createIdleSession(), 'json', { timeBasis: 'active' }));
+    const task = rebuilt.attempts.find((a) => a.taskId === '3.2')!;
+    expect(task.timeSec).toBe(2400);
+    expect(task.activeTimeSec).toBeLessThan(100);
+  });
+
+  it('treats 2.0 exports without the split as wall time', () => {
+    const payload = buildExportPayload(createCleanSession(), 'json');
+    delete (payload as Partial<typeof payload>).attempts;
+    for (const o of payload.observations) {
+      delete (o as Partial<typeof o>).wall_time_sec;
+      delete (o as Partial<typeof o>).active_time_sec;
+    }
+    const rebuilt = sessionFromPayload(payload);
+    expect(rebuilt.attempts.every((a) => a.activeTimeSec === a.timeSec)).toBe(true);
+  });
+
+  it('restores failed attempts from the attempt table', () => {
+    const session = createRetrySession();
+    const rebuilt = sessionFromPayload(buildExportPayload(session, 'json'));
+    const failed = rebuilt.attempts.filter((a) => !a.isCorrect);
+
+    expect(failed).toHaveLength(session.attempts.filter((a) => !a.isCorrect).length);
+    expect(failed[0].submittedQuery).toBe('SELECT * FROM patients LIMIT 1;');
+    expect(failed[0].failureReason).toMatch(/Row count mismatch/);
+    expect(failed[0].timeSec).toBeGreaterThan(0);
+  });
+
+  it('falls back to placeholders for exports without attempts', () => {
+    const session = createRetrySession();
+    const payload = buildExportPayload(session, 'json');
+    delete (payload as Partial<typeof payload>).attempts;
+    const rebuilt = sessionFromPayload(payload);
+
+    expect(rebuilt.attempts).toHaveLength(session.attempts.length);
+    expect(rebuilt.attempts.filter((a) => !a.isCorrect).every((a) => a.timeSec === 0)).toBe(true);
+  });
+
+  it('restores attempt counts for a retry session', () => {
+    const session = createRetrySession();
+    const rebuilt = sessionFromPayload(buildExportPayload(session, 'json'));
+    const original = analyzeSession(session).overallStats;
+    const stats = analyzeSession(rebuilt).overallStats;
+
+    expect(rebuilt.attempts).toHaveLength(session.attempts.length);
+    expect(stats.totalAttempts).toBe(original.totalAttempts);
+    expect(stats.firstTrySuccessRate).toBe(original.firstTrySuccessRate);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Cohort grading
+// ---------------------------------------------------------------------------
+
+describe('gradeCohort', () => {
+  const files = [
+    { source: 'sql-time-study-Test_Student-2026-02-01.json', content: exportToJson(createCleanSession()) },
+    { source: 'sql-time-study-Retry_Student-2026-02-01.yaml', content: exportToYaml(createRetrySession()) },
+    { source: 'partial.json', content: exportToJson(createPartialSession()) },
+    { source: 'old.json', content: JSON.stringify({ metadata: { schemaVersion: '1.0.0' } }) },
+  ];
+  const result = gradeCohort(files);
+
+  it('grades every valid export and collects the rest as errors', () => {
+    expect(result.students).toHaveLength(3);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].source).toBe('old.json');
+  });
+
+  it('re-grades instead of trusting the embedded grading', () => {
+    const tampered = buildExportPayload(createPartialSession(), 'json');
+    tampered.grading.totalScore = 100;
+    const { students } = gradeCohort([{ source: 't.json', content: JSON.stringify(tampered) }]);
+    expect(students[0].grading.totalScore).toBeLessThan(100);
+  });
+
+  it('builds a roster with one row per file', () => {
+    const lines = buildRosterCsv(result).split('\n');
+    expect(lines[0]).toContain('total_score');
+    expect(lines).toHaveLength(1 + files.length);
+    expect(lines[lines.length - 1]).toContain('error: Unsupported schemaVersion');
+  });
+
+  it('includes the pooled cohort analysis', () => {
+    expect(result.cohortAnalysis.studentCount).toBe(3);
+    expect(result.cohortAnalysis.pooled!.n).toBe(18 + 18 + 9);
+  });
+
+  it('can grade on active time', () => {
+    const idle = [{ source: 'idle.json', content: exportToJson(createIdleSession()) }];
+    const wall = gradeCohort(idle).students[0].analysis;
+    const active = gradeCohort(idle, {}, { timeBasis: 'active' }).students[0].analysis;
+
+    expect(wall.outliers!.outlierTaskIds).toEqual(['3.2']);
+    expect(active.timeBasis).toBe('active');
+    expect(active.outliers!.outlierTaskIds).toEqual([]);
+  });
+
+  it('compares accepted queries across students', () => {
+    // Clean and retry fixtures submit the reference queries verbatim. While all
+    // three students share them that is the common answer; once the partial
+    // student drops out, two identical submissions stand out.
+    const [pair] = result.similarity.reviewPairs;
+    expect(result.similarity.tasks).toHaveLength(18);
+    expect(result.similarity.reviewPairs).toHaveLength(1);
+    expect(pair.taskIds).not.toContain('1.1');
+    expect(pair.evidence).toContain('identical_text');
+    expect(buildReviewPairsCsv(result.similarity).split('\n')[1]).toContain('Retry Student');
+  });
+
+  it('derives detail file names from the source file', () => {
+    expect(studentDetailFileName(result.students[0])).toMatch(/\.detail\.json$/);
+    expect(new Set(result.students.map(studentDetailFileName)).size).toBe(3);
+  });
+});
+
+describe('gradeCohort integrity', () => {
+  const session = withIntegrityChain(createRetrySession());
+
+  it('verifies untouched JSON and YAML exports', () => {
+    const { students } = gradeCohort([
+      { source: 'r.json', content: exportToJson(session) },
+      { source: 'r.yaml', content: exportToYaml(session) },
+    ]);
+    expect(students.map((s) => s.integrity.status)).toEqual(['verified', 'verified']);
+    expect(students[0].grading.flags.some((f) => f.code.startsWith('INTEGRITY'))).toBe(false);
+  });
+
+  it('flags an edited observation as critical', () => {
+    const payload = buildExportPayload(session, 'json');
+    payload.observations[0].time_sec = 999;
+    const { students } = gradeCohort([{ source: 'e.json', content: JSON.stringify(payload) }]);
+    const flag = students[0].grading.flags.find((f) => f.code === 'INTEGRITY_MISMATCH');
+
+    expect(flag?.severity).toBe('critical');
+    expect(students[0].grading.summary).toContain('REVIEW NEEDED');
+    expect(buildRosterCsv({ ...gradeCohort([]), students }).split('\n')[1]).toContain(',tampered,ok');
+  });
+
+  /** A current export rewritten as schema 2.2 wrote it: no fields from 2.3 on. */
+  function asSchema22(payload: ReturnType<typeof buildExportPayload>): unknown {
+    const without = (row: object, ...fields: string[]) =>
+      Object.fromEntries(Object.entries(row).filter(([name]) => !fields.includes(name)));
+    return {
+      ...payload,
+      metadata: { ...without(payload.metadata, 'seedConfig', 'seedConfigHash'), schemaVersion: '2.2.0' },
+      integrity: undefined,
+      observations: payload.observations.map((row) => without(row, 'plan_full_scans', 'plan_indexes')),
+      attempts: payload.attempts.map((row) => without(row, 'outcome', 'plan_full_scans', 'plan_indexes')),
+    };
+  }
+
+  it('only warns for exports from before schema 2.3 without a chain', () => {
+    const payload = asSchema22(buildExportPayload(createCleanSession(), 'json'));
+    const { students } = gradeCohort([{ source: 'c.json', content: JSON.stringify(payload) }]);
+    const flag = students[0].grading.flags.find((f) => f.code === 'INTEGRITY_UNVERIFIED');
+    expect(flag?.severity).toBe('warning');
+  });
+
+  it('does not trust a downgraded schemaVersion on a current export', () => {
+    const payload = buildExportPayload(session, 'json');
+    payload.observations[0].time_sec = 999;
+    payload.metadata.schemaVersion = '2.2.0';
+    delete (payload as Partial<typeof payload>).integrity;
+    const { students } = gradeCohort([{ source: 'd.json', content: JSON.stringify(payload) }]);
+    const flag = students[0].grading.flags.find((f) => f.code === 'INTEGRITY_MISSING');
+
+    expect(flag?.severity).toBe('critical');
+    expect(students[0].grading.summary).toContain('REVIEW NEEDED');
+  });
+
+  it('flags a current export with the integrity block stripped as critical', () => {
+    const payload = buildExportPayload(session, 'json');
+    payload.observations[0].time_sec = 999;
+    delete (payload as Partial<typeof payload>).integrity;
+    const { students } = gradeCohort([{ source: 's.json', content: JSON.stringify(payload) }]);
+    const flag = students[0].grading.flags.find((f) => f.code === 'INTEGRITY_MISSING');
+
+    expect(flag?.severity).toBe('critical');
+    expect(students[0].grading.summary).toContain('REVIEW NEEDED');
+  });
+
+  it('flags a current export with no chained attempts as critical', () => {
+    const { students } = gradeCohort([{ source: 'c.json', content: exportToJson(createCleanSession()) }]);
+    const flag = students[0].grading.flags.find((f) => f.code === 'INTEGRITY_MISSING');
+    expect(flag?.severity).toBe('critical');
+  });
+});
@@ -4,15 +4,21 @@ import {
   exportToCsv,
   exportToJson,
   exportToYaml,
+  exportAttemptsToCsv,
   prepareFinalObservations,
+  prepareAttemptRows,
   buildExportPayload,
+  logAttempt,
+  startSession,
 } from '../dataLogger';
 import {
   createCleanSession,
   createRetrySession,
   createPartialSession,
   createEmptySession,
+  createIdleSession,
 } from './fixtures';
+import { DEFAULT_SEED_CONFIG, resolveSeedConfig, seedConfigHash, studentSeed } from '@/data/seed';
 
 // ---------------------------------------------------------------------------
 // prepareFinalObservations
@@ -94,6 +100,124 @@ describe('prepareFinalObservations', () => {
 // CSV Export
 // ---------------------------------------------------------------------------
 
+// ---------------------------------------------------------------------------
+// Attempt-level table
+// ---------------------------------------------------------------------------
+
+describe('prepareAttemptRows', () => {
+  it('keeps every attempt, including wrong ones', () => {
+    const session = createRetrySession();
+    const rows = prepareAttemptRows(session);
+
+    expect(rows).toHaveLength(session.attempts.length);
+    expect(rows.filter((r) => !r.is_correct).length).toBeGreaterThan(0);
+  });
+
+  it('carries the failure reason only on wrong attempts', () => {
+    const rows = prepareAttemptRows(createRetrySession());
+    expect(rows.filter((r) => !r.is_correct).every((r) => r.failure_reason?.includes('Row count'))).toBe(true);
+    expect(rows.filter((r) => r.is_correct).every((r) => r.failure_reason === null)).toBe(true);
+  });
+
+  it('measures time since the previous attempt on the same task', () => {
+    const rows = prepareAttemptRows(createRetrySession()).filter((r) => r.task_id === '1.1');
+    expect(rows[0].time_since_previous_sec).toBe(rows[0].time_sec);
+    expect(rows[1].time_since_previous_sec).toBeCloseTo(rows[1].time_sec - rows[0].time_sec, 2);
+  });
+
+  it('flattens the logged query plan', () => {
+    const session = logAttempt(createEmptySession(), '1.1', 1, 'SELECT 1;', 12, 1, true, 12, undefined, {
+      fullScans: ['m', 'labs'],
+      indexes: ['PRIMARY KEY'],
+      tempBTrees: 1,
+    });
+    const [row] = prepareAttemptRows(session);
+    expect(row.plan_full_scans).toBe('m;labs');
+    expect(row.plan_indexes).toBe('PRIMARY KEY');
+    expect(prepareAttemptRows(createRetrySession())[0].plan_full_scans).toBeNull();
+  });
+
+  it('records the outcome, deriving it for older attempts', () => {
+    const session = logAttempt(
+      createEmptySession(), '5.1', 1, 'SELECT 22.8;', 12, 1, false, 12,
+      'Right result, wrong technique.', undefined, 'wrong_technique'
+    );
+    expect(prepareAttemptRows(session)[0].outcome).toBe('wrong_technique');
+
+    // Fixture attempts carry no outcome, like sessions logged before 2.6
+    const legacy = createRetrySession();
+    expect(prepareAttemptRows(legacy).map((r) => r.outcome)).toEqual(
+      legacy.attempts.map((a) => (a.isCorrect ? 'correct' : 'incorrect'))
+    );
+  });
+
+  it('is included in the JSON payload', () => {
+    const payload = buildExportPayload(createRetrySession(), 'json');
+    expect(payload.attempts).toHaveLength(createRetrySession().attempts.length);
+  });
+});
+
+describe('exportAttemptsToCsv', () => {
+  it('writes one row per attempt', () => {
+    const session = createRetrySession();
+    const lines = exportAttemptsToCsv(session).split('\n');
+
+    expect(lines[0]).toContain('attempt_num');
+    expect(lines[0]).toContain('failure_reason');
+    expect(lines).toHaveLength(session.attempts.length + 1);
+  });
+
+  it('returns empty string for empty session', () => {
+    expect(exportAttemptsToCsv(createEmptySession())).toBe('');
+  });
+});
+
+describe('logAttempt', () => {
+  it('records the failure reason for wrong answers only', () => {
+    const session = createEmptySession();
+    const wrong = logAttempt(session, '1.1', 1, 'SELECT 1;', 12, 1, false, 12, 'Column count mismatch');
+    const right = logAttempt(wrong, '1.1', 1, 'SELECT 2;', 30, 2, true, 30, 'ignored');
+
+    expect(right.attempts[0].failureReason).toBe('Column count mismatch');
+    expect(right.attempts[1].failureReason).toBeUndefined();
+  });
+});
+
+describe('startSession', () => {
+  it('seeds the dataset from the student name', () => {
+    const a = startSession({ studentName: 'Ada Lovelace', sqlExpertise: 1 });
+    const b = startSession({ studentName: 'Grace Hopper', sqlExpertise: 1 });
+
+    expect(a.seedConfig?.seed).toBe(studentSeed('Ada Lovelace'));
+    expect(a.seedConfig?.seed).not.toBe(b.seedConfig?.seed);
+    expect(buildExportPayload(a, 'json').metadata.seedConfig.seed).toBe(a.seedConfig?.seed);
+  });
+});
+
+describe('time basis', () => {
+  it('reports both clocks and uses wall time by default', () => {
+    const obs = prepareFinalObservations(createIdleSession()).find((o) => o.task_id === '3.2')!;
+    expect(obs.wall_time_sec).toBe(2400);
+    expect(obs.active_time_sec).toBeLessThan(100);
+    expect(obs.time_sec).toBe(obs.wall_time_sec);
+  });
+
+  it('switches time_sec and the analysis to active time on request', () => {
+    const payload = buildExportPayload(createIdleSession(), 'json', { timeBasis: 'active' });
+    const obs = payload.observations.find((o) => o.task_id === '3.2')!;
+
+    expect(payload.metadata.timeBasis).toBe('active');
+    expect(obs.time_sec).toBe(obs.active_time_sec);
+    expect(payload.analysis.timeBasis).toBe('active');
+    expect(payload.analysis.outliers!.outlierTaskIds).toEqual([]);
+  });
+
+  it('falls back to wall time for attempts recorded without active time', () => {
+    const obs = prepareFinalObservations(createCleanSession(), 'active');
+    expect(obs.every((o) => o.active_time_sec === o.wall_time_sec)).toBe(true);
+  });
+});
+
 describe('exportToCsv', () => {
   it('produces valid CSV with headers', () => {
     const session = createCleanSession();
@@ -127,9 +251,9 @@ describe('exportToCsv', () => {
     // No comma in that one, but some JOINs have commas in SELECT
     // Verify no broken rows (each data row should parse to 10 fields when properly handled)
     const lines = csv.split('\n');
-    // Header should have exactly 10 columns
+    // Header should have exactly 12 columns
     const headerFields = lines[0].split(',');
-    expect(headerFields).toHaveLength(10);
+    expect(headerFields).toHaveLength(12);
   });
 
   it('returns empty string for empty session', () => {
@@ -178,7 +302,7 @@ describe('exportToJson', () => {
     const session = createCleanSession();
     const parsed = JSON.parse(exportToJson(session));
 
-    expect(parsed.metadata.schemaVersion).toBe('2.0.0');
+    expect(parsed.metadata.schemaVersion).toBe('2.6.0');
     expect(parsed.metadata.exportFormat).toBe('json');
     expect(parsed.metadata.exportedAt).toBeTruthy();
     expect(parsed.metadata.description).toContain('EIND 313');
@@ -267,7 +391,7 @@ describe('exportToYaml', () => {
     const parsed = yaml.load(exportToYaml(session)) as Record<string, Record<string, string>>;
 
     expect(parsed.metadata.exportFormat).toBe('yaml');
-    expect(parsed.metadata.schemaVersion).toBe('2.0.0');
+    expect(parsed.metadata.schemaVersion).toBe('2.6.0');
   });
 
   it('round-trips cleanly: YAML -> parse -> matches JSON payload', () => {
@@ -320,6 +444,19 @@ describe('buildExportPayload', () => {
     expect(payload.grading.totalScore).toBeGreaterThan(0);
     expect(payload.grading.criteria).toHaveLength(5);
   });
+
+  it('records the seed config and its hash', () => {
+    const seedConfig = resolveSeedConfig({ seed: 7 });
+    const payload = buildExportPayload({ ...createCleanSession(), seedConfig }, 'json');
+
+    expect(payload.metadata.seedConfig).toEqual(seedConfig);
+    expect(payload.metadata.seedConfigHash).toBe(seedConfigHash(seedConfig));
+  });
+
+  it('falls back to the default seed config for older sessions', () => {
+    const payload = buildExportPayload(createCleanSession(), 'json');
+    expect(payload.metadata.seedConfigHash).toBe(seedConfigHash(DEFAULT_SEED_CONFIG));
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { databaseCacheKey, loadCachedDatabase, saveCachedDatabase } from '../databaseCache';
+import { SCHEMA_SQL } from '@/data/schema';
+import { DEFAULT_SEED_CONFIG, resolveSeedConfig } from '@/data/seed';
+
+describe('databaseCacheKey', () => {
+  it('is stable for the same schema and config', () => {
+    expect(databaseCacheKey(SCHEMA_SQL, DEFAULT_SEED_CONFIG)).toBe(databaseCacheKey(SCHEMA_SQL, resolveSeedConfig()));
+  });
+
+  it('changes when the schema changes', () => {
+    const key = databaseCacheKey(SCHEMA_SQL, DEFAULT_SEED_CONFIG);
+    expect(databaseCacheKey(SCHEMA_SQL + '\nCREATE INDEX x ON labs(test_name);', DEFAULT_SEED_CONFIG)).not.toBe(key);
+  });
+
+  it('changes when the seed config changes', () => {
+    const key = databaseCacheKey(SCHEMA_SQL, DEFAULT_SEED_CONFIG);
+    expect(databaseCacheKey(SCHEMA_SQL, resolveSeedConfig({ seed: 7 }))).not.toBe(key);
+  });
+});
+
+describe('without IndexedDB', () => {
+  it('misses on load and ignores saves', async () => {
+    await expect(saveCachedDatabase('k', new Uint8Array([1, 2, 3]))).resolves.toBeUndefined();
+    await expect(loadCachedDatabase('k')).resolves.toBeNull();
+  });
+});
+
+describe('with a broken IndexedDB', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** indexedDB whose open() succeeds with `db`. */
+  function stubIndexedDb(db: Partial<IDBDatabase>) {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        const request = { result: db } as unknown as IDBOpenDBRequest;
+        setTimeout(() => request.onsuccess?.call(request, new Event('success')));
+        return request;
+      },
+    });
+  }
+
+  it('misses when a transaction cannot start', async () => {
+    const close = vi.fn();
+    stubIndexedDb({
+      transaction: () => {
+        throw new DOMException('No such object store', 'NotFoundError');
+      },
+      close,
+    });
+    await expect(loadCachedDatabase('k')).resolves.toBeNull();
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('misses when opening throws', async () => {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        throw new DOMException('Storage disabled', 'SecurityError');
+      },
+    });
+    await expect(loadCachedDatabase('k')).resolves.toBeNull();
+    await expect(saveCachedDatabase('k', new Uint8Array([1]))).resolves.toBeUndefined();
+  });
+});
@@ -17,6 +17,7 @@
  */
 
 import type { StudySession, TaskAttempt, StudentInfo } from '@/types';
+import { chainAttempt, chainGenesis } from '../integrity';
 
 // ---------------------------------------------------------------------------
 // Seeded PRNG (same as the app's seed.ts uses)
@@ -37,7 +38,7 @@ function seededRandom(seed: number): () => number {
 const REFERENCE_QUERIES: Record<string, string> = {
   '1.1': "SELECT * FROM patients WHERE last_name = 'Martinez';",
   '1.2': "SELECT * FROM patients WHERE unit = 'Cardiac B' AND discharge_date IS NULL;",
-  '1.3': "SELECT * FROM medications WHERE patient_id = 247 AND scheduled_time >= date('now', '-7 days') ORDER BY scheduled_time;",
+  '1.3': "SELECT * FROM medications WHERE patient_id = 247 AND scheduled_time >= datetime(clinical_now(), '-7 days') ORDER BY scheduled_time;",
   '2.1': 'SELECT e.*, p.name as provider_name FROM encounters e JOIN providers p ON e.provider_id = p.provider_id WHERE e.patient_id = 247;',
   '2.2': 'SELECT m.*, n.name as nurse_name FROM medications m JOIN nurses n ON m.administering_nurse_id = n.nurse_id WHERE m.patient_id = 247;',
   '2.3': 'SELECT d.*, e.encounter_date FROM diagnoses d JOIN encounters e ON d.encounter_id = e.encounter_id WHERE e.patient_id = 247;',
@@ -82,16 +83,37 @@ const TASK_STRUCTURE: { round: number; queries: number[] }[] = [
  * All 18 tasks are completed on the first try (no retries).
  */
 export function createCleanSession(): StudySession {
-  const rng = seededRandom(42);
-
-  const studentInfo: StudentInfo = {
+  return createPowerLawSession({
     studentName: 'Test Student',
     sqlExpertise: 2,
-  };
+    seed: 42,
+    T1: 120,
+    b: -0.322,
+    noiseSigma: 5,
+  });
+}
 
-  const T1 = 120; // seconds for first task
-  const b = -0.322; // learning exponent
-  const noiseSigma = 5; // seconds
+export interface PowerLawSessionOptions {
+  studentName: string;
+  sqlExpertise: StudentInfo['sqlExpertise'];
+  seed: number;
+  /** Seconds for the first task. */
+  T1: number;
+  /** Learning exponent. */
+  b: number;
+  /** Gaussian noise sigma in seconds. */
+  noiseSigma: number;
+}
+
+/**
+ * Complete, first-try-only session following T_n = T1 * n^b plus seeded noise.
+ * Used to build cohorts of students with different learning exponents.
+ */
+export function createPowerLawSession(options: PowerLawSessionOptions): StudySession {
+  const { studentName, sqlExpertise, seed, T1, b, noiseSigma } = options;
+  const rng = seededRandom(seed);
+
+  const studentInfo: StudentInfo = { studentName, sqlExpertise };
 
   const attempts: TaskAttempt[] = [];
   let querySequence = 0;
@@ -137,6 +159,19 @@ export function createCleanSession(): StudySession {
   };
 }
 
+/**
+ * Create a small class: two novices (expertise 0) with steep curves and two
+ * advanced students (expertise 3) with flat curves.
+ */
+export function createCohortSessions(): StudySession[] {
+  return [
+    createPowerLawSession({ studentName: 'Novice A', sqlExpertise: 0, seed: 7, T1: 200, b: -0.5, noiseSigma: 5 }),
+    createPowerLawSession({ studentName: 'Novice B', sqlExpertise: 0, seed: 8, T1: 180, b: -0.45, noiseSigma: 5 }),
+    createPowerLawSession({ studentName: 'Expert A', sqlExpertise: 3, seed: 9, T1: 60, b: -0.1, noiseSigma: 2 }),
+    createPowerLawSession({ studentName: 'Expert B', sqlExpertise: 3, seed: 10, T1: 70, b: -0.15, noiseSigma: 2 }),
+  ];
+}
+
 /**
  * Create a session with retries on some tasks.
  * Tasks 1.1, 2.1, 3.1, 4.1, and 5.1 each get 1-2 wrong attempts before succeeding.
@@ -186,6 +221,7 @@ export function createRetrySession(): StudySession {
             submittedQuery: 'SELECT * FROM patients LIMIT 1;',
             completedAt: new Date(baseTime + cumulativeMs).toISOString(),
             isCorrect: false,
+            failureReason: 'Row count mismatch: got 1, expected 12',
           });
         }
       }
@@ -238,6 +274,39 @@ export function createPartialSession(): StudySession {
   };
 }
 
+/**
+ * Clean session where the student left for lunch during task 3.2:
+ * one 40-minute wall-clock observation in an otherwise smooth power-law
+ * curve. Active-time tracking caught the absence, so activeTimeSec keeps the
+ * original time.
+ */
+export function createIdleSession(): StudySession {
+  const clean = createCleanSession();
+  return {
+    ...clean,
+    attempts: clean.attempts.map((a) =>
+      a.taskId === '3.2'
+        ? { ...a, timeSec: 2400, wallTimeSec: 2400, activeTimeSec: a.timeSec }
+        : a
+    ),
+  };
+}
+
+/**
+ * Same session with the attempt hash chain filled in, as logAttempt would
+ * have built it. Fixtures above construct attempts directly and have none.
+ */
+export function withIntegrityChain(session: StudySession): StudySession {
+  let previous = chainGenesis(session.studentInfo!);
+  return {
+    ...session,
+    attempts: session.attempts.map((a) => {
+      previous = chainAttempt(previous, a);
+      return { ...a, chainHash: previous };
+    }),
+  };
+}
+
 /**
  * Create an empty session (no attempts).
  */
@@ -204,6 +204,8 @@ describe('generate artifacts', () => {
           learningCurve: analysis.learningCurve
             ? {
                 exponent: analysis.learningCurve.exponent,
+                exponentCI95: analysis.learningCurve.exponentCI95,
+                exponentPValue: analysis.learningCurve.exponentPValue,
                 learningRate: analysis.learningCurve.learningRate,
                 rSquared: analysis.learningCurve.rSquared,
                 predictedFirstTaskTime: analysis.learningCurve.predictedFirstTaskTime,
@@ -6,6 +6,7 @@ import {
   createRetrySession,
   createPartialSession,
   createEmptySession,
+  createIdleSession,
   CLEAN_SESSION_EXPECTED,
 } from './fixtures';
 
@@ -123,6 +124,35 @@ describe('gradeSession - partial session', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Idle session: one 40-minute task
+// ---------------------------------------------------------------------------
+
+describe('gradeSession - idle session', () => {
+  const analysis = analyzeSession(createIdleSession());
+
+  it('flags the idle task as a slow outlier', () => {
+    const flag = gradeSession(analysis).flags.find((f) => f.code === 'SLOW_OUTLIER_TASKS');
+    expect(flag?.severity).toBe('warning');
+    expect(flag?.message).toContain('3.2');
+  });
+
+  it('reports both fits and can grade on the refit', () => {
+    expect(analysis.learningCurve!.n).toBe(18);
+    expect(analysis.outliers!.refit!.n).toBe(17);
+
+    const lcScore = (excludeOutliers: boolean) =>
+      gradeSession(analysis, { excludeOutliers }).criteria.find((c) => c.name === 'Learning Curve')!;
+    expect(lcScore(true).rawScore).toBeGreaterThan(lcScore(false).rawScore);
+    expect(lcScore(true).rationale).toContain('Outlier tasks excluded (3.2)');
+  });
+
+  it('does not flag the clean session', () => {
+    const flags = gradeSession(analyzeSession(createCleanSession())).flags;
+    expect(flags.some((f) => f.code.endsWith('OUTLIER_TASKS'))).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Empty session: should fail gracefully
 // ---------------------------------------------------------------------------
@@ -184,6 +214,85 @@ describe('gradeSession - custom config', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Learning curve significance
+// ---------------------------------------------------------------------------
+
+describe('gradeSession - slope significance', () => {
+  const analysis = analyzeSession(createCleanSession());
+
+  it('reports the p-value and CI in the rationale', () => {
+    const lc = gradeSession(analysis).criteria.find((c) => c.name === 'Learning Curve');
+    expect(lc?.rationale).toContain('95% CI');
+    expect(lc?.rationale).toContain('p = <0.001');
+  });
+
+  it('caps the fit score when the slope is not significant', () => {
+    const notSignificant = {
+      ...analysis,
+      learningCurve: { ...analysis.learningCurve!, exponentPValue: 0.2 },
+    };
+    const result = gradeSession(notSignificant);
+    const baseline = gradeSession(analysis);
+
+    const lc = result.criteria.find((c) => c.name === 'Learning Curve')!;
+    const baseLc = baseline.criteria.find((c) => c.name === 'Learning Curve')!;
+    expect(lc.rawScore).toBeLessThan(baseLc.rawScore);
+    expect(result.flags.some((f) => f.code === 'NOT_SIGNIFICANT')).toBe(true);
+  });
+
+  it('credits a significant slope despite a modest R²', () => {
+    const withP = (exponentPValue: number) => ({
+      ...analysis,
+      learningCurve: { ...analysis.learningCurve!, rSquared: 0.2, exponentPValue },
+    });
+    const significant = gradeSession(withP(0.01)).criteria.find((c) => c.name === 'Learning Curve')!;
+    const notSignificant = gradeSession(withP(0.3)).criteria.find((c) => c.name === 'Learning Curve')!;
+
+    // Fit component: 60 (significant floor) vs the raw R² score of 9, at 40% weight
+    expect(significant.rawScore - notSignificant.rawScore).toBeGreaterThanOrEqual(20);
+  });
+
+  it('respects a custom significance level', () => {
+    const borderline = {
+      ...analysis,
+      learningCurve: { ...analysis.learningCurve!, exponentPValue: 0.08 },
+    };
+    expect(gradeSession(borderline).flags.some((f) => f.code === 'NOT_SIGNIFICANT')).toBe(true);
+    expect(
+      gradeSession(borderline, { significanceLevel: 0.1 }).flags.some((f) => f.code === 'NOT_SIGNIFICANT')
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Learning curve model comparison
+// ---------------------------------------------------------------------------
+
+describe('gradeSession - model comparison', () => {
+  it('reports the best-fitting model in the rationale', () => {
+    const result = gradeSession(analyzeSession(createCleanSession()));
+    const lc = result.criteria.find((c) => c.name === 'Learning Curve');
+    expect(lc?.rationale).toContain('Best-fitting model');
+  });
+
+  it('flags when an alternative model clearly beats the power law', () => {
+    const analysis = analyzeSession(createCleanSession());
+    const lc = analysis.learningCurve!;
+    const patched = {
+      ...analysis,
+      learningCurve: {
+        ...lc,
+        bestModel: 'deJong' as const,
+        models: lc.models.map((m) => (m.model === 'deJong' ? { ...m, aic: m.aic - 50 } : m)),
+      },
+    };
+
+    const result = gradeSession(patched);
+    expect(result.flags.some((f) => f.code === 'ALTERNATIVE_MODEL_PREFERRED')).toBe(true);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Edge cases
 // ---------------------------------------------------------------------------
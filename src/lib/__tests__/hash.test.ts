@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { sha256Hex, hmacSha256Hex, canonicalJson } from '../hash';
+
+describe('sha256Hex / hmacSha256Hex', () => {
+  it('matches the FIPS 180-4 test vectors', () => {
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('matches RFC 4231 test case 2', () => {
+    expect(hmacSha256Hex('Jefe', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts keys and drops undefined', () => {
+    expect(canonicalJson({ b: 1, a: [true, null], c: undefined })).toBe('{"a":[true,null],"b":1}');
+  });
+
+  it('writes non-finite numbers as null', () => {
+    expect(canonicalJson([Infinity, NaN, 1.5])).toBe('[null,null,1.5]');
+  });
+});
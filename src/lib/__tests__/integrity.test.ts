@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { signPayload, verifyExportIntegrity } from '../integrity';
+import { buildExportPayload, logAttempt } from '../dataLogger';
+import { createCleanSession, createEmptySession, createRetrySession, withIntegrityChain } from './fixtures';
+import type { ExportPayload } from '../dataLogger';
+
+/** Export round-tripped through JSON, the way the grader reads it. */
+function exportOf(session = withIntegrityChain(createRetrySession())): ExportPayload {
+  return JSON.parse(JSON.stringify(buildExportPayload(session, 'json')));
+}
+
+// ---------------------------------------------------------------------------
+// Hash chain
+// ---------------------------------------------------------------------------
+
+describe('logAttempt chain', () => {
+  it('links each attempt to the one before it', () => {
+    let session = createEmptySession();
+    session = logAttempt(session, '1.1', 1, 'SELECT 1;', 12, 1, false, 12, 'Column count mismatch');
+    session = logAttempt(session, '1.1', 1, 'SELECT 2;', 30, 2, true);
+
+    const [first, second] = session.attempts;
+    expect(first.chainHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.chainHash).not.toBe(first.chainHash);
+    expect(verifyExportIntegrity(exportOf(session)).status).toBe('verified');
+  });
+
+  it('does not restart from genesis after a chained attempt', () => {
+    const session = withIntegrityChain(createRetrySession());
+    const attempts = session.attempts.map((a, i) =>
+      i === session.attempts.length - 1 ? { ...a, chainHash: undefined } : a
+    );
+    const next = logAttempt({ ...session, attempts }, '5.4', 18, 'SELECT 1;', 40, 2, false, 40);
+
+    expect(next.attempts[next.attempts.length - 1].chainHash).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+describe('verifyExportIntegrity', () => {
+  it('verifies an untouched export', () => {
+    expect(verifyExportIntegrity(exportOf())).toEqual({ status: 'verified', problems: [] });
+  });
+
+  it('detects an edited observation in the file', () => {
+    const payload = exportOf();
+    payload.observations[4].time_sec = 5;
+
+    const check = verifyExportIntegrity(payload);
+    expect(check.status).toBe('tampered');
+    expect(check.problems[0]).toMatch(/MAC mismatch/);
+  });
+
+  it('detects attempts reordered in localStorage before export', () => {
+    const session = withIntegrityChain(createRetrySession());
+    const attempts = [...session.attempts];
+    [attempts[2], attempts[3]] = [attempts[3], attempts[2]];
+
+    // Re-exporting re-signs the file, so only the chain can catch this
+    const check = verifyExportIntegrity(exportOf({ ...session, attempts }));
+    expect(check.status).toBe('tampered');
+    expect(check.problems.some((p) => /Attempt 3 .*reordered/.test(p))).toBe(true);
+  });
+
+  it('detects a time edited in localStorage before export', () => {
+    const session = withIntegrityChain(createCleanSession());
+    const attempts = session.attempts.map((a, i) => (i === 0 ? { ...a, timeSec: 20 } : a));
+
+    const check = verifyExportIntegrity(exportOf({ ...session, attempts }));
+    expect(check.status).toBe('tampered');
+    expect(check.problems).toHaveLength(1);
+  });
+
+  it('detects a removed attempt even when the MAC is recomputed', () => {
+    const payload = exportOf();
+    payload.attempts.splice(1, 1);
+    payload.integrity.attemptChain.splice(1, 1);
+    payload.integrity.payloadMac = signPayload(payload);
+
+    expect(verifyExportIntegrity(payload).status).toBe('tampered');
+  });
+
+  it('detects trailing attempts edited in localStorage with their links deleted', () => {
+    const session = withIntegrityChain(createRetrySession());
+    const edited = session.attempts.length - 2;
+    const attempts = session.attempts.map((a, i) =>
+      i >= edited ? { ...a, timeSec: a.timeSec / 2, chainHash: undefined } : a
+    );
+
+    // Later attempts are logged and the file re-signed on download
+    const next = logAttempt({ ...session, attempts }, '5.4', 18, 'SELECT 1;', 40, 2, false, 40);
+
+    const check = verifyExportIntegrity(exportOf(next));
+    expect(check.status).toBe('tampered');
+    expect(check.problems).toHaveLength(3);
+    expect(check.problems[0]).toMatch(new RegExp(`Attempt ${edited + 1} .*no chain link`));
+  });
+
+  it('accepts unchained attempts only before the first chained one', () => {
+    const session = withIntegrityChain(createRetrySession());
+    // A session that started before chaining: its first attempts have no link
+    const attempts = session.attempts.map((a, i) => (i < 2 ? { ...a, chainHash: undefined } : a));
+    const relinked = withIntegrityChain({ ...session, attempts: attempts.slice(2) }).attempts;
+
+    const check = verifyExportIntegrity(exportOf({ ...session, attempts: [...attempts.slice(0, 2), ...relinked] }));
+    expect(check.status).toBe('partial');
+  });
+
+  it('rejects exports signed with a different key', () => {
+    expect(verifyExportIntegrity(exportOf(), 'another-key').status).toBe('tampered');
+  });
+
+  it('reports exports without an integrity block as missing', () => {
+    const payload = exportOf() as Partial<ExportPayload>;
+    delete payload.integrity;
+    expect(verifyExportIntegrity(payload as ExportPayload).status).toBe('missing');
+  });
+
+  it('reports sessions logged before chaining as missing', () => {
+    expect(verifyExportIntegrity(exportOf(createCleanSession())).status).toBe('missing');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { buildQueryPlan, explainSql, summarizePlan } from '../queryPlan';
+import type { QueryResult } from '@/types';
+
+/** EXPLAIN QUERY PLAN rows as sql.js returns them. */
+function planResult(rows: [number, number, string][]): QueryResult {
+  return {
+    columns: ['id', 'parent', 'notused', 'detail'],
+    values: rows.map(([id, parent, detail]) => [id, parent, 0, detail]),
+  };
+}
+
+describe('explainSql', () => {
+  it('explains only the first statement', () => {
+    expect(explainSql('SELECT 1; SELECT 2;')).toBe('EXPLAIN QUERY PLAN SELECT 1');
+  });
+
+  it('ignores semicolons inside strings', () => {
+    expect(explainSql("SELECT * FROM patients WHERE last_name = 'a;b';")).toBe(
+      "EXPLAIN QUERY PLAN SELECT * FROM patients WHERE last_name = 'a;b'"
+    );
+  });
+
+  it('does not double up an existing EXPLAIN', () => {
+    expect(explainSql('explain query plan SELECT 1')).toBe('EXPLAIN QUERY PLAN SELECT 1');
+    expect(explainSql('EXPLAIN SELECT 1')).toBe('EXPLAIN QUERY PLAN SELECT 1');
+  });
+});
+
+describe('buildQueryPlan', () => {
+  it('classifies scans, index use and temp B-trees', () => {
+    const plan = buildQueryPlan(planResult([
+      [9, 0, 'SCAN m'],
+      [11, 0, 'SEARCH n USING INTEGER PRIMARY KEY (rowid=?)'],
+      [14, 0, 'USE TEMP B-TREE FOR GROUP BY'],
+      [20, 0, 'SEARCH p USING COVERING INDEX idx_patients_unit (unit=?)'],
+    ]));
+
+    expect(plan.roots.map((n) => n.kind)).toEqual(['scan', 'index', 'temp', 'index']);
+    expect(plan.fullScans).toEqual(['m']);
+    expect(plan.indexes).toEqual(['PRIMARY KEY', 'idx_patients_unit']);
+    expect(plan.tempBTrees).toBe(1);
+  });
+
+  it('nests subquery steps under their parent', () => {
+    const plan = buildQueryPlan(planResult([
+      [1, 0, 'SCAN CONSTANT ROW'],
+      [4, 0, 'SCALAR SUBQUERY 1'],
+      [10, 4, 'SEARCH p USING COVERING INDEX idx_patients_unit (unit=?)'],
+      [53, 0, 'SCALAR SUBQUERY 3'],
+      [58, 53, 'SCAN medications USING COVERING INDEX idx_medications_delay'],
+    ]));
+
+    expect(plan.roots).toHaveLength(3);
+    expect(plan.roots[0].kind).toBe('other');
+    expect(plan.roots[1].children.map((n) => n.index)).toEqual(['idx_patients_unit']);
+    expect(plan.roots[2].children[0]).toMatchObject({ kind: 'scan', table: 'medications', index: 'idx_medications_delay' });
+  });
+
+  it('counts a scan through an index as a full scan', () => {
+    const plan = buildQueryPlan(planResult([
+      [3, 0, 'SCAN medications USING COVERING INDEX idx_medications_delay'],
+      [7, 0, 'SEARCH patients USING INDEX idx_patients_unit (unit=?)'],
+    ]));
+
+    expect(plan.roots.map((n) => n.kind)).toEqual(['scan', 'index']);
+    expect(plan.fullScans).toEqual(['medications']);
+    expect(plan.indexes).toEqual(['idx_medications_delay', 'idx_patients_unit']);
+  });
+
+  it('names tables instead of the aliases in the query', () => {
+    const sql = `SELECT n.name, COUNT(*)
+      FROM medications AS m
+      JOIN "Nurses" n ON n.nurse_id = m.nurse_id, patients p
+      WHERE p.patient_id = m.patient_id GROUP BY 1`;
+    const plan = buildQueryPlan(planResult([
+      [2, 0, 'SCAN m'],
+      [4, 0, 'SEARCH N USING INTEGER PRIMARY KEY (rowid=?)'],
+      [6, 0, 'SEARCH p USING INTEGER PRIMARY KEY (rowid=?)'],
+      [8, 0, 'SCAN recent'],
+    ]), sql);
+
+    expect(plan.roots.map((n) => [n.table, n.alias])).toEqual([
+      ['medications', 'm'],
+      ['nurses', 'N'],
+      ['patients', 'p'],
+      ['recent', undefined],
+    ]);
+    expect(plan.fullScans).toEqual(['medications', 'recent']);
+  });
+
+  it('reads the pre-3.36 format and automatic indexes', () => {
+    const plan = buildQueryPlan(planResult([
+      [2, 0, 'SCAN TABLE medications AS m'],
+      [3, 0, 'SEARCH TABLE nurses AS n USING AUTOMATIC COVERING INDEX (nurse_id=?)'],
+    ]));
+
+    expect(plan.fullScans).toEqual(['medications']);
+    expect(plan.roots[1]).toMatchObject({ kind: 'index', table: 'nurses', alias: 'n', index: 'AUTOMATIC' });
+  });
+
+  it('summarizes without the tree', () => {
+    const plan = buildQueryPlan(planResult([[3, 0, 'SCAN medications']]));
+    expect(summarizePlan(plan)).toEqual({ fullScans: ['medications'], indexes: [], tempBTrees: 0 });
+  });
+});
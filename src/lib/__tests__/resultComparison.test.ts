@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { compareResults, enforceConceptRules, withoutLimit } from '../resultComparison';
+import type { QueryResult } from '@/types';
+
+function result(columns: string[], values: unknown[][]): QueryResult {
+  return { columns, values };
+}
+
+const expected = result(
+  ['unit', 'avg_delay'],
+  [
+    ['Cardiac B', 21.43],
+    ['ICU', 11.2],
+  ]
+);
+
+describe('compareResults', () => {
+  it('accepts the same data under other aliases and rounding', () => {
+    const student = result(['u', 'avg'], [['ICU', 11.2], ['Cardiac B', 21.4]]);
+    const comparison = compareResults(student, expected);
+    expect(comparison.isMatch).toBe(true);
+    expect(comparison.failedRule).toBeUndefined();
+  });
+
+  it('names the rule that failed', () => {
+    const cases: [QueryResult, string, string][] = [
+      [{ columns: [], values: [], error: 'no such table: x' }, 'query_error', 'Query error: no such table: x'],
+      [result(['unit'], [['ICU'], ['Cardiac B']]), 'columns', 'Column count mismatch: got 1, expected 2'],
+      [result(['unit', 'avg_delay'], [['ICU', 11.2]]), 'row_count', 'Row count mismatch: got 1, expected 2'],
+      [result(['unit', 'avg_delay'], [['ICU', 11.2], ['Cardiac B', 19]]), 'values', "Results don't match. Check your query logic."],
+    ];
+    for (const [student, rule, message] of cases) {
+      const comparison = compareResults(student, expected);
+      expect(comparison).toMatchObject({ isMatch: false, failedRule: rule, message });
+    }
+  });
+
+  it('reports the row that is out of order', () => {
+    const student = result(['unit', 'avg_delay'], [['ICU', 11.2], ['Cardiac B', 21.43]]);
+    expect(compareResults(student, expected, true)).toMatchObject({ failedRule: 'order', message: expect.stringMatching(/^Row 1 /) });
+  });
+
+  it('enforces column rules from the policy', () => {
+    const extra = result(['unit', 'avg_delay', 'n'], [['ICU', 11.2, 5], ['Cardiac B', 21.43, 9]]);
+    expect(compareResults(extra, expected, false, { columns: 'superset' }).isMatch).toBe(true);
+    expect(compareResults(extra, expected, false, { columns: 'subset' })).toMatchObject({
+      failedRule: 'columns',
+      message: 'Unexpected column: n',
+    });
+
+    const aliased = result(['unit', 'avg'], [['ICU', 11.2], ['Cardiac B', 21.43]]);
+    expect(compareResults(aliased, expected, false, { matchColumnNames: true })).toMatchObject({
+      failedRule: 'column_names',
+      message: 'Column names must match: expected unit, avg_delay',
+    });
+  });
+});
+
+describe('withoutLimit', () => {
+  it('drops a final LIMIT', () => {
+    expect(withoutLimit('SELECT * FROM nurses\nORDER BY name\nLIMIT 10;')).toBe('SELECT * FROM nurses\nORDER BY name');
+    expect(withoutLimit('select * from nurses limit 5 -- top 5')).toBe('select * from nurses');
+  });
+
+  it('leaves queries without a final plain LIMIT alone', () => {
+    expect(withoutLimit('SELECT * FROM nurses')).toBeNull();
+    expect(withoutLimit('SELECT * FROM nurses LIMIT 5 OFFSET 10')).toBeNull();
+    expect(withoutLimit('SELECT * FROM (SELECT * FROM nurses LIMIT 5)')).toBeNull();
+  });
+});
+
+describe('enforceConceptRules', () => {
+  const match = compareResults(expected, expected);
+  const rules = { require: ['subquery' as const], maxNumericLiteral: 2 };
+
+  it('fails a matching result that skips the required technique', () => {
+    const checked = enforceConceptRules(match, 'SELECT unit, avg_delay FROM t WHERE avg_delay > 10.5', rules);
+    expect(checked).toMatchObject({ isMatch: false, failedRule: 'concepts' });
+    expect(checked.message).toMatch(/^Right result, wrong technique\. /);
+    expect(checked.conceptViolations?.map((v) => v.kind)).toEqual(['missing', 'literal']);
+  });
+
+  it('passes queries that follow the rules, and leaves wrong results alone', () => {
+    const sql = 'SELECT unit, avg_delay FROM t WHERE avg_delay > (SELECT AVG(avg_delay) FROM t)';
+    expect(enforceConceptRules(match, sql, rules)).toBe(match);
+    expect(enforceConceptRules(match, 'SELECT 42', undefined)).toBe(match);
+
+    const wrong = compareResults(result(['unit'], []), expected);
+    expect(enforceConceptRules(wrong, 'SELECT 42', rules)).toBe(wrong);
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import { alignColumns, describeDiff, diffResults, isEmptyDiff, revealDiff } from '../resultDiff';
+import type { QueryResult } from '@/types';
+
+function result(columns: string[], values: unknown[][]): QueryResult {
+  return { columns, values };
+}
+
+const expected = result(
+  ['unit', 'avg_delay'],
+  [
+    ['Cardiac B', 21.43],
+    ['ICU', 11.2],
+    ['Med-Surg', 12.9],
+  ]
+);
+
+describe('alignColumns', () => {
+  it('aligns by name, ignoring case and order', () => {
+    const alignment = alignColumns(['AVG_DELAY', 'Unit'], ['unit', 'avg_delay']);
+    expect(alignment).toEqual({ byName: true, mapping: [1, 0], missingColumns: [], extraColumns: [] });
+  });
+
+  it('falls back to position when names differ', () => {
+    const alignment = alignColumns(['u', 'avg'], ['unit', 'avg_delay']);
+    expect(alignment.byName).toBe(false);
+    expect(alignment.mapping).toEqual([0, 1]);
+  });
+
+  it('reports missing and extra columns', () => {
+    expect(alignColumns(['unit'], ['unit', 'avg_delay']).missingColumns).toEqual(['avg_delay']);
+    expect(alignColumns(['unit', 'avg_delay', 'n'], ['unit', 'avg_delay']).extraColumns).toEqual(['n']);
+  });
+});
+
+describe('diffResults', () => {
+  it('finds no difference for the same rows in another order', () => {
+    const student = result(['avg_delay', 'unit'], [[12.9, 'Med-Surg'], [21.4, 'Cardiac B'], [11.2, 'ICU']]);
+    const diff = diffResults(student, expected);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it('reports the first row out of place when order matters', () => {
+    const student = result(['unit', 'avg_delay'], [['Cardiac B', 21.4], ['Med-Surg', 12.9], ['ICU', 11.2]]);
+    expect(diffResults(student, expected, true).orderMismatchRow).toBe(1);
+    expect(diffResults(student, expected, false).orderMismatchRow).toBeNull();
+  });
+
+  it('pairs a row with one wrong value as a cell mismatch', () => {
+    const student = result(['unit', 'avg_delay'], [['Cardiac B', 19.0], ['ICU', 11.2], ['Med-Surg', 12.9]]);
+    const diff = diffResults(student, expected);
+
+    expect(diff.cellMismatches).toEqual([{ row: 0, column: 1, actual: 19.0, expected: 21.43 }]);
+    expect(diff.missingRows).toEqual([]);
+    expect(diff.extraRows).toEqual([]);
+  });
+
+  it('reports unrelated rows as missing and extra', () => {
+    const student = result(['unit', 'avg_delay'], [['ICU', 11.2], ['Oncology', 9.1], ['Peds', 7.7]]);
+    const diff = diffResults(student, expected);
+
+    expect(diff.extraRows).toEqual([1, 2]);
+    expect(diff.missingRows.map((m) => m.expectedRow)).toEqual([0, 2]);
+    expect(diff.cellMismatches).toEqual([]);
+  });
+
+  it('compares a single leftover row on each side cell by cell', () => {
+    const student = result(['unit', 'avg_delay'], [['Cardiac B', 21.4], ['ICU', 11.2], ['Oncology', 9.1]]);
+    const diff = diffResults(student, expected);
+
+    expect(diff.extraRows).toEqual([]);
+    expect(diff.missingRows).toEqual([]);
+    expect(diff.cellMismatches.map((m) => [m.row, m.column])).toEqual([[2, 0], [2, 1]]);
+  });
+
+  it('counts duplicate rows', () => {
+    const student = result(['unit', 'avg_delay'], [['ICU', 11.2], ['ICU', 11.2], ['Cardiac B', 21.4], ['Med-Surg', 12.9]]);
+    const diff = diffResults(student, expected);
+    expect(diff.extraRows).toEqual([1]);
+    expect(diff.missingRows).toEqual([]);
+  });
+
+  it('does not compare rows when a column is missing', () => {
+    const diff = diffResults(result(['unit'], [['ICU']]), expected);
+    expect(diff.rowsCompared).toBe(false);
+    expect(diff.missingRows).toEqual([]);
+    expect(isEmptyDiff(diff)).toBe(false);
+  });
+
+  it('flags columns whose values have another type', () => {
+    const student = result(['unit', 'avg_delay'], [['Cardiac B', '21.4'], ['ICU', '11.2'], ['Med-Surg', '12.9']]);
+    const diff = diffResults(student, expected);
+    expect(diff.typeMismatches).toEqual([{ column: 1, expected: 'number', actual: 'text' }]);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+});
+
+describe('diffResults with a comparison policy', () => {
+  const counts = result(['unit', 'total', 'rate'], [['ICU', 40, 12.5], ['Cardiac B', 60, 33.33]]);
+
+  it('rounds to one decimal by default', () => {
+    const student = result(['unit', 'total', 'rate'], [['ICU', 40.04, 12.5], ['Cardiac B', 60, 33.3]]);
+    expect(isEmptyDiff(diffResults(student, counts))).toBe(true);
+  });
+
+  it('compares exactly with an empty numeric tolerance', () => {
+    const student = result(['unit', 'total', 'rate'], [['ICU', 40.04, 12.5], ['Cardiac B', 60, 33.33]]);
+    const diff = diffResults(student, counts, false, { numeric: {} });
+    expect(diff.cellMismatches).toEqual([{ row: 0, column: 1, actual: 40.04, expected: 40 }]);
+  });
+
+  it('applies per-column absolute tolerances', () => {
+    const student = result(['unit', 'total', 'rate'], [['ICU', 40, 12], ['Cardiac B', 60, 33]]);
+    const policy = { numeric: {}, numericColumns: { RATE: { absolute: 1 } } };
+    expect(isEmptyDiff(diffResults(student, counts, false, policy))).toBe(true);
+
+    const off = result(['unit', 'total', 'rate'], [['ICU', 41, 12], ['Cardiac B', 60, 33]]);
+    expect(diffResults(off, counts, false, policy).cellMismatches.map((m) => m.column)).toEqual([1]);
+  });
+
+  it('compares numeric text as a number under a tolerance', () => {
+    const student = result(['unit', 'total', 'rate'], [['ICU', 40, '12.5'], ['Cardiac B', 60, ' 33.8 ']]);
+    const policy = { numeric: {}, numericColumns: { RATE: { absolute: 1 } } };
+    expect(isEmptyDiff(diffResults(student, counts, false, policy))).toBe(true);
+    expect(isEmptyDiff(diffResults(student, counts, false, { numeric: { relative: 0.05 } }))).toBe(true);
+
+    const off = result(['unit', 'total', 'rate'], [['ICU', 40, '14.5'], ['Cardiac B', 60, '33.3']]);
+    expect(diffResults(off, counts, false, policy).cellMismatches).toEqual([
+      { row: 0, column: 2, actual: '14.5', expected: 12.5 },
+    ]);
+  });
+
+  it('applies relative tolerances', () => {
+    const student = result(['unit', 'total', 'rate'], [['ICU', 40, 12.6], ['Cardiac B', 60, 33.6]]);
+    expect(isEmptyDiff(diffResults(student, counts, false, { numeric: { relative: 0.01 } }))).toBe(true);
+    expect(isEmptyDiff(diffResults(student, counts, false, { numeric: { relative: 0.001 } }))).toBe(false);
+  });
+
+  it('ignores extra columns for a superset policy', () => {
+    const student = result(['unit_id', 'unit', 'total', 'rate'], [[1, 'ICU', 40, 12.5], [2, 'Cardiac B', 60, 33.33]]);
+    expect(diffResults(student, counts).alignment.extraColumns).toEqual(['unit_id']);
+    expect(isEmptyDiff(diffResults(student, counts, false, { columns: 'superset' }))).toBe(true);
+  });
+
+  it('compares only the named columns for a subset policy', () => {
+    const student = result(['RATE', 'unit'], [[33.33, 'Cardiac B'], [12.5, 'ICU']]);
+    const diff = diffResults(student, counts, false, { columns: 'subset' });
+    expect(diff.alignment.mapping).toEqual([1, -1, 0]);
+    expect(isEmptyDiff(diff)).toBe(true);
+
+    const unrelated = result(['x'], [['ICU'], ['Cardiac B']]);
+    expect(diffResults(unrelated, counts, false, { columns: 'subset' }).rowsCompared).toBe(false);
+  });
+
+  it('compares text ignoring case, and NULL with empty strings, when asked', () => {
+    const expectedNames = result(['name'], [['Martinez'], [null]]);
+    const student = result(['name'], [['MARTINEZ'], ['']]);
+    expect(isEmptyDiff(diffResults(student, expectedNames))).toBe(false);
+    expect(isEmptyDiff(diffResults(student, expectedNames, false, { caseInsensitive: true, nullEqualsEmpty: true }))).toBe(true);
+  });
+
+  it('checks order only on the order keys', () => {
+    const ranked = result(['name', 'avg_delay'], [['Ann', 30], ['Bo', 25], ['Cy', 25], ['Di', 10]]);
+    const student = result(['name', 'avg_delay'], [['Ann', 30], ['Cy', 25], ['Bo', 25], ['Di', 10]]);
+    expect(diffResults(student, ranked, true).orderMismatchRow).toBe(1);
+    expect(diffResults(student, ranked, true, { orderKeys: ['avg_delay'] }).orderMismatchRow).toBeNull();
+
+    const swapped = result(['name', 'avg_delay'], [['Ann', 30], ['Di', 10], ['Bo', 25], ['Cy', 25]]);
+    expect(diffResults(swapped, ranked, true, { orderKeys: ['avg_delay'] }).orderMismatchRow).toBe(1);
+  });
+
+  describe('ties at a LIMIT cutoff', () => {
+    // Top 3 by avg_delay; Bo, Cy and Ed tie for third
+    const all = result(['name', 'avg_delay'], [['Ann', 30], ['Di', 28], ['Bo', 25], ['Cy', 25], ['Ed', 25], ['Fay', 10]]);
+    const top3 = result(all.columns, all.values.slice(0, 3));
+    const policy = { orderKeys: ['avg_delay'] };
+
+    it('accepts another row tied at the cutoff', () => {
+      const student = result(all.columns, [['Ann', 30], ['Di', 28], ['Ed', 25]]);
+      expect(isEmptyDiff(diffResults(student, top3, true, policy, all))).toBe(true);
+      // Without the unlimited rows there is no way to tell
+      expect(diffResults(student, top3, true, policy).cellMismatches).toHaveLength(1);
+    });
+
+    it('rejects a row that is not tied, or not in the data', () => {
+      const untied = result(all.columns, [['Ann', 30], ['Di', 28], ['Fay', 10]]);
+      expect(isEmptyDiff(diffResults(untied, top3, true, policy, all))).toBe(false);
+
+      const invented = result(all.columns, [['Ann', 30], ['Di', 28], ['Zed', 25]]);
+      expect(isEmptyDiff(diffResults(invented, top3, true, policy, all))).toBe(false);
+    });
+
+    it('does not accept the same tied row twice', () => {
+      const top4 = result(all.columns, all.values.slice(0, 4));
+      const student = result(all.columns, [['Ann', 30], ['Di', 28], ['Bo', 25], ['Bo', 25]]);
+      expect(isEmptyDiff(diffResults(student, top4, true, policy, all))).toBe(false);
+    });
+
+    it('still checks the order', () => {
+      const student = result(all.columns, [['Di', 28], ['Ann', 30], ['Ed', 25]]);
+      expect(diffResults(student, top3, true, policy, all).orderMismatchRow).toBe(0);
+    });
+
+    it('decides ties on exact values, not the rounding tolerance', () => {
+      // 23.04 and 22.96 both round to 23.0 but are not tied
+      const close = result(['name', 'avg_delay'], [['Ann', 30], ['Bo', 23.04], ['Cy', 22.96], ['Di', 10]]);
+      const top2 = result(close.columns, close.values.slice(0, 2));
+
+      const swappedIn = result(close.columns, [['Ann', 30], ['Cy', 22.96]]);
+      expect(isEmptyDiff(diffResults(swappedIn, top2, true, policy, close))).toBe(false);
+
+      const inverted = result(close.columns, [['Ann', 30], ['Cy', 22.96], ['Bo', 23.04]]);
+      const top3Close = result(close.columns, close.values.slice(0, 3));
+      expect(diffResults(inverted, top3Close, true, policy, close).orderMismatchRow).toBe(1);
+
+      // Rounded output is still fine in the right order
+      const rounded = result(close.columns, [['Ann', 30], ['Bo', 23.0], ['Cy', 23.0]]);
+      expect(isEmptyDiff(diffResults(rounded, top3Close, true, policy, close))).toBe(true);
+    });
+  });
+
+  it('rejects an order key that is not an expected column', () => {
+    expect(() => diffResults(counts, counts, true, { orderKeys: ['delay'] })).toThrow(/Order key "delay"/);
+  });
+});
+
+describe('revealDiff', () => {
+  const student = result(['unit', 'avg_delay'], [['Cardiac B', 19.0], ['ICU', 11.2]]);
+  const diff = diffResults(student, expected);
+
+  it('hides the diff entirely at none', () => {
+    expect(revealDiff(diff, 'none')).toBeNull();
+  });
+
+  it('drops expected values below values', () => {
+    for (const level of ['summary', 'rows'] as const) {
+      const revealed = revealDiff(diff, level)!;
+      expect(revealed.reveal).toBe(level);
+      expect(revealed.missingRows.every((m) => !('values' in m))).toBe(true);
+      expect(revealed.cellMismatches.every((m) => !('expected' in m))).toBe(true);
+      expect(revealed.missingRows).toHaveLength(diff.missingRows.length);
+    }
+  });
+
+  it('keeps everything at values', () => {
+    const revealed = revealDiff(diff, 'values')!;
+    expect(revealed.missingRows[0].values).toEqual(['Med-Surg', 12.9]);
+    expect(revealed.cellMismatches[0].expected).toBe(21.43);
+  });
+});
+
+describe('describeDiff', () => {
+  it('summarizes rows, values and columns', () => {
+    const student = result(['unit', 'avg_delay', 'n'], [['Cardiac B', 19.0, 1], ['ICU', 11.2, 2]]);
+    expect(describeDiff(diffResults(student, expected), student.columns)).toEqual([
+      'Unexpected column: n',
+      '1 row missing',
+      '1 wrong value in 1 row',
+    ]);
+  });
+
+  it('stops at column problems when rows were not compared', () => {
+    const student = result(['unit'], [['ICU']]);
+    expect(describeDiff(diffResults(student, expected), student.columns)).toEqual([
+      'Missing column: avg_delay',
+      'Rows were not compared until the columns line up',
+    ]);
+  });
+});
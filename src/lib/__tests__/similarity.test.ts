@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { fingerprintQuery, tokenSimilarity, analyzeQuerySimilarity } from '../similarity';
+import type { SimilaritySubmission } from '../similarity';
+import type { TaskAttempt } from '@/types';
+
+function submission(name: string, queries: Record<string, string>): SimilaritySubmission {
+  const attempts: TaskAttempt[] = Object.entries(queries).map(([taskId, submittedQuery], i) => ({
+    studentName: name,
+    sqlExpertise: 1,
+    round: Number(taskId.split('.')[0]),
+    queryNum: Number(taskId.split('.')[1]),
+    taskId,
+    querySequence: i + 1,
+    attemptNum: 1,
+    timeSec: 60,
+    totalAttempts: 1,
+    submittedQuery,
+    completedAt: '2026-02-01T10:00:00.000Z',
+    isCorrect: true,
+  }));
+  return {
+    source: `${name}.json`,
+    studentName: name,
+    session: {
+      studentInfo: { studentName: name, sqlExpertise: 1 },
+      currentRound: 5,
+      currentQuery: 4,
+      attempts,
+      taskStartTime: null,
+      isComplete: true,
+    },
+  };
+}
+
+const SIMPLE = "SELECT * FROM patients WHERE last_name = 'Martinez';";
+const COPIED = `-- join meds to nurses first
+SELECT nx.name, AVG(mx.delay_minutes)
+  FROM medications mx
+  JOIN nurses nx ON nx.nurse_id = mx.nurse_id
+ GROUP BY nx.name;`;
+const RENAMED = 'select n.name, avg(m.delay_minutes) from medications as m join nurses as n on n.nurse_id = m.nurse_id group by n.name';
+const OTHERS = [
+  'SELECT unit, COUNT(*) FROM patients GROUP BY unit',
+  'SELECT shift, MAX(delay_minutes) FROM medications JOIN nurses USING (nurse_id) WHERE delay_minutes > 0 GROUP BY shift ORDER BY 2 DESC',
+  'SELECT name FROM nurses WHERE years_experience < 2',
+];
+
+// ---------------------------------------------------------------------------
+// Fingerprints
+// ---------------------------------------------------------------------------
+
+describe('fingerprintQuery', () => {
+  it('normalizes case, whitespace, comments and alias names', () => {
+    const a = fingerprintQuery(COPIED);
+    const b = fingerprintQuery(RENAMED);
+
+    expect(a.structure).toEqual(b.structure);
+    expect(a.aliases).toEqual(['mx', 'nx']);
+    expect(b.aliases).toEqual(['m', 'n']);
+    expect(a.comments).toEqual(['join meds to nurses first']);
+    expect(a.layout).not.toBe(b.layout);
+  });
+
+  it('does not treat CAST target types as aliases', () => {
+    expect(fingerprintQuery('SELECT CAST(delay_minutes AS INTEGER) AS d FROM medications').aliases).toEqual(['d']);
+  });
+});
+
+describe('tokenSimilarity', () => {
+  it('is 1 for identical streams and drops with edits', () => {
+    expect(tokenSimilarity(['a', 'b', 'c', 'd'], ['a', 'b', 'c', 'd'])).toBe(1);
+    expect(tokenSimilarity(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd'])).toBe(0.75);
+    expect(tokenSimilarity([], [])).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Cohort analysis
+// ---------------------------------------------------------------------------
+
+describe('analyzeQuerySimilarity', () => {
+  const cohort = [
+    submission('Ana', { '1.1': SIMPLE, '4.1': COPIED, '5.1': OTHERS[0] }),
+    submission('Ben', { '1.1': SIMPLE, '4.1': COPIED, '5.1': OTHERS[0] }),
+    submission('Cal', { '1.1': SIMPLE, '4.1': RENAMED, '5.1': OTHERS[2] }),
+    submission('Dee', { '1.1': SIMPLE, '4.1': OTHERS[1], '5.1': OTHERS[1] }),
+    submission('Eve', { '1.1': SIMPLE, '4.1': OTHERS[2], '5.1': OTHERS[2] }),
+    submission('Fay', { '1.1': SIMPLE, '4.1': OTHERS[0] }),
+  ];
+  // Small class: let 3 of 6 share a form before it counts as the common answer
+  const result = analyzeQuerySimilarity(cohort, { commonShare: 0.5 });
+  const task = (id: string) => result.tasks.find((t) => t.taskId === id)!;
+
+  it('ignores the common answer to a simple task', () => {
+    expect(task('1.1').submissionCount).toBe(6);
+    expect(task('1.1').distinctForms).toBe(1);
+    expect(task('1.1').pairs).toEqual([]);
+  });
+
+  it('reports near-duplicates with the incidental details they share', () => {
+    const pair = task('4.1').pairs.find((p) => p.a.studentName === 'Ana' && p.b.studentName === 'Ben')!;
+    expect(pair.similarity).toBe(1);
+    expect(pair.evidence).toEqual(['identical_text', 'shared_aliases', 'shared_comments']);
+  });
+
+  it('sees through renamed aliases and reformatting', () => {
+    const pair = task('4.1').pairs.find((p) => p.b.studentName === 'Cal')!;
+    expect(pair.similarity).toBe(1);
+    expect(pair.evidence).toEqual([]);
+  });
+
+  it('clusters near-duplicates across students', () => {
+    expect(task('4.1').clusters).toHaveLength(1);
+    expect(task('4.1').clusters[0].members.map((m) => m.studentName)).toEqual(['Ana', 'Ben', 'Cal']);
+  });
+
+  it('ranks student pairs by the number of flagged tasks', () => {
+    const top = result.reviewPairs[0];
+    expect([top.a.studentName, top.b.studentName]).toEqual(['Ana', 'Ben']);
+    expect(top.taskIds).toEqual(['4.1', '5.1']);
+    expect(top.meanSimilarity).toBe(1);
+  });
+
+  it('needs evidence once a form is common', () => {
+    const pairs = analyzeQuerySimilarity(cohort).tasks.find((t) => t.taskId === '4.1')!.pairs;
+    expect(pairs.map((p) => [p.a.studentName, p.b.studentName])).toEqual([['Ana', 'Ben']]);
+    expect(pairs[0].commonForm).toBe(true);
+  });
+
+  it('respects the similarity threshold', () => {
+    const strict = analyzeQuerySimilarity(cohort, { threshold: 1.01, commonShare: 0.5 });
+    expect(strict.reviewPairs).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { classifySql } from '../sqlClassifier';
+
+describe('classifySql', () => {
+  it('allows reads', () => {
+    expect(classifySql('SELECT * FROM patients;').allowed).toBe(true);
+    expect(classifySql('WITH late AS (SELECT * FROM medications) SELECT COUNT(*) FROM late').allowed).toBe(true);
+    expect(classifySql('EXPLAIN QUERY PLAN SELECT * FROM nurses').allowed).toBe(true);
+    expect(classifySql('PRAGMA table_info(patients)').allowed).toBe(true);
+  });
+
+  it('rejects DML and DDL with an explanation', () => {
+    const deleted = classifySql('DELETE FROM medications');
+    expect(deleted.allowed).toBe(false);
+    expect(deleted.statements[0]).toEqual({ kind: 'dml', keyword: 'DELETE', allowed: false });
+    expect(deleted.message).toMatch(/DELETE changes data.*read-only/);
+
+    expect(classifySql('drop table nurses').message).toMatch(/DROP changes the database structure/);
+    expect(classifySql('BEGIN; SELECT 1; COMMIT;').statements.map((s) => s.kind)).toEqual(['transaction', 'read', 'transaction']);
+  });
+
+  it('checks every statement, not just the first', () => {
+    const result = classifySql('SELECT * FROM patients; UPDATE nurses SET shift = NULL');
+    expect(result.allowed).toBe(false);
+    expect(result.message).toMatch(/^UPDATE/);
+  });
+
+  it('finds writes behind a CTE', () => {
+    expect(classifySql('WITH x AS (SELECT 1) DELETE FROM labs').allowed).toBe(false);
+  });
+
+  it('is not fooled by keywords in strings, comments or the replace() function', () => {
+    expect(classifySql("SELECT * FROM labs WHERE test_name = 'DELETE' -- DROP TABLE labs").allowed).toBe(true);
+    expect(classifySql("WITH x AS (SELECT replace(name, 'a', 'b') AS n FROM nurses) SELECT * FROM x").allowed).toBe(true);
+  });
+
+  it('rejects pragmas that change settings', () => {
+    expect(classifySql('PRAGMA query_only = OFF').allowed).toBe(false);
+    expect(classifySql('PRAGMA writable_schema').allowed).toBe(false);
+    expect(classifySql("ATTACH DATABASE 'x.db' AS x").allowed).toBe(false);
+  });
+});
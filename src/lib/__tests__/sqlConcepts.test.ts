@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { checkSqlConcepts, detectSqlConcepts } from '../sqlConcepts';
+import { tasks } from '@/data/tasks';
+
+function concepts(sql: string): string[] {
+  return [...detectSqlConcepts(sql)].sort();
+}
+
+describe('detectSqlConcepts', () => {
+  it('finds joins, explicit or comma-separated', () => {
+    expect(concepts('SELECT * FROM medications m JOIN nurses n ON m.administering_nurse_id = n.nurse_id')).toEqual(['join']);
+    expect(concepts('SELECT * FROM medications m, nurses n WHERE m.administering_nurse_id = n.nurse_id')).toEqual(['join']);
+    expect(concepts('SELECT unit, COUNT(*) FROM patients GROUP BY unit ORDER BY 2, 1')).toEqual(['group_by']);
+  });
+
+  it('finds subqueries and CTEs', () => {
+    expect(concepts('SELECT * FROM nurses WHERE nurse_id IN (SELECT administering_nurse_id FROM medications)')).toEqual(['subquery']);
+    expect(concepts('WITH avg_all AS (SELECT AVG(delay_minutes) AS a FROM medications) SELECT a FROM avg_all')).toEqual(['cte', 'subquery']);
+  });
+
+  it('does not count commas inside a subquery in FROM as a join', () => {
+    expect(concepts('SELECT * FROM (SELECT unit, name FROM nurses) t WHERE t.unit = \'ICU\'')).toEqual(['subquery']);
+  });
+
+  it('finds window functions', () => {
+    expect(concepts('SELECT unit, COUNT(*) OVER (PARTITION BY unit) FROM patients')).toEqual(['window']);
+  });
+
+  it('ignores strings and comments', () => {
+    expect(concepts("SELECT 'JOIN (SELECT' FROM patients -- JOIN nurses, GROUP BY")).toEqual([]);
+  });
+});
+
+describe('checkSqlConcepts', () => {
+  it('reports missing and forbidden constructs', () => {
+    const violations = checkSqlConcepts('SELECT * FROM patients GROUP BY unit', {
+      require: ['join', 'group_by'],
+      forbid: ['group_by'],
+    });
+    expect(violations.map((v) => v.kind)).toEqual(['missing', 'forbidden']);
+    expect(violations[0].message).toBe('This task practices a JOIN: combine the tables with JOIN … ON.');
+    expect(violations[1].message).toBe('This task is meant to be solved without GROUP BY.');
+  });
+
+  it('flags hard-coded numbers above the limit', () => {
+    const violations = checkSqlConcepts(
+      'SELECT n.name, AVG(m.delay_minutes) FROM medications m JOIN nurses n ON m.administering_nurse_id = n.nurse_id GROUP BY n.name HAVING AVG(m.delay_minutes) > 22.76',
+      { maxNumericLiteral: 2 }
+    );
+    expect(violations).toEqual([expect.objectContaining({ kind: 'literal', literal: '22.76' })]);
+    expect(violations[0].message).toContain('`22.76` looks hard-coded');
+  });
+
+  it('allows LIMIT counts, positions and small constants', () => {
+    expect(checkSqlConcepts(
+      'SELECT unit, ROUND(AVG(delay_minutes) * 1.0, 2) FROM patients GROUP BY 1 ORDER BY 2 DESC LIMIT 10 OFFSET 5',
+      { maxNumericLiteral: 2 }
+    )).toEqual([]);
+    expect(checkSqlConcepts('SELECT * FROM medications ORDER BY delay_minutes > 15', { maxNumericLiteral: 2 })).toHaveLength(1);
+  });
+
+  it('accepts every reference query under its own task rules', () => {
+    for (const task of tasks.filter((t) => t.concepts)) {
+      expect(checkSqlConcepts(task.expectedQuery, task.concepts!), task.id).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSqlFeedback } from '../sqlFeedback';
+import type { FeedbackContext } from '../sqlFeedback';
+import { tasks } from '@/data/tasks';
+
+function rules(sql: string, context?: FeedbackContext): string[] {
+  return analyzeSqlFeedback(sql, context).map((f) => f.rule);
+}
+
+const JOIN_NURSES = 'FROM medications m JOIN nurses n ON m.administering_nurse_id = n.nurse_id';
+
+describe('analyzeSqlFeedback', () => {
+  it('finds nothing in the reference queries', () => {
+    for (const task of tasks) {
+      expect(analyzeSqlFeedback(task.expectedQuery, { expectedQuery: task.expectedQuery }), task.id).toEqual([]);
+    }
+  });
+
+  it('ignores strings and comments', () => {
+    expect(rules("SELECT * FROM patients WHERE last_name = '= NULL' -- unit = NULL")).toEqual([]);
+  });
+});
+
+describe('null_comparison', () => {
+  it('flags = NULL and != NULL', () => {
+    const feedback = analyzeSqlFeedback(
+      "SELECT * FROM patients WHERE discharge_date = NULL OR NULL <> unit"
+    );
+    expect(feedback.map((f) => f.rule)).toEqual(['null_comparison', 'null_comparison']);
+    expect(feedback[0].message).toContain('Use `IS NULL`');
+    expect(feedback[1].message).toContain('Use `IS NOT NULL`');
+  });
+
+  it('accepts IS NULL', () => {
+    expect(rules('SELECT * FROM patients WHERE discharge_date IS NULL')).toEqual([]);
+  });
+});
+
+describe('double_quoted_string', () => {
+  it('flags double-quoted text', () => {
+    const [feedback] = analyzeSqlFeedback('SELECT * FROM patients WHERE last_name = "Martinez"');
+    expect(feedback.rule).toBe('double_quoted_string');
+    expect(feedback.message).toContain("'Martinez'");
+  });
+
+  it('accepts quoted schema names and aliases', () => {
+    expect(rules('SELECT "unit" AS "Unit Name" FROM "patients" ORDER BY "Unit Name"')).toEqual([]);
+  });
+
+  it('accepts names the reference query uses', () => {
+    const expectedQuery = 'SELECT COUNT(*) as count FROM medications';
+    expect(rules('SELECT "count" FROM (SELECT COUNT(*) AS count FROM medications)', { expectedQuery })).toEqual([]);
+  });
+});
+
+describe('cartesian_product', () => {
+  it('flags a JOIN without ON and suggests the foreign key', () => {
+    const [feedback] = analyzeSqlFeedback('SELECT m.*, n.name FROM medications m JOIN nurses n WHERE m.patient_id = 247');
+    expect(feedback.rule).toBe('cartesian_product');
+    expect(feedback.message).toContain('`ON m.administering_nurse_id = n.nurse_id`');
+  });
+
+  it('flags a comma join without WHERE', () => {
+    const [feedback] = analyzeSqlFeedback('SELECT * FROM patients, encounters');
+    expect(feedback.rule).toBe('cartesian_product');
+    expect(feedback.message).toContain('`WHERE encounters.patient_id = patients.patient_id`');
+  });
+
+  it('checks subqueries on their own', () => {
+    expect(rules("SELECT name FROM nurses WHERE nurse_id IN (SELECT administering_nurse_id FROM medications m JOIN patients p WHERE p.unit = 'ICU')")).toEqual(['cartesian_product']);
+  });
+
+  it('accepts ON, USING, CROSS JOIN and NATURAL JOIN', () => {
+    expect(rules(`SELECT * ${JOIN_NURSES}`)).toEqual([]);
+    expect(rules('SELECT * FROM medications JOIN patients USING (patient_id)')).toEqual([]);
+    expect(rules('SELECT * FROM units CROSS JOIN nurses')).toEqual([]);
+    expect(rules('SELECT * FROM medications NATURAL JOIN patients')).toEqual([]);
+  });
+});
+
+describe('group_by_missing_column', () => {
+  it('flags a selected column missing from GROUP BY', () => {
+    const feedback = analyzeSqlFeedback(`SELECT n.shift, n.name, AVG(m.delay_minutes) ${JOIN_NURSES} GROUP BY n.shift`);
+    expect(feedback.map((f) => f.rule)).toEqual(['group_by_missing_column']);
+    expect(feedback[0].message).toMatch(/^n\.name is selected but not in GROUP BY/);
+  });
+
+  it('flags bare columns next to an aggregate without GROUP BY', () => {
+    const [feedback] = analyzeSqlFeedback('SELECT p.unit, AVG(m.delay_minutes) FROM medications m JOIN patients p ON m.patient_id = p.patient_id');
+    expect(feedback.message).toContain('add `GROUP BY p.unit`');
+  });
+
+  it('accepts grouping by alias, position or primary key', () => {
+    expect(rules('SELECT unit AS u, COUNT(*) FROM patients GROUP BY u')).toEqual([]);
+    expect(rules('SELECT unit, COUNT(*) FROM patients GROUP BY 1')).toEqual([]);
+    expect(rules(`SELECT n.name, AVG(m.delay_minutes) ${JOIN_NURSES} GROUP BY n.nurse_id`)).toEqual([]);
+  });
+
+  it('ignores window functions', () => {
+    expect(rules('SELECT unit, COUNT(*) OVER (PARTITION BY unit) FROM patients')).toEqual([]);
+  });
+});
+
+describe('integer_division', () => {
+  const percentTask = tasks.find((t) => t.id === '3.4')!;
+
+  it('flags integer percentages', () => {
+    const [feedback] = analyzeSqlFeedback(
+      'SELECT 100 * SUM(CASE WHEN delay_minutes > 15 THEN 1 ELSE 0 END) / COUNT(*) AS pct FROM medications',
+      { expectedQuery: percentTask.expectedQuery }
+    );
+    expect(feedback.rule).toBe('integer_division');
+    expect(feedback.message).toContain('Multiply by 100.0 instead of 100');
+    expect(feedback.message).not.toContain('AS pct');
+  });
+
+  it('flags integer ratios', () => {
+    expect(rules('SELECT SUM(delay_minutes > 15) / COUNT(*) FROM medications')).toEqual(['integer_division']);
+  });
+
+  it('accepts real arithmetic', () => {
+    expect(rules('SELECT 100.0 * SUM(delay_minutes > 15) / COUNT(*) FROM medications')).toEqual([]);
+    expect(rules('SELECT CAST(SUM(delay_minutes > 15) AS REAL) / COUNT(*) FROM medications')).toEqual([]);
+    expect(rules('SELECT AVG(delay_minutes) / COUNT(*) FROM medications')).toEqual([]);
+  });
+
+  it('stays quiet when the reference query divides integers too', () => {
+    expect(rules('SELECT SUM(delay_minutes) / COUNT(*) FROM medications', {
+      expectedQuery: 'SELECT SUM(delay_minutes) / COUNT(*) FROM medications',
+    })).toEqual([]);
+  });
+});
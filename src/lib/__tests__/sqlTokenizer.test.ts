@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeSql, significantTokens, identifierName } from '../sqlTokenizer';
+
+describe('tokenizeSql', () => {
+  it('round-trips the source text', () => {
+    const sql = "SELECT p.last_name, COUNT(*) AS n -- count\nFROM patients p\nWHERE unit <> 'Cardiac B' /* x */;";
+    expect(tokenizeSql(sql).map((t) => t.text).join('')).toBe(sql);
+  });
+
+  it('classifies keywords, identifiers, literals and operators', () => {
+    const tokens = significantTokens(tokenizeSql("select name from nurses where years_experience >= 2.5 and unit = 'ICU'"));
+    expect(tokens.map((t) => t.type)).toEqual([
+      'keyword', 'identifier', 'keyword', 'identifier', 'keyword',
+      'identifier', 'operator', 'number', 'keyword', 'identifier', 'operator', 'string',
+    ]);
+    expect(tokens[6].text).toBe('>=');
+  });
+
+  it('keeps comments and quoted text intact', () => {
+    const tokens = tokenizeSql(`SELECT 'it''s -- not a comment', "Last Name" /* note */ FROM t`);
+    expect(tokens.find((t) => t.type === 'string')!.text).toBe("'it''s -- not a comment'");
+    expect(tokens.filter((t) => t.type === 'comment').map((t) => t.text)).toEqual(['/* note */']);
+    expect(identifierName(tokens.find((t) => t.text.startsWith('"'))!)).toBe('last name');
+  });
+
+  it('runs unterminated strings and comments to the end', () => {
+    expect(tokenizeSql("SELECT 'abc").at(-1)).toMatchObject({ type: 'string', text: "'abc" });
+    expect(tokenizeSql('SELECT 1 /* open').at(-1)).toMatchObject({ type: 'comment', text: '/* open' });
+  });
+});
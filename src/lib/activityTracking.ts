@@ -0,0 +1,86 @@
+/**
+ * Active-time tracking for the task timer.
+ *
+ * Wall-clock time counts everything between task start and submit, including
+ * a hidden tab, a sleeping laptop or a student who walked away. The session
+ * keeps a list of inactive intervals for the current task (tab hidden, window
+ * unfocused, no input for IDLE_THRESHOLD_MS); active time is wall time minus
+ * the union of those intervals.
+ *
+ * These helpers are pure — the DOM listeners live in StudyContext.
+ */
+
+import type { InactiveInterval, InactivityReason, StudySession } from '@/types';
+
+/**
+ * No keyboard/pointer input for this long counts as idle. The threshold itself
+ * is still counted as active: reading a prompt or thinking is work.
+ */
+export const IDLE_THRESHOLD_MS = 2 * 60 * 1000;
+
+export interface TaskTiming {
+  wallTimeSec: number;
+  activeTimeSec: number;
+}
+
+/**
+ * Open an interval for `reason` unless one is already open.
+ */
+export function openInactiveInterval(
+  intervals: InactiveInterval[],
+  reason: InactivityReason,
+  at: number
+): InactiveInterval[] {
+  if (intervals.some((i) => i.reason === reason && i.end === null)) return intervals;
+  return [...intervals, { reason, start: at, end: null }];
+}
+
+/**
+ * Close the open interval for `reason`, if any.
+ */
+export function closeInactiveInterval(
+  intervals: InactiveInterval[],
+  reason: InactivityReason,
+  at: number
+): InactiveInterval[] {
+  if (!intervals.some((i) => i.reason === reason && i.end === null)) return intervals;
+  return intervals.map((i) =>
+    i.reason === reason && i.end === null ? { ...i, end: Math.max(i.start, at) } : i
+  );
+}
+
+/**
+ * Seconds in [start, now] not covered by any interval. Open intervals run to
+ * `now`; overlapping intervals (hidden and unfocused at once) count once.
+ */
+export function computeActiveTimeSec(
+  start: number,
+  now: number,
+  intervals: InactiveInterval[]
+): number {
+  const clipped = intervals
+    .map((i) => [Math.max(i.start, start), Math.min(i.end ?? now, now)] as const)
+    .filter(([s, e]) => e > s)
+    .sort((a, b) => a[0] - b[0]);
+
+  let inactiveMs = 0;
+  let coveredUntil = start;
+  for (const [s, e] of clipped) {
+    if (e <= coveredUntil) continue;
+    inactiveMs += e - Math.max(s, coveredUntil);
+    coveredUntil = e;
+  }
+
+  return Math.max(0, now - start - inactiveMs) / 1000;
+}
+
+/**
+ * Wall and active time for the session's current task, as of `now`.
+ */
+export function measureTaskTime(session: StudySession, now: number = Date.now()): TaskTiming {
+  if (!session.taskStartTime) return { wallTimeSec: 0, activeTimeSec: 0 };
+  return {
+    wallTimeSec: (now - session.taskStartTime) / 1000,
+    activeTimeSec: computeActiveTimeSec(session.taskStartTime, now, session.inactiveIntervals ?? []),
+  };
+}
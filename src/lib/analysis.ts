@@ -2,7 +2,8 @@
  * Analysis module for SQL Time Study data.
  *
  * Computes learning curve regression, per-round summaries, difficulty scoring,
- * and SQL complexity metrics from a completed (or partial) study session.
+ * and SQL complexity metrics from a completed (or partial) study session, plus
+ * a pooled class-level curve across many sessions (analyzeCohort).
  *
  * All math is plain TypeScript — no external dependencies. The power law
  * learning curve model is:
@@ -13,6 +14,21 @@
  *   ln(T) = ln(T_1) + b * ln(n)
  *
  * We solve via ordinary least squares on the log-transformed data.
+ *
+ * Alternative models can be fitted alongside it and compared by AIC/BIC:
+ *
+ *   Stanford-B:   T_n = T_1 * (n + B)^b           (B = equivalent prior units)
+ *   De Jong:      T_n = T_1 * (M + (1 - M) n^b)   (M = incompressible fraction)
+ *   Exponential:  T_n = T_inf + (T_1 - T_inf) * e^(-k (n - 1))   (plateau T_inf)
+ *
+ * Each has one non-linear parameter (B, b, k); for a fixed value the rest is
+ * linear, so we grid-search that parameter and solve the remainder by OLS.
+ * All models are scored on log-time residuals so R², AIC and BIC are
+ * comparable across models.
+ *
+ * A covariate model (multiple regression via the normal equations) re-estimates
+ * b while holding task tier and attempt count fixed, since later tasks are also
+ * harder ones.
  */
 
 import type { StudySession, TaskAttempt } from '@/types';
@@ -32,12 +48,58 @@ export interface LearningCurveResult {
   predictedFirstTaskTime: number;
   /** Coefficient of determination. 1.0 = perfect fit. */
   rSquared: number;
+  /** Standard error of the exponent. Null when n < 3. */
+  exponentStdError: number | null;
+  /** t statistic for H0: b = 0. */
+  exponentTStatistic: number | null;
+  /** Two-sided p-value for H0: b = 0 (df = n - 2). */
+  exponentPValue: number | null;
+  /** 95% confidence interval on b. */
+  exponentCI95: [number, number] | null;
+  /** 95% confidence interval on the learning rate (2^b at the CI bounds). */
+  learningRateCI95: [number, number] | null;
   /** Number of observations used in the fit. */
   n: number;
   /** Per-observation residuals: actual - predicted (in log space). */
   residuals: number[];
   /** Predicted times for each observation (in original seconds). */
   predictedTimes: number[];
+  /** Fits for every requested model (always includes the power law). */
+  models: LearningCurveModelFit[];
+  /** Model with the lowest AIC among `models`. */
+  bestModel: LearningCurveModel;
+}
+
+export type LearningCurveModel = 'power' | 'stanfordB' | 'deJong' | 'exponential';
+
+export const LEARNING_CURVE_MODELS: LearningCurveModel[] = ['power', 'stanfordB', 'deJong', 'exponential'];
+
+export const LEARNING_CURVE_MODEL_LABELS: Record<LearningCurveModel, string> = {
+  power: 'Power law (Wright/Crawford)',
+  stanfordB: 'Stanford-B',
+  deJong: 'De Jong',
+  exponential: 'Exponential plateau',
+};
+
+export interface LearningCurveModelFit {
+  model: LearningCurveModel;
+  /** Fitted parameters by name: T1, b, B (Stanford-B), M (De Jong), Tinf and k (exponential). */
+  parameters: Record<string, number>;
+  /** Number of fitted parameters (excluding the error variance). */
+  parameterCount: number;
+  /** R² on log-time, comparable across models. */
+  rSquared: number;
+  /** Residual sum of squares on log-time. */
+  sse: number;
+  aic: number;
+  bic: number;
+  /** Predicted times for each observation (in original seconds). */
+  predictedTimes: number[];
+}
+
+export interface LearningCurveOptions {
+  /** Models to fit in addition to the power law. Default: power law only. */
+  models?: LearningCurveModel[];
 }
 
 export interface RoundSummary {
@@ -82,13 +144,134 @@ export interface SqlComplexity {
   tier: number;
 }
 
+export interface RegressionCoefficient {
+  name: string;
+  estimate: number;
+  /** Null when there are no residual degrees of freedom. */
+  stdError: number | null;
+  tStatistic: number | null;
+  pValue: number | null;
+  ci95: [number, number] | null;
+}
+
+export interface MultipleRegressionResult {
+  /** One entry per design-matrix column, in column order. */
+  coefficients: RegressionCoefficient[];
+  rSquared: number;
+  adjustedRSquared: number;
+  n: number;
+  /** Residual degrees of freedom (n - p). */
+  degreesOfFreedom: number;
+  /** Residual standard error s = sqrt(SSE / df). Null when df = 0. */
+  residualStdError: number | null;
+  residuals: number[];
+}
+
+export interface CovariateModelResult extends MultipleRegressionResult {
+  /** R-style formula of the fitted model (constant predictors left out). */
+  formula: string;
+  /** Coefficient on ln(query_sequence) with task tier and attempts held fixed. */
+  adjustedExponent: number;
+  adjustedLearningRate: number;
+  /** Predictors dropped because they did not vary in this session. */
+  droppedPredictors: string[];
+}
+
+export interface ObservationDiagnostic {
+  taskId: string;
+  querySequence: number;
+  timeSec: number;
+  /** Log-space residual from the power-law fit. */
+  residual: number;
+  /** Hat value h_i of the log-log regression. */
+  leverage: number;
+  /** Externally studentized residual (s estimated without this point). */
+  studentizedResidual: number;
+  cooksDistance: number;
+  isOutlier: boolean;
+}
+
+export interface OutlierAnalysis {
+  diagnostics: ObservationDiagnostic[];
+  /** Task ids flagged as outliers, in sequence order. */
+  outlierTaskIds: string[];
+  /** Power-law fit without the flagged tasks. Null if nothing was flagged or < 3 tasks remain. */
+  refit: LearningCurveResult | null;
+}
+
+/**
+ * Which clock task times come from: wall-clock (task start to submit) or
+ * active time (hidden-tab, unfocused and idle periods removed).
+ */
+export type TimeBasis = 'wall' | 'active';
+
+export interface AnalysisOptions {
+  /** Default 'wall'. Attempts without activeTimeSec fall back to wall time. */
+  timeBasis?: TimeBasis;
+}
+
 export interface AnalysisResult {
+  /** Clock every time in this result is measured on. */
+  timeBasis: TimeBasis;
   learningCurve: LearningCurveResult | null;
+  /** Residual diagnostics on the power-law fit. Null with fewer than 5 tasks. */
+  outliers: OutlierAnalysis | null;
+  /**
+   * log(time) ~ log(sequence) + task tier + attempts. Separates learning from
+   * later tasks simply being harder. Null when there are too few tasks.
+   */
+  covariateModel: CovariateModelResult | null;
   roundSummaries: RoundSummary[];
   taskDifficulties: TaskDifficulty[];
   overallStats: OverallStats;
 }
 
+export interface CohortAnalysisResult {
+  timeBasis: TimeBasis;
+  /** Number of sessions included (sessions without student info are skipped). */
+  studentCount: number;
+  /** One fit over every student's successful attempts. Null if < 3 points. */
+  pooled: LearningCurveResult | null;
+  /** Pooled fit per self-reported SQL expertise level (0-3). */
+  byExpertise: ExpertiseGroupResult[];
+  /** Pairwise comparison of learning exponents between expertise groups. */
+  exponentComparisons: ExponentComparison[];
+  /** Individual fits, for plotting the spread of exponents. */
+  students: StudentCurveSummary[];
+}
+
+export interface ExpertiseGroupResult {
+  sqlExpertise: number;
+  studentCount: number;
+  /** Pooled fit over this group's attempts. Null if < 3 points. */
+  fit: LearningCurveResult | null;
+  /** Mean and SD of the per-student exponents in this group. */
+  meanStudentExponent: number | null;
+  sdStudentExponent: number | null;
+}
+
+export interface ExponentComparison {
+  groupA: number;
+  groupB: number;
+  /** Pooled exponent of A minus pooled exponent of B. */
+  exponentDifference: number;
+  /** Welch's t on the per-student exponents. Null if either group has < 2 students. */
+  tStatistic: number | null;
+  /** Welch-Satterthwaite degrees of freedom for tStatistic. */
+  degreesOfFreedom: number | null;
+  /** Two-sided p-value for tStatistic. */
+  pValue: number | null;
+}
+
+export interface StudentCurveSummary {
+  studentName: string;
+  sqlExpertise: number;
+  exponent: number;
+  learningRate: number;
+  rSquared: number;
+  n: number;
+}
+
 export interface OverallStats {
   totalTimeSec: number;
   totalTasks: number;
@@ -132,18 +315,37 @@ const TASKS_PER_ROUND: Record<number, number> = {
  * Run full analysis on a study session.
  * Returns null for learningCurve if fewer than 3 successful tasks exist.
  */
-export function analyzeSession(session: StudySession): AnalysisResult {
-  const successful = getSuccessfulAttempts(session);
-  const allAttempts = session.attempts;
+export function analyzeSession(session: StudySession, options: AnalysisOptions = {}): AnalysisResult {
+  const timeBasis = options.timeBasis ?? 'wall';
+  const timed = withTimeBasis(session, timeBasis);
+  const successful = getSuccessfulAttempts(timed);
+  const allAttempts = timed.attempts;
 
   return {
-    learningCurve: successful.length >= 3 ? fitLearningCurve(successful) : null,
+    timeBasis,
+    learningCurve: successful.length >= 3
+      ? fitLearningCurve(successful, { models: LEARNING_CURVE_MODELS })
+      : null,
+    outliers: successful.length >= 5 ? detectOutliers(successful) : null,
+    covariateModel: fitCovariateModel(successful, allAttempts),
     roundSummaries: computeRoundSummaries(successful, allAttempts),
     taskDifficulties: computeTaskDifficulties(successful, allAttempts),
     overallStats: computeOverallStats(successful, allAttempts),
   };
 }
 
+/**
+ * Copy of the session whose attempt timeSec is on the requested clock, so the
+ * rest of the analysis never has to know which one it is looking at.
+ */
+function withTimeBasis(session: StudySession, timeBasis: TimeBasis): StudySession {
+  if (timeBasis === 'wall') return session;
+  return {
+    ...session,
+    attempts: session.attempts.map((a) => ({ ...a, timeSec: a.activeTimeSec ?? a.timeSec })),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Helpers: extract successful attempts (one per task, sorted by sequence)
 // ---------------------------------------------------------------------------
@@ -162,7 +364,10 @@ export function getSuccessfulAttempts(session: StudySession): TaskAttempt[] {
 // Learning Curve Regression (OLS on log-log)
 // ---------------------------------------------------------------------------
 
-export function fitLearningCurve(successful: TaskAttempt[]): LearningCurveResult {
+export function fitLearningCurve(
+  successful: TaskAttempt[],
+  options: LearningCurveOptions = {}
+): LearningCurveResult {
   const n = successful.length;
   if (n < 2) {
     return {
@@ -171,9 +376,16 @@ export function fitLearningCurve(successful: TaskAttempt[]): LearningCurveResult
       intercept: 0,
       predictedFirstTaskTime: 0,
       rSquared: 0,
+      exponentStdError: null,
+      exponentTStatistic: null,
+      exponentPValue: null,
+      exponentCI95: null,
+      learningRateCI95: null,
       n,
       residuals: [],
       predictedTimes: [],
+      models: [],
+      bestModel: 'power',
     };
   }
 
@@ -189,7 +401,8 @@ export function fitLearningCurve(successful: TaskAttempt[]): LearningCurveResult
   }
 
   // OLS: y = intercept + slope * x
-  const { slope, intercept, rSquared } = ols(xs, ys);
+  const fit = ols(xs, ys);
+  const { slope, intercept, rSquared } = fit;
 
   // Residuals and predicted values
   const residuals: number[] = [];
@@ -200,20 +413,68 @@ export function fitLearningCurve(successful: TaskAttempt[]): LearningCurveResult
     predictedTimes.push(Math.exp(yHat));
   }
 
+  // Alternative models (power law is always included for comparison)
+  const seqs = successful.map((a) => a.querySequence);
+  const times = successful.map((a) => Math.max(a.timeSec, 0.01));
+  const requested = new Set<LearningCurveModel>(['power', ...(options.models ?? [])]);
+  const models: LearningCurveModelFit[] = [];
+
+  for (const model of LEARNING_CURVE_MODELS) {
+    if (!requested.has(model)) continue;
+    const modelFit = model === 'power'
+      ? { parameters: { T1: Math.exp(intercept), b: slope }, predicted: predictedTimes }
+      : fitAlternativeModel(model, seqs, times);
+    if (modelFit) {
+      models.push(scoreModelFit(model, modelFit.parameters, modelFit.predicted, times));
+    }
+  }
+
+  const bestModel = models.reduce((a, b) => (b.aic < a.aic ? b : a)).model;
+
   return {
     exponent: round4(slope),
     learningRate: round4(Math.pow(2, slope)),
     intercept: round4(intercept),
     predictedFirstTaskTime: round4(Math.exp(intercept)),
     rSquared: round4(rSquared),
+    exponentStdError: fit.slopeStdError === null ? null : round4(fit.slopeStdError),
+    exponentTStatistic: fit.tStatistic === null ? null : round4(fit.tStatistic),
+    exponentPValue: fit.pValue === null ? null : roundSig(fit.pValue),
+    exponentCI95: fit.slopeCI95 && [round4(fit.slopeCI95[0]), round4(fit.slopeCI95[1])],
+    learningRateCI95: fit.slopeCI95 && [
+      round4(Math.pow(2, fit.slopeCI95[0])),
+      round4(Math.pow(2, fit.slopeCI95[1])),
+    ],
     n,
     residuals: residuals.map(round4),
     predictedTimes: predictedTimes.map(round4),
+    models,
+    bestModel,
   };
 }
 
-/** Ordinary least squares for simple linear regression. */
-export function ols(xs: number[], ys: number[]): { slope: number; intercept: number; rSquared: number } {
+export interface OlsResult {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  /** Residual degrees of freedom (n - 2). */
+  degreesOfFreedom: number;
+  /** Standard errors of the coefficients. Null when n < 3 or x is constant. */
+  slopeStdError: number | null;
+  interceptStdError: number | null;
+  /** t = slope / SE(slope), for H0: slope = 0. */
+  tStatistic: number | null;
+  /** Two-sided p-value for tStatistic. */
+  pValue: number | null;
+  /** 95% confidence interval on the slope. */
+  slopeCI95: [number, number] | null;
+}
+
+/**
+ * Ordinary least squares for simple linear regression, with the same
+ * coefficient inference Minitab/R report (t-test on the slope, 95% CI).
+ */
+export function ols(xs: number[], ys: number[]): OlsResult {
   const n = xs.length;
   let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0;
 
@@ -224,9 +485,18 @@ export function ols(xs: number[], ys: number[]): { slope: number; intercept: num
     sumX2 += xs[i] * xs[i];
   }
 
+  const degreesOfFreedom = Math.max(0, n - 2);
+  const noInference = {
+    slopeStdError: null,
+    interceptStdError: null,
+    tStatistic: null,
+    pValue: null,
+    slopeCI95: null,
+  };
+
   const denom = n * sumX2 - sumX * sumX;
   if (Math.abs(denom) < 1e-12) {
-    return { slope: 0, intercept: sumY / n, rSquared: 0 };
+    return { slope: 0, intercept: sumY / n, rSquared: 0, degreesOfFreedom, ...noInference };
   }
 
   const slope = (n * sumXY - sumX * sumY) / denom;
@@ -243,7 +513,579 @@ export function ols(xs: number[], ys: number[]): { slope: number; intercept: num
 
   const rSquared = ssTot < 1e-12 ? 0 : 1 - ssRes / ssTot;
 
-  return { slope, intercept, rSquared };
+  if (degreesOfFreedom === 0) {
+    return { slope, intercept, rSquared, degreesOfFreedom, ...noInference };
+  }
+
+  // Coefficient standard errors: Var(b) = s² / Sxx, Var(a) = s² (1/n + x̄² / Sxx)
+  const s2 = ssRes / degreesOfFreedom;
+  const sxx = denom / n;
+  const xMean = sumX / n;
+  const slopeStdError = Math.sqrt(s2 / sxx);
+  const interceptStdError = Math.sqrt(s2 * (1 / n + (xMean * xMean) / sxx));
+
+  // A perfect fit has SE = 0: the slope is as significant as it gets.
+  const tStatistic = slopeStdError > 0 ? slope / slopeStdError : slope === 0 ? 0 : Math.sign(slope) * Infinity;
+  const pValue = twoSidedTPValue(tStatistic, degreesOfFreedom);
+  const tCrit = studentTQuantile(0.975, degreesOfFreedom);
+
+  return {
+    slope,
+    intercept,
+    rSquared,
+    degreesOfFreedom,
+    slopeStdError,
+    interceptStdError,
+    tStatistic,
+    pValue,
+    slopeCI95: [slope - tCrit * slopeStdError, slope + tCrit * slopeStdError],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Multiple regression (normal equations)
+// ---------------------------------------------------------------------------
+
+/**
+ * Least squares for y = X β, solved through the normal equations
+ * (XᵀX) β = Xᵀy. `design` is the n × p design matrix, one row per
+ * observation; include a column of ones for the intercept. Coefficient
+ * inference uses Var(β) = s² (XᵀX)⁻¹ with df = n - p, as lm() does.
+ *
+ * Returns null when n < p or the columns are linearly dependent.
+ */
+export function multipleRegression(
+  design: number[][],
+  ys: number[],
+  names: string[]
+): MultipleRegressionResult | null {
+  const n = ys.length;
+  const p = names.length;
+  if (n < p || design.length !== n || design.some((row) => row.length !== p)) return null;
+
+  const xtx: number[][] = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+  for (let i = 0; i < n; i++) {
+    const row = design[i];
+    for (let j = 0; j < p; j++) {
+      xty[j] += row[j] * ys[i];
+      for (let k = 0; k < p; k++) {
+        xtx[j][k] += row[j] * row[k];
+      }
+    }
+  }
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) return null;
+
+  const beta = inverse.map((row) => row.reduce((s, v, k) => s + v * xty[k], 0));
+
+  const yMean = ys.reduce((s, v) => s + v, 0) / n;
+  const residuals: number[] = [];
+  let ssRes = 0, ssTot = 0;
+  for (let i = 0; i < n; i++) {
+    const yHat = design[i].reduce((s, v, j) => s + v * beta[j], 0);
+    residuals.push(ys[i] - yHat);
+    ssRes += (ys[i] - yHat) ** 2;
+    ssTot += (ys[i] - yMean) ** 2;
+  }
+
+  const degreesOfFreedom = n - p;
+  const rSquared = ssTot < 1e-12 ? 0 : 1 - ssRes / ssTot;
+  const adjustedRSquared = degreesOfFreedom > 0 && n > 1
+    ? 1 - (1 - rSquared) * (n - 1) / degreesOfFreedom
+    : rSquared;
+
+  const s2 = degreesOfFreedom > 0 ? ssRes / degreesOfFreedom : null;
+  const tCrit = degreesOfFreedom > 0 ? studentTQuantile(0.975, degreesOfFreedom) : 0;
+
+  const coefficients: RegressionCoefficient[] = names.map((name, j) => {
+    if (s2 === null) {
+      return { name, estimate: beta[j], stdError: null, tStatistic: null, pValue: null, ci95: null };
+    }
+    const stdError = Math.sqrt(Math.max(0, s2 * inverse[j][j]));
+    const tStatistic = stdError > 0
+      ? beta[j] / stdError
+      : beta[j] === 0 ? 0 : Math.sign(beta[j]) * Infinity;
+    return {
+      name,
+      estimate: beta[j],
+      stdError,
+      tStatistic,
+      pValue: twoSidedTPValue(tStatistic, degreesOfFreedom),
+      ci95: [beta[j] - tCrit * stdError, beta[j] + tCrit * stdError],
+    };
+  });
+
+  return {
+    coefficients,
+    rSquared,
+    adjustedRSquared,
+    n,
+    degreesOfFreedom,
+    residualStdError: s2 === null ? null : Math.sqrt(s2),
+    residuals,
+  };
+}
+
+/** Gauss-Jordan inversion with partial pivoting. Null if singular. */
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(1, ...matrix.map((row, i) => Math.abs(row[i])));
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10 * scale) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const div = a[col][col];
+    for (let k = 0; k < 2 * size; k++) a[col][k] /= div;
+
+    for (let r = 0; r < size; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let k = 0; k < 2 * size; k++) a[r][k] -= factor * a[col][k];
+    }
+  }
+
+  return a.map((row) => row.slice(size));
+}
+
+/**
+ * Learning curve with covariates:
+ *
+ *   ln(T) = β0 + b · ln(n) + β_tier · tier + β_att · attempts
+ *
+ * tier comes from analyzeSqlComplexity on the accepted query, attempts is the
+ * number of submissions on that task. Round is left out — for one student it
+ * is almost collinear with ln(n). Covariates that do not vary (e.g. every task
+ * solved first try) are dropped rather than making XᵀX singular.
+ */
+export function fitCovariateModel(
+  successful: TaskAttempt[],
+  allAttempts: TaskAttempt[]
+): CovariateModelResult | null {
+  const attemptCounts = new Map<string, number>();
+  for (const a of allAttempts) {
+    attemptCounts.set(a.taskId, (attemptCounts.get(a.taskId) ?? 0) + 1);
+  }
+
+  const candidates: Array<{ name: string; values: number[] }> = [
+    { name: 'ln_sequence', values: successful.map((a) => Math.log(a.querySequence)) },
+    { name: 'task_tier', values: successful.map((a) => analyzeSqlComplexity(a.submittedQuery).tier) },
+    { name: 'attempts', values: successful.map((a) => attemptCounts.get(a.taskId) ?? 1) },
+  ];
+
+  const varies = (values: number[]) => values.some((v) => v !== values[0]);
+  const predictors = candidates.filter((c, i) => i === 0 || varies(c.values));
+  const droppedPredictors = candidates.filter((c) => !predictors.includes(c)).map((c) => c.name);
+
+  // Need at least one residual degree of freedom for inference
+  const names = ['intercept', ...predictors.map((c) => c.name)];
+  if (successful.length <= names.length) return null;
+
+  const design = successful.map((_, i) => [1, ...predictors.map((c) => c.values[i])]);
+  const ys = successful.map((a) => Math.log(Math.max(a.timeSec, 0.01)));
+
+  const fit = multipleRegression(design, ys, names);
+  if (!fit) return null;
+
+  const exponent = fit.coefficients[1].estimate;
+  const formulaTerms = ['log(time_sec) ~ log(query_sequence)'];
+  if (!droppedPredictors.includes('task_tier')) formulaTerms.push('task_tier');
+  if (!droppedPredictors.includes('attempts')) formulaTerms.push('attempts');
+
+  return {
+    coefficients: fit.coefficients.map((c) => ({
+      name: c.name,
+      estimate: round4(c.estimate),
+      stdError: c.stdError === null ? null : round4(c.stdError),
+      tStatistic: c.tStatistic === null ? null : round4(c.tStatistic),
+      pValue: c.pValue === null ? null : roundSig(c.pValue),
+      ci95: c.ci95 && [round4(c.ci95[0]), round4(c.ci95[1])],
+    })),
+    rSquared: round4(fit.rSquared),
+    adjustedRSquared: round4(fit.adjustedRSquared),
+    n: fit.n,
+    degreesOfFreedom: fit.degreesOfFreedom,
+    residualStdError: fit.residualStdError === null ? null : round4(fit.residualStdError),
+    residuals: fit.residuals.map(round4),
+    formula: formulaTerms.join(' + '),
+    adjustedExponent: round4(exponent),
+    adjustedLearningRate: round4(Math.pow(2, exponent)),
+    droppedPredictors,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Outlier diagnostics
+// ---------------------------------------------------------------------------
+
+/** |studentized residual| above this is an outlier on its own. */
+const OUTLIER_T_THRESHOLD = 3;
+/** Above this, a point only counts if it is also influential (Cook's D > 4/n). */
+const INFLUENTIAL_T_THRESHOLD = 2;
+/**
+ * Minimum |log residual|: the time must be at least double (or half) the
+ * prediction, so a very tight curve doesn't flag ordinary 20% wobbles.
+ */
+const MIN_OUTLIER_LOG_RATIO = Math.log(2);
+
+/**
+ * Regression diagnostics on the log-log power-law fit. A task is flagged when
+ * its externally studentized residual exceeds 3, or exceeds 2 while its Cook's
+ * distance is above 4/n — and its time is off by at least a factor of two.
+ * The usual cause is idle time — a student who leaves
+ * mid-task logs one huge timeSec that drags the whole curve.
+ *
+ * When anything is flagged the curve is refitted without those tasks; both
+ * fits are kept so the instructor can compare them.
+ *
+ * Returns null with fewer than 5 tasks or a perfect fit (s = 0).
+ */
+export function detectOutliers(successful: TaskAttempt[]): OutlierAnalysis | null {
+  const n = successful.length;
+  const p = 2;
+  if (n < 5) return null;
+
+  const xs = successful.map((a) => Math.log(a.querySequence));
+  const ys = successful.map((a) => Math.log(Math.max(a.timeSec, 0.01)));
+  const { slope, intercept } = ols(xs, ys);
+
+  const xMean = xs.reduce((s, v) => s + v, 0) / n;
+  const sxx = xs.reduce((s, v) => s + (v - xMean) ** 2, 0);
+  if (sxx < 1e-12) return null;
+
+  const residuals = xs.map((x, i) => ys[i] - (intercept + slope * x));
+  const sse = residuals.reduce((s, e) => s + e * e, 0);
+  const s2 = sse / (n - p);
+  if (s2 < 1e-12) return null;
+
+  const influenceCutoff = 4 / n;
+  const diagnostics: ObservationDiagnostic[] = successful.map((a, i) => {
+    const leverage = 1 / n + (xs[i] - xMean) ** 2 / sxx;
+    const e = residuals[i];
+    // Internally studentized r_i, then leave-one-out t_i = r_i sqrt((n-p-1) / (n-p-r_i²))
+    const r = e / Math.sqrt(s2 * (1 - leverage));
+    const looDenom = n - p - r * r;
+    const t = looDenom > 1e-12 ? r * Math.sqrt((n - p - 1) / looDenom) : Math.sign(r) * Infinity;
+    const cooksDistance = (r * r * leverage) / (p * (1 - leverage));
+
+    const isOutlier = Math.abs(e) >= MIN_OUTLIER_LOG_RATIO && (
+      Math.abs(t) > OUTLIER_T_THRESHOLD
+      || (Math.abs(t) > INFLUENTIAL_T_THRESHOLD && cooksDistance > influenceCutoff)
+    );
+
+    return {
+      taskId: a.taskId,
+      querySequence: a.querySequence,
+      timeSec: round2(a.timeSec),
+      residual: round4(e),
+      leverage: round4(leverage),
+      studentizedResidual: Number.isFinite(t) ? round4(t) : t,
+      cooksDistance: round4(cooksDistance),
+      isOutlier,
+    };
+  });
+
+  const outlierTaskIds = diagnostics.filter((d) => d.isOutlier).map((d) => d.taskId);
+  const kept = successful.filter((a) => !outlierTaskIds.includes(a.taskId));
+
+  return {
+    diagnostics,
+    outlierTaskIds,
+    refit: outlierTaskIds.length > 0 && kept.length >= 3
+      ? fitLearningCurve(kept, { models: LEARNING_CURVE_MODELS })
+      : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Alternative learning curve models
+// ---------------------------------------------------------------------------
+
+interface RawModelFit {
+  parameters: Record<string, number>;
+  predicted: number[];
+}
+
+const MODEL_PARAMETER_COUNTS: Record<LearningCurveModel, number> = {
+  power: 2,
+  stanfordB: 3,
+  deJong: 3,
+  exponential: 3,
+};
+
+/**
+ * Fit one of the three-parameter models by least squares on log-time, the
+ * scale `scoreModelFit` compares them on. Returns null when there are too few
+ * points or no parameter value gives a physically meaningful curve
+ * (positive times, 0 <= M < 1, non-negative plateau).
+ *
+ * Each model is written as T = T1 g(n), so for a fixed shape g the best
+ * ln T1 is the mean of ln T - ln g(n). The remaining two shape parameters
+ * are searched: `p` over `grid` for each `q` in `shapeGrid`.
+ */
+function fitAlternativeModel(
+  model: Exclude<LearningCurveModel, 'power'>,
+  seqs: number[],
+  times: number[]
+): RawModelFit | null {
+  if (seqs.length <= MODEL_PARAMETER_COUNTS[model]) return null;
+
+  const logTimes = times.map((t) => Math.log(t));
+  let candidate: (p: number, q: number) => RawModelFit | null;
+  let grid: number[];
+  let shapeGrid: number[];
+
+  /** T1 g(n) with ln T1 fitted to the log-times; null if g is not positive. */
+  const scaled = (g: number[]): { T1: number; predicted: number[] } | null => {
+    if (g.some((v) => !(v > 0))) return null;
+    const logT1 = logTimes.reduce((s, y, i) => s + y - Math.log(g[i]), 0) / logTimes.length;
+    const T1 = Math.exp(logT1);
+    return { T1, predicted: g.map((v) => T1 * v) };
+  };
+
+  switch (model) {
+    case 'stanfordB':
+      // ln T = ln T1 + b ln(n + B), linear in (ln T1, b) for fixed B
+      grid = range(0, 20, 0.25);
+      shapeGrid = [0];
+      candidate = (B) => {
+        const { slope, intercept } = ols(seqs.map((n) => Math.log(n + B)), logTimes);
+        return {
+          parameters: { T1: Math.exp(intercept), b: slope, B },
+          predicted: seqs.map((n) => Math.exp(intercept + slope * Math.log(n + B))),
+        };
+      };
+      break;
+
+    case 'deJong':
+      // T = T1 (M + (1 - M) n^b)
+      grid = range(-2, -0.01, 0.01);
+      shapeGrid = range(0, 0.95, 0.05);
+      candidate = (b, M) => {
+        const fit = scaled(seqs.map((n) => M + (1 - M) * Math.pow(n, b)));
+        return fit && { parameters: { T1: fit.T1, b, M }, predicted: fit.predicted };
+      };
+      break;
+
+    case 'exponential':
+      // T = Tinf + (T1 - Tinf) e^(-k (n - 1)) = T1 (r + (1 - r) e^(-k (n - 1))), Tinf = r T1
+      grid = range(0, 120, 1).map((i) => 0.005 * Math.pow(1.06, i));
+      shapeGrid = range(0, 0.95, 0.05);
+      candidate = (k, r) => {
+        const fit = scaled(seqs.map((n) => r + (1 - r) * Math.exp(-k * (n - 1))));
+        return fit && { parameters: { T1: fit.T1, Tinf: r * fit.T1, k }, predicted: fit.predicted };
+      };
+      break;
+  }
+
+  const logSse = (p: number, q: number): number => {
+    const fit = candidate(p, q);
+    return fit ? sumSquaredLogResiduals(fit.predicted, times) : Infinity;
+  };
+
+  // Profile out p for each shape value q, then search q
+  const bestP = (q: number): number | null => minimizeOnGrid((p) => logSse(p, q), grid);
+  const profiled = (q: number): number => {
+    const p = bestP(q);
+    return p === null ? Infinity : logSse(p, q);
+  };
+
+  const q = minimizeOnGrid(profiled, shapeGrid);
+  const p = q === null ? null : bestP(q);
+  return q === null || p === null ? null : candidate(p, q);
+}
+
+/**
+ * Grid search followed by golden-section refinement between the best grid
+ * point's neighbours. Returns null if every grid point is infeasible.
+ */
+function minimizeOnGrid(f: (p: number) => number, grid: number[]): number | null {
+  let bestIdx = -1;
+  let bestVal = Infinity;
+  grid.forEach((p, idx) => {
+    const v = f(p);
+    if (v < bestVal) {
+      bestVal = v;
+      bestIdx = idx;
+    }
+  });
+  if (bestIdx === -1) return null;
+
+  let lo = grid[Math.max(0, bestIdx - 1)];
+  let hi = grid[Math.min(grid.length - 1, bestIdx + 1)];
+  const phi = (Math.sqrt(5) - 1) / 2;
+  for (let iter = 0; iter < 40 && hi - lo > 1e-6; iter++) {
+    const a = hi - phi * (hi - lo);
+    const b = lo + phi * (hi - lo);
+    if (f(a) < f(b)) hi = b;
+    else lo = a;
+  }
+
+  const refined = (lo + hi) / 2;
+  return f(refined) <= bestVal ? refined : grid[bestIdx];
+}
+
+function scoreModelFit(
+  model: LearningCurveModel,
+  parameters: Record<string, number>,
+  predicted: number[],
+  times: number[]
+): LearningCurveModelFit {
+  const n = times.length;
+  const k = MODEL_PARAMETER_COUNTS[model];
+  const logTimes = times.map((t) => Math.log(t));
+  const mean = logTimes.reduce((s, y) => s + y, 0) / n;
+  const ssTot = logTimes.reduce((s, y) => s + (y - mean) ** 2, 0);
+  const sse = sumSquaredLogResiduals(predicted, times);
+
+  // Gaussian log-likelihood on log-time; +1 parameter for the error variance.
+  // SSE is floored so a perfect fit doesn't produce -Infinity.
+  const logLikTerm = n * Math.log(Math.max(sse, 1e-12) / n);
+
+  const rounded: Record<string, number> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    rounded[name] = round4(value);
+  }
+
+  return {
+    model,
+    parameters: rounded,
+    parameterCount: k,
+    rSquared: round4(ssTot < 1e-12 ? 0 : 1 - sse / ssTot),
+    sse: round4(sse),
+    aic: round4(logLikTerm + 2 * (k + 1)),
+    bic: round4(logLikTerm + (k + 1) * Math.log(n)),
+    predictedTimes: predicted.map(round4),
+  };
+}
+
+function sumSquaredLogResiduals(predicted: number[], times: number[]): number {
+  let sse = 0;
+  for (let i = 0; i < times.length; i++) {
+    if (!(predicted[i] > 0)) return Infinity;
+    sse += (Math.log(times[i]) - Math.log(predicted[i])) ** 2;
+  }
+  return sse;
+}
+
+/** Inclusive numeric range with a fixed step. */
+function range(start: number, end: number, step: number): number[] {
+  const out: number[] = [];
+  for (let v = start; v <= end + step / 2; v += step) {
+    out.push(Math.round(v * 1e6) / 1e6);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Cohort Analysis (pooled across students)
+// ---------------------------------------------------------------------------
+
+/**
+ * Class-level learning curve. Every student's successful attempts are pooled
+ * into one log-log fit (x = query sequence, so all students share the same
+ * n axis), then split by sqlExpertise for per-group fits. Group exponents are
+ * compared pairwise with Welch's t on the per-student exponents, since the
+ * pooled points within one student are not independent.
+ */
+export function analyzeCohort(
+  sessions: StudySession[],
+  options: AnalysisOptions = {}
+): CohortAnalysisResult {
+  const timeBasis = options.timeBasis ?? 'wall';
+  const perStudent = sessions
+    .filter((s) => s.studentInfo)
+    .map((s) => withTimeBasis(s, timeBasis))
+    .map((s) => ({
+      studentName: s.studentInfo!.studentName,
+      sqlExpertise: s.studentInfo!.sqlExpertise,
+      successful: getSuccessfulAttempts(s),
+    }));
+
+  const students: StudentCurveSummary[] = perStudent
+    .filter((p) => p.successful.length >= 3)
+    .map((p) => {
+      const fit = fitLearningCurve(p.successful);
+      return {
+        studentName: p.studentName,
+        sqlExpertise: p.sqlExpertise,
+        exponent: fit.exponent,
+        learningRate: fit.learningRate,
+        rSquared: fit.rSquared,
+        n: fit.n,
+      };
+    });
+
+  const byExpertise: ExpertiseGroupResult[] = [];
+  for (let level = 0; level <= 3; level++) {
+    const group = perStudent.filter((p) => p.sqlExpertise === level);
+    const points = group.flatMap((p) => p.successful);
+    const exponents = students.filter((s) => s.sqlExpertise === level).map((s) => s.exponent);
+    const mean = exponents.length > 0 ? exponents.reduce((a, b) => a + b, 0) / exponents.length : null;
+
+    byExpertise.push({
+      sqlExpertise: level,
+      studentCount: group.length,
+      fit: points.length >= 3 ? fitLearningCurve(points) : null,
+      meanStudentExponent: mean === null ? null : round4(mean),
+      sdStudentExponent: exponents.length > 1 ? round4(sampleStdDev(exponents)) : null,
+    });
+  }
+
+  const exponentComparisons: ExponentComparison[] = [];
+  const fitted = byExpertise.filter((g) => g.fit);
+  for (let i = 0; i < fitted.length; i++) {
+    for (let j = i + 1; j < fitted.length; j++) {
+      const a = fitted[i];
+      const b = fitted[j];
+      const welch = welchT(
+        students.filter((s) => s.sqlExpertise === a.sqlExpertise).map((s) => s.exponent),
+        students.filter((s) => s.sqlExpertise === b.sqlExpertise).map((s) => s.exponent)
+      );
+      exponentComparisons.push({
+        groupA: a.sqlExpertise,
+        groupB: b.sqlExpertise,
+        exponentDifference: round4(a.fit!.exponent - b.fit!.exponent),
+        tStatistic: welch ? round4(welch.t) : null,
+        degreesOfFreedom: welch ? round2(welch.df) : null,
+        pValue: welch ? roundSig(twoSidedTPValue(welch.t, welch.df)) : null,
+      });
+    }
+  }
+
+  const allPoints = perStudent.flatMap((p) => p.successful);
+
+  return {
+    timeBasis,
+    studentCount: perStudent.length,
+    pooled: allPoints.length >= 3 ? fitLearningCurve(allPoints) : null,
+    byExpertise,
+    exponentComparisons,
+    students,
+  };
+}
+
+/** Welch's two-sample t statistic. Null when either sample has < 2 values. */
+function welchT(a: number[], b: number[]): { t: number; df: number } | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  const varA = sampleStdDev(a) ** 2 / a.length;
+  const varB = sampleStdDev(b) ** 2 / b.length;
+  const se = Math.sqrt(varA + varB);
+  if (se < 1e-12) return null;
+
+  const df = (varA + varB) ** 2 / (varA ** 2 / (a.length - 1) + varB ** 2 / (b.length - 1));
+  return { t: (meanA - meanB) / se, df };
 }
 
 // ---------------------------------------------------------------------------
@@ -450,6 +1292,103 @@ function median(sorted: number[]): number {
     : sorted[mid];
 }
 
+/**
+ * CDF of Student's t distribution, via the regularized incomplete beta
+ * function: P(T <= t) = 1 - I_{df/(df+t²)}(df/2, 1/2) / 2 for t >= 0.
+ */
+export function studentTCdf(t: number, df: number): number {
+  if (!Number.isFinite(t)) return t > 0 ? 1 : 0;
+  const tail = 0.5 * regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Two-sided p-value for a t statistic. Computed from the tail directly rather
+ * than 1 - CDF so tiny p-values don't round to zero.
+ */
+function twoSidedTPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Inverse CDF of Student's t (bisection on studentTCdf). */
+export function studentTQuantile(p: number, df: number): number {
+  let lo = -1000, hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** I_x(a, b) by continued fraction (Numerical Recipes betacf). */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fastest for x < (a + 1) / (a + b + 2)
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - regularizedIncompleteBeta(1 - x, b, a);
+  }
+
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return (front * h) / a;
+}
+
+/** Lanczos approximation of ln Γ(x). */
+function logGamma(x: number): number {
+  const coef = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const c of coef) {
+    y += 1;
+    ser += c / y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
@@ -457,3 +1396,8 @@ function round2(n: number): number {
 function round4(n: number): number {
   return Math.round(n * 10000) / 10000;
 }
+
+/** Round to 4 significant digits (p-values are often far below 0.0001). */
+function roundSig(n: number): number {
+  return n === 0 ? 0 : Number(n.toPrecision(4));
+}
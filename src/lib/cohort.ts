@@ -0,0 +1,498 @@
+/**
+ * Cohort grading for SQL Time Study exports.
+ *
+ * Instructors collect one JSON or YAML export per student. This module parses
+ * those exports, validates the schema version, rebuilds a StudySession from the
+ * raw observations, and re-runs analyzeSession/gradeSession so every student is
+ * scored by the current rubric. The analysis and grading embedded in each file
+ * are ignored — they may be stale or hand-edited. Each export's integrity block
+ * is verified, and edited or reordered data is flagged as critical. Accepted
+ * queries are compared across students (see similarity.ts) for review.
+ *
+ * Everything here is pure (no fs access) so it can be unit tested and reused
+ * from the browser. The Node entry point lives in scripts/grade-cohort.ts.
+ */
+
+import yaml from 'js-yaml';
+import type { StudySession, TaskAttempt, StudentInfo } from '@/types';
+import { analyzeSession, analyzeCohort } from './analysis';
+import { appendFlags, gradeSession } from './grading';
+import { SCHEMA_VERSION, csvEscape } from './dataLogger';
+import { verifyExportIntegrity } from './integrity';
+import { analyzeQuerySimilarity } from './similarity';
+import type { AnalysisResult, AnalysisOptions, CohortAnalysisResult } from './analysis';
+import type { GradingFlag, GradingResult, RubricConfig } from './grading';
+import type { IntegrityCheck } from './integrity';
+import type { QuerySimilarityResult, SimilarityOptions } from './similarity';
+import type { ExportPayload, ExportObservation, ExportAttempt } from './dataLogger';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** A raw export file as read from disk. */
+export interface CohortFile {
+  /** File name, used to identify the submission in the roster. */
+  source: string;
+  content: string;
+}
+
+export interface CohortStudentResult {
+  source: string;
+  studentName: string;
+  sqlExpertise: number;
+  schemaVersion: string;
+  /** Dataset hash from the export metadata; null for exports before 2.4. */
+  seedConfigHash: string | null;
+  /** Rebuilt session (from the attempt table when present, else observations). */
+  session: StudySession;
+  analysis: AnalysisResult;
+  grading: GradingResult;
+  integrity: IntegrityCheck;
+}
+
+export interface CohortFileError {
+  source: string;
+  message: string;
+}
+
+export interface CohortGradingResult {
+  students: CohortStudentResult[];
+  /** Files that could not be parsed or failed validation. */
+  errors: CohortFileError[];
+  /** Class-level pooled learning curve over all graded students. */
+  cohortAnalysis: CohortAnalysisResult;
+  /** Near-duplicate accepted queries across students, per task. */
+  similarity: QuerySimilarityResult;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing and validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a JSON or YAML export into an ExportPayload.
+ * Format is picked from the file extension; anything else is tried as JSON.
+ * Throws if the content is malformed or the schema version is unsupported.
+ */
+export function parseExportPayload(content: string, source: string): ExportPayload {
+  const isYaml = /\.ya?ml$/i.test(source);
+
+  let raw: unknown;
+  try {
+    raw = isYaml ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Could not parse ${isYaml ? 'YAML' : 'JSON'}: ${message}`);
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Export is empty or not an object.');
+  }
+
+  const payload = raw as Partial<ExportPayload>;
+
+  validateSchemaVersion(payload.metadata?.schemaVersion);
+
+  if (!payload.student || typeof payload.student.studentName !== 'string') {
+    throw new Error('Export is missing student information.');
+  }
+  if (!Array.isArray(payload.observations)) {
+    throw new Error('Export is missing the observations array.');
+  }
+  payload.observations.forEach((o, idx) => validateObservation(o, idx));
+  if (payload.attempts !== undefined) {
+    if (!Array.isArray(payload.attempts)) {
+      throw new Error('Export attempts must be an array.');
+    }
+    payload.attempts.forEach((a, idx) => validateAttempt(a, idx));
+  }
+
+  return payload as ExportPayload;
+}
+
+/**
+ * Exports are compatible when their major version matches the app's.
+ * Minor/patch bumps only add fields.
+ */
+export function validateSchemaVersion(version: unknown): void {
+  if (typeof version !== 'string' || !/^\d+\.\d+\.\d+$/.test(version)) {
+    throw new Error(`Missing or malformed metadata.schemaVersion (${JSON.stringify(version)}).`);
+  }
+
+  const supportedMajor = SCHEMA_VERSION.split('.')[0];
+  if (version.split('.')[0] !== supportedMajor) {
+    throw new Error(`Unsupported schemaVersion ${version} (expected ${supportedMajor}.x).`);
+  }
+}
+
+function validateObservation(o: ExportObservation, idx: number): void {
+  const numericFields = ['round', 'query_num', 'query_sequence', 'time_sec', 'total_attempts'] as const;
+  for (const field of numericFields) {
+    if (typeof o?.[field] !== 'number' || !Number.isFinite(o[field])) {
+      throw new Error(`Observation ${idx + 1} has an invalid ${field}.`);
+    }
+  }
+  if (typeof o.task_id !== 'string') {
+    throw new Error(`Observation ${idx + 1} has an invalid task_id.`);
+  }
+}
+
+function validateAttempt(a: ExportAttempt, idx: number): void {
+  const numericFields = ['round', 'query_num', 'query_sequence', 'attempt_num', 'time_sec'] as const;
+  for (const field of numericFields) {
+    if (typeof a?.[field] !== 'number' || !Number.isFinite(a[field])) {
+      throw new Error(`Attempt ${idx + 1} has an invalid ${field}.`);
+    }
+  }
+  if (typeof a.task_id !== 'string' || typeof a.is_correct !== 'boolean') {
+    throw new Error(`Attempt ${idx + 1} has an invalid task_id or is_correct.`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Session reconstruction
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild a StudySession from an export.
+ *
+ * 2.2+ exports carry every attempt, which are restored as recorded. Older
+ * exports only have observations: each becomes one correct attempt, preceded
+ * by `total_attempts - 1` placeholder incorrect attempts; analysis only
+ * counts those, so their time is zero.
+ *
+ * 2.0 exports have no wall/active split; their time_sec is wall time and is
+ * used for both.
+ */
+export function sessionFromPayload(payload: ExportPayload): StudySession {
+  const studentInfo: StudentInfo = {
+    studentName: payload.student.studentName,
+    sqlExpertise: clampExpertise(payload.student.sqlExpertise),
+  };
+
+  const observations = [...payload.observations].sort((a, b) => a.query_sequence - b.query_sequence);
+  const attempts = Array.isArray(payload.attempts) && payload.attempts.length > 0
+    ? attemptsFromTable(payload.attempts, studentInfo)
+    : attemptsFromObservations(observations, studentInfo);
+
+  return {
+    studentInfo,
+    currentRound: observations[observations.length - 1]?.round ?? 1,
+    currentQuery: observations[observations.length - 1]?.query_num ?? 1,
+    attempts,
+    taskStartTime: null,
+    isComplete: true,
+    ...(payload.metadata?.seedConfig && { seedConfig: payload.metadata.seedConfig }),
+  };
+}
+
+function attemptsFromTable(rows: ExportAttempt[], studentInfo: StudentInfo): TaskAttempt[] {
+  const totals = new Map<string, number>();
+  for (const r of rows) totals.set(r.task_id, (totals.get(r.task_id) ?? 0) + 1);
+
+  return rows.map((r) => {
+    const wallTimeSec = r.wall_time_sec ?? r.time_sec;
+    return {
+      studentName: studentInfo.studentName,
+      sqlExpertise: studentInfo.sqlExpertise,
+      round: r.round,
+      queryNum: r.query_num,
+      taskId: r.task_id,
+      querySequence: r.query_sequence,
+      attemptNum: r.attempt_num,
+      timeSec: wallTimeSec,
+      wallTimeSec,
+      activeTimeSec: r.active_time_sec ?? wallTimeSec,
+      totalAttempts: totals.get(r.task_id) ?? 1,
+      submittedQuery: r.submitted_query ?? '',
+      completedAt: r.completed_at,
+      isCorrect: r.is_correct,
+      failureReason: r.failure_reason ?? undefined,
+      ...(r.outcome && { outcome: r.outcome }),
+    };
+  });
+}
+
+function attemptsFromObservations(observations: ExportObservation[], studentInfo: StudentInfo): TaskAttempt[] {
+  const attempts: TaskAttempt[] = [];
+
+  for (const o of observations) {
+    const wallTimeSec = o.wall_time_sec ?? o.time_sec;
+    const totalAttempts = Math.max(1, Math.round(o.total_attempts));
+    const base = {
+      studentName: studentInfo.studentName,
+      sqlExpertise: studentInfo.sqlExpertise,
+      round: o.round,
+      queryNum: o.query_num,
+      taskId: o.task_id,
+      querySequence: o.query_sequence,
+      totalAttempts,
+      completedAt: o.completed_at,
+    };
+
+    for (let n = 1; n < totalAttempts; n++) {
+      attempts.push({ ...base, attemptNum: n, timeSec: 0, submittedQuery: '', isCorrect: false });
+    }
+    attempts.push({
+      ...base,
+      attemptNum: totalAttempts,
+      timeSec: wallTimeSec,
+      wallTimeSec,
+      activeTimeSec: o.active_time_sec ?? wallTimeSec,
+      submittedQuery: o.submitted_query ?? '',
+      isCorrect: true,
+    });
+  }
+
+  return attempts;
+}
+
+function clampExpertise(value: unknown): StudentInfo['sqlExpertise'] {
+  const n = typeof value === 'number' ? Math.round(value) : 0;
+  return Math.min(3, Math.max(0, n)) as StudentInfo['sqlExpertise'];
+}
+
+// ---------------------------------------------------------------------------
+// Grading
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-analyze and re-grade a single parsed export. `analysisOptions.timeBasis`
+ * picks wall-clock or active time regardless of what the student exported.
+ */
+export function gradeSubmission(
+  payload: ExportPayload,
+  source: string,
+  config: Partial<RubricConfig> = {},
+  analysisOptions: AnalysisOptions = {}
+): CohortStudentResult {
+  const session = sessionFromPayload(payload);
+  const analysis = analyzeSession(session, analysisOptions);
+  const integrity = verifyExportIntegrity(payload);
+  const grading = appendFlags(
+    gradeSession(analysis, config),
+    integrityFlags(integrity, payload)
+  );
+
+  return {
+    source,
+    studentName: payload.student.studentName,
+    sqlExpertise: session.studentInfo?.sqlExpertise ?? 0,
+    schemaVersion: payload.metadata.schemaVersion,
+    seedConfigHash: payload.metadata.seedConfigHash ?? null,
+    session,
+    analysis,
+    grading,
+    integrity,
+  };
+}
+
+/**
+ * Exports from schema 2.3 on always carry an integrity block. The declared
+ * version isn't signed, so fields only newer apps write also count: the seed
+ * config (2.4), plan columns (2.5) and attempt outcomes (2.6).
+ */
+function integrityRequired(payload: ExportPayload): boolean {
+  const [major, minor] = payload.metadata.schemaVersion.split('.').map(Number);
+  if (major > 2 || (major === 2 && minor >= 3)) return true;
+
+  const rows: object[] = [...(payload.attempts ?? []), ...(payload.observations ?? [])];
+  return payload.metadata.seedConfig !== undefined
+    || payload.metadata.seedConfigHash !== undefined
+    || rows.some((row) => 'outcome' in row || 'plan_full_scans' in row || 'plan_indexes' in row);
+}
+
+/**
+ * Tampering is critical, and so is a missing block or a fully unchained
+ * export from schema 2.3 on: stripping the block must not hide an edit. For
+ * older exports, and a partial chain (a session started before 2.3), it is
+ * only a warning.
+ */
+function integrityFlags(check: IntegrityCheck, payload: ExportPayload): GradingFlag[] {
+  switch (check.status) {
+    case 'tampered':
+      return [{
+        severity: 'critical',
+        code: 'INTEGRITY_MISMATCH',
+        message: `Export failed integrity check: ${check.problems.join(' ')}`,
+      }];
+    case 'missing':
+      if (integrityRequired(payload)) {
+        return [{
+          severity: 'critical',
+          code: 'INTEGRITY_MISSING',
+          message: `Schema 2.3+ export has no verifiable integrity data: ${check.problems.join(' ')}`,
+        }];
+      }
+      return [{
+        severity: 'warning',
+        code: 'INTEGRITY_UNVERIFIED',
+        message: `Export could not be fully verified: ${check.problems.join(' ')}`,
+      }];
+    case 'partial':
+      return [{
+        severity: 'warning',
+        code: 'INTEGRITY_UNVERIFIED',
+        message: `Export could not be fully verified: ${check.problems.join(' ')}`,
+      }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parse and grade a batch of export files. Files that fail to parse or
+ * validate are collected in `errors` instead of aborting the batch.
+ * Students are returned sorted by name.
+ */
+export function gradeCohort(
+  files: CohortFile[],
+  config: Partial<RubricConfig> = {},
+  analysisOptions: AnalysisOptions = {},
+  similarityOptions: SimilarityOptions = {}
+): CohortGradingResult {
+  const students: CohortStudentResult[] = [];
+  const errors: CohortFileError[] = [];
+
+  for (const file of files) {
+    try {
+      const payload = parseExportPayload(file.content, file.source);
+      students.push(gradeSubmission(payload, file.source, config, analysisOptions));
+    } catch (error) {
+      errors.push({
+        source: file.source,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  students.sort((a, b) => a.studentName.localeCompare(b.studentName) || a.source.localeCompare(b.source));
+
+  return {
+    students,
+    errors,
+    cohortAnalysis: analyzeCohort(students.map((s) => s.session), analysisOptions),
+    similarity: analyzeQuerySimilarity(students, similarityOptions),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Output builders
+// ---------------------------------------------------------------------------
+
+const ROSTER_HEADERS = [
+  'source_file',
+  'student_name',
+  'sql_expertise',
+  'completed_tasks',
+  'total_attempts',
+  'total_time_sec',
+  'learning_exponent',
+  'exponent_p_value',
+  'learning_rate',
+  'r_squared',
+  'best_model',
+  'total_score',
+  'letter_grade',
+  'flags',
+  'integrity',
+  'status',
+];
+
+/**
+ * One row per submission. Rejected files are listed with status "error: ..."
+ * so nothing silently drops off the roster.
+ */
+export function buildRosterCsv(result: CohortGradingResult): string {
+  const rows = result.students.map((s) => {
+    const lc = s.analysis.learningCurve;
+    const stats = s.analysis.overallStats;
+    return [
+      csvEscape(s.source),
+      csvEscape(s.studentName),
+      s.sqlExpertise,
+      stats.completedTasks,
+      stats.totalAttempts,
+      stats.totalTimeSec.toFixed(2),
+      lc ? lc.exponent : '',
+      lc?.exponentPValue ?? '',
+      lc ? lc.learningRate : '',
+      lc ? lc.rSquared : '',
+      lc ? lc.bestModel : '',
+      s.grading.totalScore,
+      s.grading.letterGrade,
+      csvEscape(s.grading.flags.map((f) => f.code).join(';')),
+      s.integrity.status,
+      'ok',
+    ];
+  });
+
+  for (const e of result.errors) {
+    rows.push([
+      csvEscape(e.source),
+      '', '', '', '', '', '', '', '', '', '', '', '', '', '',
+      csvEscape(`error: ${e.message}`),
+    ]);
+  }
+
+  return [ROSTER_HEADERS.join(','), ...rows.map((row) => row.join(','))].join('\n');
+}
+
+const REVIEW_PAIR_HEADERS = [
+  'student_a',
+  'source_a',
+  'student_b',
+  'source_b',
+  'task_count',
+  'task_ids',
+  'mean_similarity',
+  'evidence',
+];
+
+/**
+ * One row per pair of students with near-duplicate queries, most tasks first.
+ */
+export function buildReviewPairsCsv(similarity: QuerySimilarityResult): string {
+  const rows = similarity.reviewPairs.map((p) => [
+    csvEscape(p.a.studentName),
+    csvEscape(p.a.source),
+    csvEscape(p.b.studentName),
+    csvEscape(p.b.source),
+    p.taskIds.length,
+    csvEscape(p.taskIds.join(';')),
+    p.meanSimilarity,
+    csvEscape(p.evidence.join(';')),
+  ]);
+  return [REVIEW_PAIR_HEADERS.join(','), ...rows.map((row) => row.join(','))].join('\n');
+}
+
+/**
+ * Per-student detail document (written as JSON next to the roster).
+ */
+export function buildStudentDetail(student: CohortStudentResult) {
+  return {
+    source: student.source,
+    student: {
+      studentName: student.studentName,
+      sqlExpertise: student.sqlExpertise,
+    },
+    schemaVersion: student.schemaVersion,
+    seedConfigHash: student.seedConfigHash,
+    seedConfig: student.session.seedConfig ?? null,
+    gradedAt: new Date().toISOString(),
+    integrity: student.integrity,
+    grading: student.grading,
+    analysis: student.analysis,
+  };
+}
+
+/**
+ * File name for a student's detail document, derived from the full source file
+ * name (extension included) so two exports never collide — not even the JSON
+ * and YAML export of the same session.
+ */
+export function studentDetailFileName(student: CohortStudentResult): string {
+  const base = student.source.replace(/^.*[\\/]/, '');
+  return `${base.replace(/[^a-zA-Z0-9._-]/g, '_')}.detail.json`;
+}
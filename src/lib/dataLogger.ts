@@ -1,9 +1,14 @@
 import yaml from 'js-yaml';
-import type { TaskAttempt, StudySession, StudentInfo } from '@/types';
+import type { TaskAttempt, StudySession, StudentInfo, AttemptOutcome } from '@/types';
+import { DEFAULT_SEED_CONFIG, seedConfigForStudent, seedConfigHash } from '@/data/seed';
+import type { SeedConfig } from '@/data/seed';
 import { analyzeSession } from './analysis';
 import { gradeSession } from './grading';
-import type { AnalysisResult } from './analysis';
+import type { AnalysisResult, TimeBasis } from './analysis';
 import type { GradingResult } from './grading';
+import { chainAttempt, chainGenesis, signPayload } from './integrity';
+import type { ExportIntegrity } from './integrity';
+import type { QueryPlanSummary } from './queryPlan';
 
 // ---------------------------------------------------------------------------
 // Export format type
@@ -11,6 +16,13 @@ import type { GradingResult } from './grading';
 
 export type ExportFormat = 'csv' | 'json' | 'yaml';
 
+export interface ExportOptions {
+  /** Clock used for `time_sec` and the embedded analysis (default 'wall'). */
+  timeBasis?: TimeBasis;
+  /** CSV only: also download the attempt-level table as a second file. */
+  includeAttempts?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Structured export payload (used by JSON and YAML)
 // ---------------------------------------------------------------------------
@@ -22,6 +34,12 @@ export interface ExportPayload {
     exportedAt: string;
     appVersion: string;
     description: string;
+    /** Which clock `time_sec` reports. Absent in 2.0 exports (always wall). */
+    timeBasis: TimeBasis;
+    /** Dataset the queries ran against. Added in 2.4. */
+    seedConfig: SeedConfig;
+    /** seedConfigHash(seedConfig): equal hashes mean identical data. Added in 2.4. */
+    seedConfigHash: string;
   };
   student: {
     studentName: string;
@@ -29,8 +47,12 @@ export interface ExportPayload {
     expertiseLabel: string;
   };
   observations: ExportObservation[];
+  /** Every submission, correct or not, in the order they were made. Added in 2.2. */
+  attempts: ExportAttempt[];
   analysis: AnalysisResult;
   grading: GradingResult;
+  /** Attempt hash chain and MAC over the study data. Added in 2.3. */
+  integrity: ExportIntegrity;
   /** R / Python usage hints embedded in the export */
   usageHints: {
     r: string;
@@ -45,10 +67,45 @@ export interface ExportObservation {
   query_num: number;
   task_id: string;
   query_sequence: number;
+  /** wall_time_sec or active_time_sec, per metadata.timeBasis. */
   time_sec: number;
+  wall_time_sec: number;
+  active_time_sec: number;
   total_attempts: number;
   submitted_query: string;
   completed_at: string;
+  /** Tables read in full, ";"-separated; null when no plan was logged. Added in 2.5. */
+  plan_full_scans: string | null;
+  /** Indexes used, ";"-separated; null when no plan was logged. Added in 2.5. */
+  plan_indexes: string | null;
+}
+
+/** One row per submission — the attempt-level counterpart of ExportObservation. */
+export interface ExportAttempt {
+  student_name: string;
+  sql_expertise: number;
+  round: number;
+  query_num: number;
+  task_id: string;
+  query_sequence: number;
+  attempt_num: number;
+  /** Elapsed time since task start, per metadata.timeBasis. */
+  time_sec: number;
+  wall_time_sec: number;
+  active_time_sec: number;
+  /** Time since the previous attempt on this task (or task start), per metadata.timeBasis. */
+  time_since_previous_sec: number;
+  is_correct: boolean;
+  /** 'correct', 'incorrect', or 'wrong_technique' (right result, task's concept rules broken). Added in 2.6. */
+  outcome: AttemptOutcome;
+  /** Comparison failure reason; null for correct attempts. */
+  failure_reason: string | null;
+  submitted_query: string;
+  completed_at: string;
+  /** Tables read in full, ";"-separated; null when no plan was logged. Added in 2.5. */
+  plan_full_scans: string | null;
+  /** Indexes used, ";"-separated; null when no plan was logged. Added in 2.5. */
+  plan_indexes: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -56,7 +113,7 @@ export interface ExportObservation {
 // ---------------------------------------------------------------------------
 
 const STORAGE_KEY = 'sql-time-study-session';
-const SCHEMA_VERSION = '2.0.0';
+export const SCHEMA_VERSION = '2.6.0';
 const APP_VERSION = '1.1.0';
 
 const EXPERTISE_LABELS: Record<number, string> = {
@@ -112,23 +169,32 @@ export function saveSession(session: StudySession): void {
 }
 
 /**
- * Start a new session with student info.
+ * Start a new session with student info. The dataset defaults to one seeded
+ * from the student's name, so classmates can't share numeric answers; the
+ * config is stored on the session and exported so a grader can rebuild it.
  */
-export function startSession(studentInfo: StudentInfo): StudySession {
+export function startSession(
+  studentInfo: StudentInfo,
+  seedConfig: SeedConfig = seedConfigForStudent(studentInfo.studentName)
+): StudySession {
   const session: StudySession = {
     studentInfo,
     currentRound: 1,
     currentQuery: 1,
     attempts: [],
     taskStartTime: Date.now(),
+    inactiveIntervals: [],
     isComplete: false,
+    seedConfig,
   };
   saveSession(session);
   return session;
 }
 
 /**
- * Log a completed task attempt.
+ * Log a completed task attempt. `timeSec` is wall-clock time; `activeTimeSec`
+ * excludes inactive periods and defaults to the wall time when not tracked.
+ * `outcome` defaults to 'correct' or 'incorrect' per `isCorrect`.
  */
 export function logAttempt(
   session: StudySession,
@@ -137,7 +203,11 @@ export function logAttempt(
   submittedQuery: string,
   timeSec: number,
   attemptNum: number,
-  isCorrect: boolean
+  isCorrect: boolean,
+  activeTimeSec: number = timeSec,
+  failureReason?: string,
+  queryPlan?: QueryPlanSummary,
+  outcome: AttemptOutcome = isCorrect ? 'correct' : 'incorrect'
 ): StudySession {
   if (!session.studentInfo) return session;
 
@@ -154,11 +224,25 @@ export function logAttempt(
     querySequence,
     attemptNum,
     timeSec,
+    wallTimeSec: timeSec,
+    activeTimeSec,
     totalAttempts: attemptNum, // Will be updated on final completion
     submittedQuery,
     completedAt: new Date().toISOString(),
     isCorrect,
+    outcome,
+    failureReason: isCorrect ? undefined : failureReason,
+    queryPlan,
   };
+  // The chain starts at genesis only while nothing is chained yet. If the last
+  // link is gone but an earlier one exists, the log was edited: leave this
+  // attempt unchained so the grader sees the gap instead of a fresh chain.
+  const last = session.attempts[session.attempts.length - 1];
+  if (last?.chainHash) {
+    attempt.chainHash = chainAttempt(last.chainHash, attempt);
+  } else if (!session.attempts.some((a) => a.chainHash)) {
+    attempt.chainHash = chainAttempt(chainGenesis(session.studentInfo), attempt);
+  }
 
   const updatedSession = {
     ...session,
@@ -183,6 +267,7 @@ export function advanceSession(
     currentRound: nextRound,
     currentQuery: nextQuery,
     taskStartTime: isComplete ? null : Date.now(),
+    inactiveIntervals: [],
     isComplete,
   };
   saveSession(updatedSession);
@@ -201,7 +286,10 @@ export function clearSession(): void {
 // Prepare final observations (shared across all formats)
 // ---------------------------------------------------------------------------
 
-export function prepareFinalObservations(session: StudySession): ExportObservation[] {
+export function prepareFinalObservations(
+  session: StudySession,
+  timeBasis: TimeBasis = 'wall'
+): ExportObservation[] {
   if (!session.studentInfo || session.attempts.length === 0) {
     return [];
   }
@@ -222,18 +310,26 @@ export function prepareFinalObservations(session: StudySession): ExportObservati
   }
 
   // Build final observations with updated attempt counts
-  const observations = Array.from(successfulAttempts.values()).map((a) => ({
-    student_name: a.studentName,
-    sql_expertise: a.sqlExpertise,
-    round: a.round,
-    query_num: a.queryNum,
-    task_id: a.taskId,
-    query_sequence: a.querySequence,
-    time_sec: parseFloat(a.timeSec.toFixed(2)),
-    total_attempts: attemptCounts.get(a.taskId) || 1,
-    submitted_query: a.submittedQuery,
-    completed_at: a.completedAt,
-  }));
+  const observations: ExportObservation[] = Array.from(successfulAttempts.values()).map((a) => {
+    const wallTimeSec = parseFloat(a.timeSec.toFixed(2));
+    const activeTimeSec = parseFloat((a.activeTimeSec ?? a.timeSec).toFixed(2));
+    return {
+      student_name: a.studentName,
+      sql_expertise: a.sqlExpertise,
+      round: a.round,
+      query_num: a.queryNum,
+      task_id: a.taskId,
+      query_sequence: a.querySequence,
+      time_sec: timeBasis === 'active' ? activeTimeSec : wallTimeSec,
+      wall_time_sec: wallTimeSec,
+      active_time_sec: activeTimeSec,
+      total_attempts: attemptCounts.get(a.taskId) || 1,
+      submitted_query: a.submittedQuery,
+      completed_at: a.completedAt,
+      plan_full_scans: a.queryPlan ? a.queryPlan.fullScans.join(';') : null,
+      plan_indexes: a.queryPlan ? a.queryPlan.indexes.join(';') : null,
+    };
+  });
 
   // Sort by query sequence
   observations.sort((a, b) => a.query_sequence - b.query_sequence);
@@ -241,14 +337,68 @@ export function prepareFinalObservations(session: StudySession): ExportObservati
   return observations;
 }
 
+// ---------------------------------------------------------------------------
+// Prepare attempt rows (every submission, not just the last correct one)
+// ---------------------------------------------------------------------------
+
+export function prepareAttemptRows(
+  session: StudySession,
+  timeBasis: TimeBasis = 'wall'
+): ExportAttempt[] {
+  if (!session.studentInfo) return [];
+
+  const previousTime = new Map<string, number>();
+
+  return session.attempts.map((a) => {
+    const wallTimeSec = parseFloat(a.timeSec.toFixed(2));
+    const activeTimeSec = parseFloat((a.activeTimeSec ?? a.timeSec).toFixed(2));
+    const timeSec = timeBasis === 'active' ? activeTimeSec : wallTimeSec;
+    const sincePrevious = timeSec - (previousTime.get(a.taskId) ?? 0);
+    previousTime.set(a.taskId, timeSec);
+
+    return {
+      student_name: a.studentName,
+      sql_expertise: a.sqlExpertise,
+      round: a.round,
+      query_num: a.queryNum,
+      task_id: a.taskId,
+      query_sequence: a.querySequence,
+      attempt_num: a.attemptNum,
+      time_sec: timeSec,
+      wall_time_sec: wallTimeSec,
+      active_time_sec: activeTimeSec,
+      time_since_previous_sec: parseFloat(sincePrevious.toFixed(2)),
+      is_correct: a.isCorrect,
+      outcome: a.outcome ?? (a.isCorrect ? 'correct' : 'incorrect'),
+      failure_reason: a.isCorrect ? null : a.failureReason ?? null,
+      submitted_query: a.submittedQuery,
+      completed_at: a.completedAt,
+      plan_full_scans: a.queryPlan ? a.queryPlan.fullScans.join(';') : null,
+      plan_indexes: a.queryPlan ? a.queryPlan.indexes.join(';') : null,
+    };
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Build structured export payload
 // ---------------------------------------------------------------------------
 
-export function buildExportPayload(session: StudySession, format: ExportFormat): ExportPayload {
-  const observations = prepareFinalObservations(session);
-  const analysis = analyzeSession(session);
+export function buildExportPayload(
+  session: StudySession,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportPayload {
+  const timeBasis = options.timeBasis ?? 'wall';
+  const observations = prepareFinalObservations(session, timeBasis);
+  const analysis = analyzeSession(session, { timeBasis });
   const grading = gradeSession(analysis);
+  const student = {
+    studentName: session.studentInfo?.studentName || 'unknown',
+    sqlExpertise: session.studentInfo?.sqlExpertise ?? 0,
+    expertiseLabel: EXPERTISE_LABELS[session.studentInfo?.sqlExpertise ?? 0] || 'Unknown',
+  };
+  const attempts = prepareAttemptRows(session, timeBasis);
+  const seedConfig = session.seedConfig ?? DEFAULT_SEED_CONFIG;
 
   return {
     metadata: {
@@ -257,15 +407,20 @@ export function buildExportPayload(session: StudySession, format: ExportFormat):
       exportedAt: new Date().toISOString(),
       appVersion: APP_VERSION,
       description: 'SQL Time Study Lab — EIND 313 Work Design & Analysis',
+      timeBasis,
+      seedConfig,
+      seedConfigHash: seedConfigHash(seedConfig),
     },
-    student: {
-      studentName: session.studentInfo?.studentName || 'unknown',
-      sqlExpertise: session.studentInfo?.sqlExpertise ?? 0,
-      expertiseLabel: EXPERTISE_LABELS[session.studentInfo?.sqlExpertise ?? 0] || 'Unknown',
-    },
+    student,
     observations,
+    attempts,
     analysis,
     grading,
+    integrity: {
+      algorithm: 'HMAC-SHA256',
+      attemptChain: session.attempts.map((a) => a.chainHash ?? null),
+      payloadMac: signPayload({ student, observations, attempts }),
+    },
     usageHints: {
       r: [
         '# R: Load and analyze',
@@ -274,6 +429,8 @@ export function buildExportPayload(session: StudySession, format: ExportFormat):
         'obs <- as.data.frame(data$observations)',
         'fit <- lm(log(time_sec) ~ log(query_sequence) + sql_expertise + round, data=obs)',
         'summary(fit)  # learning exponent = coef on log(query_sequence)',
+        '# Swap in active_time_sec to drop hidden-tab and idle time',
+        '# Every submission (incl. wrong ones): as.data.frame(data$attempts)',
       ].join('\n'),
       python: [
         '# Python: Load and analyze',
@@ -283,7 +440,7 @@ export function buildExportPayload(session: StudySession, format: ExportFormat):
         '    data = json.load(f)',
         'df = pd.DataFrame(data["observations"])',
         'slope, intercept, r, p, se = stats.linregress(np.log(df.query_sequence), np.log(df.time_sec))',
-        'print(f"Learning exponent: {slope:.3f}, Rate: {2**slope:.1%}, R²: {r**2:.3f}")',
+        'print(f"Learning exponent: {slope:.3f} (SE {se:.3f}, p={p:.4f}), Rate: {2**slope:.1%}, R²: {r**2:.3f}")',
       ].join('\n'),
     },
   };
@@ -297,8 +454,8 @@ export function buildExportPayload(session: StudySession, format: ExportFormat):
  * Export session data as CSV string.
  * Now includes submitted_query column.
  */
-export function exportToCsv(session: StudySession): string {
-  const observations = prepareFinalObservations(session);
+export function exportToCsv(session: StudySession, options: ExportOptions = {}): string {
+  const observations = prepareFinalObservations(session, options.timeBasis);
   if (observations.length === 0) return '';
 
   const headers = [
@@ -309,6 +466,8 @@ export function exportToCsv(session: StudySession): string {
     'task_id',
     'query_sequence',
     'time_sec',
+    'wall_time_sec',
+    'active_time_sec',
     'total_attempts',
     'submitted_query',
     'completed_at',
@@ -322,6 +481,8 @@ export function exportToCsv(session: StudySession): string {
     o.task_id,
     o.query_sequence,
     o.time_sec.toFixed(2),
+    o.wall_time_sec.toFixed(2),
+    o.active_time_sec.toFixed(2),
     o.total_attempts,
     csvEscape(o.submitted_query),
     o.completed_at,
@@ -333,8 +494,64 @@ export function exportToCsv(session: StudySession): string {
   ].join('\n');
 }
 
+/**
+ * Attempt-level CSV: one row per submission, including wrong ones, with the
+ * comparison failure reason. Written as a second file next to the main CSV.
+ */
+export function exportAttemptsToCsv(session: StudySession, options: ExportOptions = {}): string {
+  const attempts = prepareAttemptRows(session, options.timeBasis);
+  if (attempts.length === 0) return '';
+
+  const headers = [
+    'student_name',
+    'sql_expertise',
+    'round',
+    'query_num',
+    'task_id',
+    'query_sequence',
+    'attempt_num',
+    'time_sec',
+    'wall_time_sec',
+    'active_time_sec',
+    'time_since_previous_sec',
+    'is_correct',
+    'outcome',
+    'failure_reason',
+    'submitted_query',
+    'completed_at',
+    'plan_full_scans',
+    'plan_indexes',
+  ];
+
+  const rows = attempts.map((a) => [
+    a.student_name,
+    a.sql_expertise,
+    a.round,
+    a.query_num,
+    a.task_id,
+    a.query_sequence,
+    a.attempt_num,
+    a.time_sec.toFixed(2),
+    a.wall_time_sec.toFixed(2),
+    a.active_time_sec.toFixed(2),
+    a.time_since_previous_sec.toFixed(2),
+    a.is_correct ? 1 : 0,
+    a.outcome,
+    csvEscape(a.failure_reason ?? ''),
+    csvEscape(a.submitted_query),
+    a.completed_at,
+    csvEscape(a.plan_full_scans ?? ''),
+    csvEscape(a.plan_indexes ?? ''),
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map((row) => row.join(',')),
+  ].join('\n');
+}
+
 /** Escape a value for CSV. Wraps in quotes if it contains commas, quotes, or newlines. */
-function csvEscape(value: string): string {
+export function csvEscape(value: string): string {
   if (value.includes(',') || value.includes('"') || value.includes('\n') || value.includes('\r')) {
     return `"${value.replace(/"/g, '""')}"`;
   }
@@ -348,8 +565,8 @@ function csvEscape(value: string): string {
 /**
  * Export session data as formatted JSON string with full analysis and grading.
  */
-export function exportToJson(session: StudySession): string {
-  const payload = buildExportPayload(session, 'json');
+export function exportToJson(session: StudySession, options: ExportOptions = {}): string {
+  const payload = buildExportPayload(session, 'json', options);
   return JSON.stringify(payload, null, 2);
 }
 
@@ -360,8 +577,8 @@ export function exportToJson(session: StudySession): string {
 /**
  * Export session data as YAML string with full analysis and grading.
  */
-export function exportToYaml(session: StudySession): string {
-  const payload = buildExportPayload(session, 'yaml');
+export function exportToYaml(session: StudySession, options: ExportOptions = {}): string {
+  const payload = buildExportPayload(session, 'yaml', options);
   return yaml.dump(payload, {
     indent: 2,
     lineWidth: 120,
@@ -387,34 +604,51 @@ const EXTENSIONS: Record<ExportFormat, string> = {
 };
 
 /**
- * Export and trigger browser download in the specified format.
+ * Export and trigger browser download in the specified format. For CSV,
+ * `includeAttempts` adds a second `-attempts.csv` download.
  */
-export function downloadFile(session: StudySession, format: ExportFormat): void {
+export function downloadFile(
+  session: StudySession,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): void {
   let content: string;
   switch (format) {
     case 'csv':
-      content = exportToCsv(session);
+      content = exportToCsv(session, options);
       break;
     case 'json':
-      content = exportToJson(session);
+      content = exportToJson(session, options);
       break;
     case 'yaml':
-      content = exportToYaml(session);
+      content = exportToYaml(session, options);
       break;
   }
 
   if (!content) return;
 
-  const blob = new Blob([content], { type: MIME_TYPES[format] });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-
   const studentName = session.studentInfo?.studentName || 'unknown';
   const safeName = studentName.replace(/[^a-zA-Z0-9_-]/g, '_');
   const date = new Date().toISOString().split('T')[0];
+  const baseName = `sql-time-study-${safeName}-${date}`;
+
+  triggerDownload(content, `${baseName}.${EXTENSIONS[format]}`, MIME_TYPES[format]);
+
+  if (format === 'csv' && options.includeAttempts) {
+    const attemptsCsv = exportAttemptsToCsv(session, options);
+    if (attemptsCsv) {
+      triggerDownload(attemptsCsv, `${baseName}-attempts.csv`, MIME_TYPES.csv);
+    }
+  }
+}
+
+function triggerDownload(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
 
   link.setAttribute('href', url);
-  link.setAttribute('download', `sql-time-study-${safeName}-${date}.${EXTENSIONS[format]}`);
+  link.setAttribute('download', fileName);
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
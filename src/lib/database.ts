@@ -1,94 +1,198 @@
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
-import { SCHEMA_SQL } from '@/data/schema';
-import { generateSeedSQL } from '@/data/seed';
 import type { QueryResult } from '@/types';
-
-let db: SqlJsDatabase | null = null;
-let initPromise: Promise<SqlJsDatabase> | null = null;
+import { DEFAULT_SEED_CONFIG, seedConfigHash } from '@/data/seed';
+import type { SeedConfig } from '@/data/seed';
+import { classifySql } from './sqlClassifier';
+import type { QueryTarget, WorkerRequest, WorkerResponse } from './database.worker';
 
 /**
- * Initialize the sql.js database with schema and seed data.
- * Returns a singleton database instance.
+ * sql.js runs in a dedicated worker (database.worker.ts) so a slow query never
+ * freezes the page. A query that runs past its timeout, or is cancelled, can't
+ * be interrupted inside sql.js — the worker is terminated and a fresh one is
+ * started, rebuilding the database from schema and seed.
+ *
+ * The database is read-only: statements that write are rejected here with an
+ * explanation (see sqlClassifier.ts), and the worker sets PRAGMA query_only.
+ * Expected queries run against a separate reference copy (executeReferenceQuery).
+ *
+ * Both copies are generated from one SeedConfig. initDatabase(config) switches
+ * datasets by replacing the worker; everything else reuses the current config.
  */
-export async function initDatabase(): Promise<SqlJsDatabase> {
-  // Return existing if available
-  if (db) return db;
 
-  // Return pending init if in progress
-  if (initPromise) return initPromise;
+/** Default per-query timeout. Override with NEXT_PUBLIC_QUERY_TIMEOUT_MS. */
+export const DEFAULT_QUERY_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_QUERY_TIMEOUT_MS) || 10_000;
 
-  // Start initialization
-  initPromise = (async () => {
-    try {
-      // Load sql.js WASM
-      const SQL = await initSqlJs({
-        locateFile: (file) => `/${file}`,
-      });
-
-      // Create new database
-      db = new SQL.Database();
-
-      // Run schema creation
-      db.run(SCHEMA_SQL);
-
-      // Generate and run seed data
-      const seedSQL = generateSeedSQL();
-      db.run(seedSQL);
-
-      console.log('Database initialized successfully');
-      return db;
-    } catch (error) {
-      console.error('Failed to initialize database:', error);
-      initPromise = null;
-      throw error;
-    }
-  })();
+export interface QueryOptions {
+  /** Stop the query after this many milliseconds (default DEFAULT_QUERY_TIMEOUT_MS). */
+  timeoutMs?: number;
+}
 
-  return initPromise;
+interface Pending {
+  onResponse: (response: WorkerResponse) => void;
+  onInterrupt: (reason: 'timeout' | 'cancelled') => void;
+}
+
+let worker: Worker | null = null;
+let initPromise: Promise<void> | null = null;
+let seedConfig: SeedConfig = DEFAULT_SEED_CONFIG;
+let seedHash = seedConfigHash(DEFAULT_SEED_CONFIG);
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+function send(request: WorkerRequest, handlers: Pending): void {
+  pending.set(request.id, handlers);
+  worker!.postMessage(request);
 }
 
 /**
- * Execute a query and return results.
+ * Start the database worker and load schema and seed data.
+ * Resolves once the database is ready; safe to call repeatedly.
+ *
+ * Pass `config` to choose the dataset. A config whose hash differs from the
+ * current one restarts the worker; omit it to keep the current dataset.
  */
-export async function executeQuery(sql: string): Promise<QueryResult> {
-  const database = await initDatabase();
+export async function initDatabase(config?: SeedConfig): Promise<void> {
+  if (config) {
+    const hash = seedConfigHash(config);
+    if (hash !== seedHash) {
+      resetDatabase();
+      seedConfig = config;
+      seedHash = hash;
+    }
+  }
+  if (initPromise) return initPromise;
 
-  try {
-    const results = database.exec(sql);
+  initPromise = new Promise<void>((resolve, reject) => {
+    worker = new Worker(new URL('./database.worker.ts', import.meta.url));
 
-    if (results.length === 0) {
-      return { columns: [], values: [] };
-    }
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const handlers = pending.get(event.data.id);
+      if (!handlers) return;
+      pending.delete(event.data.id);
+      handlers.onResponse(event.data);
+    };
 
-    // Return first result set
-    return {
-      columns: results[0].columns,
-      values: results[0].values,
+    worker.onerror = (event) => {
+      const message = event.message || 'Database worker crashed';
+      for (const [id, handlers] of pending) {
+        pending.delete(id);
+        handlers.onResponse({ id, type: 'error', error: message });
+      }
     };
+
+    send({ id: nextId++, type: 'init', config: seedConfig }, {
+      onResponse: (response) => {
+        if (response.type === 'ready') {
+          console.log('Database initialized successfully');
+          resolve();
+        } else {
+          const error = new Error(response.type === 'error' ? response.error : 'Unexpected worker response');
+          console.error('Failed to initialize database:', error);
+          stopWorker();
+          reject(error);
+        }
+      },
+      onInterrupt: () => reject(new Error('Database initialization was interrupted')),
+    });
+  });
+
+  return initPromise;
+}
+
+/** The SeedConfig the database is (or will be) built from. */
+export function getSeedConfig(): SeedConfig {
+  return seedConfig;
+}
+
+/** seedConfigHash of getSeedConfig(), e.g. for keying cached results. */
+export function getSeedConfigHash(): string {
+  return seedHash;
+}
+
+/**
+ * Execute a query and return results. Never rejects: SQL errors, rejected
+ * writes, timeouts and cancellation all come back as `error` (the last two
+ * also set `interrupted`).
+ */
+export async function executeQuery(sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+  const classification = classifySql(sql);
+  if (!classification.allowed) {
+    return { columns: [], values: [], error: classification.message! };
+  }
+  return runInWorker('student', sql, options);
+}
+
+/**
+ * Execute a trusted reference query (a task's expectedQuery) against the
+ * isolated reference database. Same result contract as executeQuery.
+ */
+export async function executeReferenceQuery(sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+  return runInWorker('reference', sql, options);
+}
+
+async function runInWorker(target: QueryTarget, sql: string, options: QueryOptions): Promise<QueryResult> {
+  try {
+    await initDatabase();
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return {
-      columns: [],
-      values: [],
-      error: message,
-    };
+    return { columns: [], values: [], error: error instanceof Error ? error.message : 'Unknown error' };
   }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+
+  return new Promise<QueryResult>((resolve) => {
+    const id = nextId++;
+    const timer = setTimeout(() => interruptQueries('timeout'), timeoutMs);
+
+    send({ id, type: 'exec', target, sql }, {
+      onResponse: (response) => {
+        clearTimeout(timer);
+        resolve(response.type === 'result'
+          ? response.result
+          : { columns: [], values: [], error: response.type === 'error' ? response.error : 'Unexpected worker response' });
+      },
+      onInterrupt: (reason) => {
+        clearTimeout(timer);
+        resolve({
+          columns: [],
+          values: [],
+          interrupted: reason,
+          error: reason === 'timeout'
+            ? `Query took too long (over ${Math.round(timeoutMs / 1000)} s) and was stopped. ` +
+              'Check your JOIN conditions — a missing ON clause multiplies every row by every row.'
+            : 'Query cancelled.',
+        });
+      },
+    });
+  });
 }
 
 /**
- * Get the database instance (must be initialized first).
+ * Stop every running query. They resolve with `interrupted: 'cancelled'`.
  */
-export function getDatabase(): SqlJsDatabase | null {
-  return db;
+export function cancelQuery(): void {
+  if (pending.size > 0) interruptQueries('cancelled');
+}
+
+function interruptQueries(reason: 'timeout' | 'cancelled'): void {
+  const interrupted = Array.from(pending.values());
+  pending.clear();
+  stopWorker();
+  for (const handlers of interrupted) handlers.onInterrupt(reason);
+
+  // Warm up a replacement so the next Run doesn't pay for it
+  initDatabase().catch(() => {});
+}
+
+function stopWorker(): void {
+  worker?.terminate();
+  worker = null;
+  initPromise = null;
 }
 
 /**
  * Reset the database (for testing).
  */
 export function resetDatabase(): void {
-  if (db) {
-    db.close();
-    db = null;
-    initPromise = null;
-  }
+  for (const handlers of pending.values()) handlers.onInterrupt('cancelled');
+  pending.clear();
+  stopWorker();
 }
@@ -0,0 +1,132 @@
+/**
+ * Web Worker that owns the sql.js database.
+ *
+ * database.exec is synchronous, so a runaway query (an accidental cross join
+ * of three large tables) blocks whatever thread it runs on. Running it here
+ * keeps the page and the editor responsive; the main thread enforces the
+ * timeout by terminating this worker and starting a fresh one.
+ *
+ * Two databases are built from the same seed: the student's, and a reference
+ * copy that only runs expected queries. Nothing a student does can reach the
+ * reference copy, so expected results stay correct.
+ *
+ * The dataset comes from the SeedConfig sent with 'init'. A worker serves one
+ * config for its lifetime; database.ts starts a new worker to change it. The
+ * built file is cached in IndexedDB (databaseCache.ts), so later page loads
+ * skip the schema and seed INSERTs.
+ *
+ * Only database.ts talks to this file.
+ */
+
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import { SCHEMA_SQL } from '@/data/schema';
+import { CLINICAL_NOW_FUNCTION, generateSeedSQL } from '@/data/seed';
+import type { SeedConfig } from '@/data/seed';
+import type { QueryResult } from '@/types';
+import { databaseCacheKey, loadCachedDatabase, saveCachedDatabase } from './databaseCache';
+
+/** Which database a query runs against. */
+export type QueryTarget = 'student' | 'reference';
+
+export type WorkerRequest =
+  | { id: number; type: 'init'; config: SeedConfig }
+  | { id: number; type: 'exec'; target: QueryTarget; sql: string };
+
+export type WorkerResponse =
+  | { id: number; type: 'ready' }
+  | { id: number; type: 'result'; result: QueryResult }
+  | { id: number; type: 'error'; error: string };
+
+const ctx = self as unknown as Worker;
+let databases: Record<QueryTarget, SqlJsDatabase> | null = null;
+
+let initPromise: Promise<Record<QueryTarget, SqlJsDatabase>> | null = null;
+
+function init(config: SeedConfig): Promise<Record<QueryTarget, SqlJsDatabase>> {
+  initPromise ??= build(config);
+  return initPromise;
+}
+
+async function build(config: SeedConfig): Promise<Record<QueryTarget, SqlJsDatabase>> {
+  const SQL = await initSqlJs({
+    locateFile: (file) => `/${file}`,
+  });
+  const open = (bytes: Uint8Array) => {
+    const database = new SQL.Database(bytes);
+    // Functions and pragmas are per connection, not stored in the file
+    database.create_function(CLINICAL_NOW_FUNCTION, () => config.clinicalNow);
+    // Queries must never change the data (see sqlClassifier.ts)
+    database.run('PRAGMA query_only = ON;');
+    return database;
+  };
+
+  const key = databaseCacheKey(SCHEMA_SQL, config);
+  // The cache fails soft, but a failed read must never stop the build
+  const cached = await loadCachedDatabase(key).catch(() => null);
+  if (cached) {
+    try {
+      databases = { student: open(cached), reference: open(cached) };
+      databases.reference.exec('SELECT COUNT(*) FROM medications');
+      return databases;
+    } catch {
+      // Unreadable entry: rebuild below, which also replaces it
+    }
+  }
+
+  const fresh = new SQL.Database();
+  fresh.run(SCHEMA_SQL);
+  fresh.run(generateSeedSQL(config));
+  const bytes = fresh.export();
+  fresh.close();
+  // Not awaited: the first query shouldn't wait on the write
+  saveCachedDatabase(key, bytes).catch(() => {});
+
+  databases = { student: open(bytes), reference: open(bytes) };
+  return databases;
+}
+
+function exec(database: SqlJsDatabase, sql: string): QueryResult {
+  try {
+    const results = database.exec(sql);
+
+    if (results.length === 0) {
+      return { columns: [], values: [] };
+    }
+
+    // Return first result set
+    return {
+      columns: results[0].columns,
+      values: results[0].values,
+    };
+  } catch (error) {
+    return {
+      columns: [],
+      values: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  let response: WorkerResponse;
+
+  try {
+    if (request.type === 'init') {
+      await init(request.config);
+      response = { id: request.id, type: 'ready' };
+    } else if (!databases) {
+      response = { id: request.id, type: 'error', error: 'Database is not initialized' };
+    } else {
+      response = { id: request.id, type: 'result', result: exec(databases[request.target], request.sql) };
+    }
+  } catch (error) {
+    response = {
+      id: request.id,
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Failed to initialize database',
+    };
+  }
+
+  ctx.postMessage(response);
+};
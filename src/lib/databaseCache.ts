@@ -0,0 +1,92 @@
+/**
+ * IndexedDB cache for the built database.
+ *
+ * Building runs SCHEMA_SQL and thousands of seed INSERTs, which takes seconds
+ * on slow machines. The worker stores the result of db.export() here and
+ * restores from it on later loads. Entries are keyed by a hash of the schema
+ * and the seed config (which covers the generator version), so changing either
+ * misses the cache; saving a new entry deletes the stale ones.
+ *
+ * Every function fails soft: without IndexedDB (private mode, tests) loads
+ * return null and saves do nothing, and the database is simply rebuilt.
+ */
+
+import { seedConfigHash } from '@/data/seed';
+import type { SeedConfig } from '@/data/seed';
+import { sha256Hex } from './hash';
+
+const DB_NAME = 'sql-time-study';
+const STORE = 'databases';
+
+/** Cache key for a schema and seed config. */
+export function databaseCacheKey(schemaSql: string, config: SeedConfig): string {
+  return `${sha256Hex(schemaSql).slice(0, 16)}:${seedConfigHash(config)}`;
+}
+
+function openCache(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    try {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch {
+      // SecurityError where storage is disabled
+      resolve(null);
+    }
+  });
+}
+
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * The stored database bytes for `key`, or null on a miss or any error.
+ */
+export async function loadCachedDatabase(key: string): Promise<Uint8Array | null> {
+  const db = await openCache();
+  if (!db) return null;
+
+  try {
+    return await new Promise<Uint8Array | null>((resolve) => {
+      try {
+        const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+        request.onsuccess = () => resolve(request.result instanceof Uint8Array ? request.result : null);
+        request.onerror = () => resolve(null);
+      } catch {
+        // NotFoundError (store missing) or InvalidStateError (connection closing)
+        resolve(null);
+      }
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Store database bytes under `key`, replacing every other entry.
+ */
+export async function saveCachedDatabase(key: string, bytes: Uint8Array): Promise<void> {
+  const db = await openCache();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    store.clear();
+    store.put(bytes, key);
+    await done(transaction);
+  } catch (error) {
+    console.warn('Could not cache the database:', error);
+  } finally {
+    db.close();
+  }
+}
@@ -12,6 +12,7 @@
  *   5. Time Performance (20%) — Reasonable task times, not suspiciously fast
  */
 
+import { LEARNING_CURVE_MODEL_LABELS } from './analysis';
 import type { AnalysisResult } from './analysis';
 
 // ---------------------------------------------------------------------------
@@ -64,6 +65,10 @@ export interface RubricConfig {
   targetExponent: number;
   /** R² threshold below which the learning curve fit is considered weak (default 0.15). */
   minRSquared: number;
+  /** Alpha for the slope t-test; p below this counts as significant learning (default 0.05). */
+  significanceLevel: number;
+  /** Score the learning curve on the refit without outlier tasks (default false). */
+  excludeOutliers: boolean;
 }
 
 const DEFAULT_CONFIG: RubricConfig = {
@@ -72,6 +77,8 @@ const DEFAULT_CONFIG: RubricConfig = {
   maxSecondsPerTask: 600,
   targetExponent: -0.3,
   minRSquared: 0.15,
+  significanceLevel: 0.05,
+  excludeOutliers: false,
 };
 
 // ---------------------------------------------------------------------------
@@ -114,6 +121,16 @@ export function gradeSession(
   };
 }
 
+/**
+ * Add flags raised outside the rubric (e.g. by the cohort integrity check)
+ * and rebuild the summary so critical ones show up in it. Scores are unchanged.
+ */
+export function appendFlags(result: GradingResult, extra: GradingFlag[]): GradingResult {
+  if (extra.length === 0) return result;
+  const flags = [...result.flags, ...extra];
+  return { ...result, flags, summary: buildSummary(result.totalScore, result.criteria, flags) };
+}
+
 // ---------------------------------------------------------------------------
 // Criterion scorers
 // ---------------------------------------------------------------------------
@@ -156,7 +173,8 @@ function scoreLearningCurve(
   flags: GradingFlag[]
 ): CriterionResult {
   const weight = 0.25;
-  const lc = analysis.learningCurve;
+  const refit = cfg.excludeOutliers ? analysis.outliers?.refit ?? null : null;
+  const lc = refit ?? analysis.learningCurve;
 
   if (!lc || lc.n < 3) {
     flags.push({
@@ -176,7 +194,8 @@ function scoreLearningCurve(
 
   // Score components:
   // - Exponent negativity (60%): How negative is the exponent?
-  // - R² goodness-of-fit (40%): How well does the model fit?
+  // - Fit (40%): Is the slope significantly negative, and how much variance
+  //   does the model explain?
 
   // Exponent scoring: target is cfg.targetExponent (e.g. -0.3).
   // Score 100 if exponent <= target, scale linearly from 0 (exponent=0) to 100 (exponent=target).
@@ -213,7 +232,41 @@ function scoreLearningCurve(
     rSquaredScore = Math.round(((lc.rSquared - cfg.minRSquared) / (0.7 - cfg.minRSquared)) * 100);
   }
 
-  const rawScore = Math.round(exponentScore * 0.6 + rSquaredScore * 0.4);
+  // Significance gates the fit score: a significant negative slope earns at
+  // least 60 even with modest R² (18 noisy points), while a non-significant
+  // slope is capped at 40 however good R² looks. Without a p-value (n < 3),
+  // fall back to R² alone.
+  const p = lc.exponentPValue;
+  const isSignificant = p !== null && lc.exponent < 0 && p < cfg.significanceLevel;
+  let fitScore: number;
+  if (p === null) {
+    fitScore = rSquaredScore;
+  } else if (isSignificant) {
+    fitScore = Math.max(60, rSquaredScore);
+  } else {
+    fitScore = Math.min(40, rSquaredScore);
+    if (lc.exponent < 0) {
+      flags.push({
+        severity: 'info',
+        code: 'NOT_SIGNIFICANT',
+        message: `Learning exponent is not significantly below 0 (p = ${formatPValue(p)}, 95% CI ${formatInterval(lc.exponentCI95)}).`,
+      });
+    }
+  }
+
+  const rawScore = Math.round(exponentScore * 0.6 + fitScore * 0.4);
+
+  // Model comparison is reported, not scored: the rubric is defined on the
+  // power-law exponent. A ΔAIC > 2 is conventionally a meaningful difference.
+  const power = lc.models.find((m) => m.model === 'power');
+  const best = lc.models.find((m) => m.model === lc.bestModel);
+  if (power && best && best.model !== 'power' && power.aic - best.aic > 2) {
+    flags.push({
+      severity: 'info',
+      code: 'ALTERNATIVE_MODEL_PREFERRED',
+      message: `${LEARNING_CURVE_MODEL_LABELS[best.model]} fits better than the power law (ΔAIC ${(power.aic - best.aic).toFixed(1)}, R² ${best.rSquared}).`,
+    });
+  }
 
   return {
     name: 'Learning Curve',
@@ -221,7 +274,7 @@ function scoreLearningCurve(
     weight,
     rawScore,
     weightedScore: round2(rawScore * weight),
-    rationale: `Exponent: ${lc.exponent} (rate: ${(lc.learningRate * 100).toFixed(1)}%), R²: ${lc.rSquared}.`,
+    rationale: `${refit ? `Outlier tasks excluded (${analysis.outliers!.outlierTaskIds.join(', ')}). ` : ''}Exponent: ${lc.exponent} (95% CI ${formatInterval(lc.exponentCI95)}, p = ${formatPValue(p)}), rate: ${(lc.learningRate * 100).toFixed(1)}%, R²: ${lc.rSquared}. Best-fitting model: ${LEARNING_CURVE_MODEL_LABELS[lc.bestModel]}.`,
   };
 }
 
@@ -332,6 +385,10 @@ function scoreTimePerformance(
     });
   }
 
+  // Residual outliers: unlike the fixed max above, these are judged against
+  // the student's own learning curve. Reported only — no score deduction.
+  flagOutliers(analysis, flags);
+
   // Score: reasonable time range gets full marks.
   // Deduct for suspiciously fast or extremely slow.
   let rawScore = 100;
@@ -369,6 +426,38 @@ function scoreTimePerformance(
   };
 }
 
+function flagOutliers(analysis: AnalysisResult, flags: GradingFlag[]): void {
+  const outliers = analysis.outliers;
+  if (!outliers || outliers.outlierTaskIds.length === 0) return;
+
+  const flagged = outliers.diagnostics.filter((d) => d.isOutlier);
+  const describe = (list: typeof flagged) =>
+    list.map((d) => `${d.taskId} (${d.timeSec}s, t = ${d.studentizedResidual})`).join(', ');
+  const before = analysis.learningCurve?.exponent;
+  const after = outliers.refit?.exponent;
+  const refitNote = before !== undefined && after !== undefined
+    ? ` Exponent ${before} with them, ${after} without.`
+    : '';
+
+  const slow = flagged.filter((d) => d.residual > 0);
+  if (slow.length > 0) {
+    flags.push({
+      severity: 'warning',
+      code: 'SLOW_OUTLIER_TASKS',
+      message: `${slow.length} task(s) far slower than the learning curve predicts — possible idle time: ${describe(slow)}.${refitNote}`,
+    });
+  }
+
+  const fast = flagged.filter((d) => d.residual < 0);
+  if (fast.length > 0) {
+    flags.push({
+      severity: 'info',
+      code: 'FAST_OUTLIER_TASKS',
+      message: `${fast.length} task(s) far faster than the learning curve predicts: ${describe(fast)}.${slow.length > 0 ? '' : refitNote}`,
+    });
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -409,6 +498,15 @@ function buildSummary(
   return summary;
 }
 
+function formatPValue(p: number | null): string {
+  if (p === null) return 'n/a';
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+}
+
+function formatInterval(ci: [number, number] | null): string {
+  return ci ? `[${ci[0]}, ${ci[1]}]` : 'n/a';
+}
+
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
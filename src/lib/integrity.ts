@@ -0,0 +1,202 @@
+/**
+ * Tamper evidence for study sessions and exports.
+ *
+ * Two layers:
+ *   1. A hash chain over attempts, extended by logAttempt as each submission
+ *      is recorded: link_i = HMAC(key, link_{i-1} + attempt_i). Editing,
+ *      inserting, deleting or reordering attempts in localStorage breaks
+ *      every link from that point on.
+ *   2. A MAC over the exported study data (student, observations, attempts),
+ *      computed by buildExportPayload. Editing the downloaded file breaks it.
+ *
+ * The key ships with the app, so this stops casual edits in devtools or a
+ * text editor — not a determined student who reads the bundle. Deployments
+ * can set NEXT_PUBLIC_INTEGRITY_KEY (and pass the same key to the grader) to
+ * avoid the default.
+ *
+ * Hashing lives in hash.ts (synchronous, because logAttempt is).
+ */
+
+import type { StudentInfo, TaskAttempt } from '@/types';
+import type { ExportAttempt, ExportPayload } from './dataLogger';
+import { canonicalJson, hmacSha256Hex } from './hash';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface ExportIntegrity {
+  algorithm: 'HMAC-SHA256';
+  /**
+   * Chain link per attempt, parallel to `attempts`. Null for attempts logged
+   * before chaining, which can only lead the list.
+   */
+  attemptChain: (string | null)[];
+  /** MAC over student, observations and attempts (canonical JSON). */
+  payloadMac: string;
+}
+
+export type IntegrityStatus = 'verified' | 'partial' | 'missing' | 'tampered';
+
+export interface IntegrityCheck {
+  /**
+   * verified: chain and MAC check out. partial: no problems, but some attempts
+   * predate chaining. missing: export has no integrity block. tampered: see problems.
+   */
+  status: IntegrityStatus;
+  problems: string[];
+}
+
+export const DEFAULT_INTEGRITY_KEY = 'sql-time-study/eind313/integrity-v1';
+
+export function getIntegrityKey(): string {
+  return process.env.NEXT_PUBLIC_INTEGRITY_KEY || DEFAULT_INTEGRITY_KEY;
+}
+
+// ---------------------------------------------------------------------------
+// Attempt chain
+// ---------------------------------------------------------------------------
+
+/** Starting link, bound to the student so chains can't be moved between exports. */
+export function chainGenesis(
+  student: Pick<StudentInfo, 'studentName'> & { sqlExpertise: number },
+  key: string = getIntegrityKey()
+): string {
+  return hmacSha256Hex(key, `genesis|${student.studentName}|${student.sqlExpertise}`);
+}
+
+/** Next chain link after `previous` for this attempt. */
+export function chainAttempt(
+  previous: string,
+  attempt: TaskAttempt,
+  key: string = getIntegrityKey()
+): string {
+  return hmacSha256Hex(key, `${previous}|${attemptFingerprint({
+    taskId: attempt.taskId,
+    querySequence: attempt.querySequence,
+    attemptNum: attempt.attemptNum,
+    wallTimeSec: attempt.timeSec,
+    activeTimeSec: attempt.activeTimeSec ?? attempt.timeSec,
+    isCorrect: attempt.isCorrect,
+    failureReason: attempt.isCorrect ? null : attempt.failureReason ?? null,
+    submittedQuery: attempt.submittedQuery,
+    completedAt: attempt.completedAt,
+  })}`);
+}
+
+function chainExportRow(previous: string, row: ExportAttempt, key: string): string {
+  return hmacSha256Hex(key, `${previous}|${attemptFingerprint({
+    taskId: row.task_id,
+    querySequence: row.query_sequence,
+    attemptNum: row.attempt_num,
+    wallTimeSec: row.wall_time_sec ?? row.time_sec,
+    activeTimeSec: row.active_time_sec ?? row.wall_time_sec ?? row.time_sec,
+    isCorrect: row.is_correct,
+    failureReason: row.failure_reason ?? null,
+    submittedQuery: row.submitted_query ?? '',
+    completedAt: row.completed_at,
+  })}`);
+}
+
+/**
+ * Only fields that survive export unchanged. Times are compared at the 2
+ * decimals the export keeps.
+ */
+function attemptFingerprint(a: {
+  taskId: string;
+  querySequence: number;
+  attemptNum: number;
+  wallTimeSec: number;
+  activeTimeSec: number;
+  isCorrect: boolean;
+  failureReason: string | null;
+  submittedQuery: string;
+  completedAt: string;
+}): string {
+  return JSON.stringify([
+    a.taskId,
+    a.querySequence,
+    a.attemptNum,
+    a.wallTimeSec.toFixed(2),
+    a.activeTimeSec.toFixed(2),
+    a.isCorrect,
+    a.failureReason,
+    a.submittedQuery,
+    a.completedAt,
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Export signing and verification
+// ---------------------------------------------------------------------------
+
+type SignedFields = Pick<ExportPayload, 'student' | 'observations' | 'attempts'>;
+
+/** MAC over the study data in an export. Analysis and grading are re-derived, so not covered. */
+export function signPayload(payload: SignedFields, key: string = getIntegrityKey()): string {
+  return hmacSha256Hex(key, canonicalJson({
+    student: payload.student,
+    observations: payload.observations,
+    attempts: payload.attempts,
+  }));
+}
+
+/**
+ * Check an export's integrity block against its contents. Reports each
+ * problem found rather than stopping at the first.
+ */
+export function verifyExportIntegrity(
+  payload: ExportPayload,
+  key: string = getIntegrityKey()
+): IntegrityCheck {
+  const integrity = payload.integrity as ExportIntegrity | undefined;
+  if (!integrity || typeof integrity.payloadMac !== 'string' || !Array.isArray(integrity.attemptChain)) {
+    return { status: 'missing', problems: ['Export has no integrity block.'] };
+  }
+
+  const problems: string[] = [];
+
+  if (signPayload(payload, key) !== integrity.payloadMac) {
+    problems.push('Export contents were edited after download (MAC mismatch).');
+  }
+
+  const attempts = Array.isArray(payload.attempts) ? payload.attempts : [];
+  const chain = integrity.attemptChain;
+  if (chain.length !== attempts.length) {
+    problems.push(`Attempt chain has ${chain.length} links but the export has ${attempts.length} attempts.`);
+  }
+
+  // Only a session started before chaining has unchained attempts, and those
+  // come first: a gap after a chained attempt means links were deleted
+  let unchained = 0;
+  let chained = false;
+  const genesis = chainGenesis(payload.student, key);
+  for (let i = 0; i < Math.min(chain.length, attempts.length); i++) {
+    if (chain[i] === null) {
+      if (chained) {
+        problems.push(
+          `Attempt ${i + 1} (task ${attempts[i].task_id}) has no chain link after chained attempts — the log was edited.`
+        );
+      } else {
+        unchained++;
+      }
+      continue;
+    }
+    chained = true;
+    const previous = (i > 0 ? chain[i - 1] : null) ?? genesis;
+    if (chainExportRow(previous, attempts[i], key) !== chain[i]) {
+      problems.push(
+        `Attempt ${i + 1} (task ${attempts[i].task_id}) does not match the session log — edited, inserted, removed or reordered.`
+      );
+    }
+  }
+
+  if (problems.length > 0) return { status: 'tampered', problems };
+  if (unchained === chain.length && chain.length > 0) {
+    return { status: 'missing', problems: ['No attempts were chained (session predates integrity tracking).'] };
+  }
+  if (unchained > 0) {
+    return { status: 'partial', problems: [`${unchained} attempt(s) predate integrity tracking and could not be verified.`] };
+  }
+  return { status: 'verified', problems: [] };
+}
@@ -0,0 +1,175 @@
+/**
+ * EXPLAIN QUERY PLAN support for the investigate page.
+ *
+ * SQLite reports a plan as rows of (id, parent, notused, detail). This module
+ * builds the statement to run, turns the rows into a tree, and classifies
+ * each step so the UI can highlight full table scans against index use.
+ * Aliases in the plan are resolved to table names from the explained query.
+ * Running the statement is the caller's job (executeQuery), which keeps this
+ * file free of the database.
+ */
+
+import type { QueryResult } from '@/types';
+import { tokenizeSql, significantTokens, identifierName } from './sqlTokenizer';
+
+/**
+ * - `scan`: reads every row of a table, directly or through an index
+ *   (`SCAN t USING COVERING INDEX i` still visits every entry)
+ * - `index`: looks rows up through an index or the primary key
+ * - `temp`: builds a temporary B-tree (sorting, grouping, DISTINCT, UNION)
+ * - `other`: structure (subqueries, compound queries, constant rows)
+ */
+export type PlanStepKind = 'scan' | 'index' | 'temp' | 'other';
+
+export interface QueryPlanNode {
+  id: number;
+  detail: string;
+  kind: PlanStepKind;
+  /**
+   * Table read; set for scan and index steps. SQLite names the alias; it is
+   * resolved to the table when the query is known, and left as is otherwise
+   * (CTEs, subqueries in FROM).
+   */
+  table?: string;
+  /** Alias the query gave the table, if any. */
+  alias?: string;
+  /** Index name, "PRIMARY KEY", or "AUTOMATIC" for a transient index. */
+  index?: string;
+  children: QueryPlanNode[];
+}
+
+/** Plan characteristics worth logging with an attempt. */
+export interface QueryPlanSummary {
+  /** Tables read in full, including full index scans, in plan order. */
+  fullScans: string[];
+  /** Indexes used, in plan order, without duplicates. */
+  indexes: string[];
+  /** Temporary B-trees built (ORDER BY, GROUP BY, DISTINCT, UNION). */
+  tempBTrees: number;
+}
+
+export interface QueryPlan extends QueryPlanSummary {
+  roots: QueryPlanNode[];
+}
+
+/**
+ * The EXPLAIN QUERY PLAN statement for the first statement in `sql`. A leading
+ * EXPLAIN (with or without QUERY PLAN) is dropped, so explaining an already
+ * explained query still works.
+ */
+export function explainSql(sql: string): string {
+  const tokens = tokenizeSql(sql);
+  const end = tokens.findIndex((t) => t.text === ';');
+  let statement = (end === -1 ? sql : sql.slice(0, tokens[end].start)).trim();
+  statement = statement.replace(/^EXPLAIN\s+(QUERY\s+PLAN\s+)?/i, '');
+  return `EXPLAIN QUERY PLAN ${statement}`;
+}
+
+/**
+ * Build the plan tree from an EXPLAIN QUERY PLAN result. Pass the explained
+ * `sql` to name tables instead of their aliases.
+ */
+export function buildQueryPlan(result: QueryResult, sql?: string): QueryPlan {
+  const idCol = result.columns.indexOf('id');
+  const parentCol = result.columns.indexOf('parent');
+  const detailCol = result.columns.indexOf('detail');
+
+  const aliases = sql === undefined ? new Map<string, string>() : tableAliases(sql);
+  const nodes = new Map<number, QueryPlanNode>();
+  const roots: QueryPlanNode[] = [];
+
+  for (const row of result.values) {
+    const node = classifyStep(Number(row[idCol]), String(row[detailCol]), aliases);
+    nodes.set(node.id, node);
+    const parent = nodes.get(Number(row[parentCol]));
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  return { roots, ...summarizeSteps([...nodes.values()]) };
+}
+
+/**
+ * The loggable part of a plan.
+ */
+export function summarizePlan(plan: QueryPlan): QueryPlanSummary {
+  return { fullScans: plan.fullScans, indexes: plan.indexes, tempBTrees: plan.tempBTrees };
+}
+
+function summarizeSteps(steps: QueryPlanNode[]): QueryPlanSummary {
+  const indexes: string[] = [];
+  for (const s of steps) {
+    if (s.index && !indexes.includes(s.index)) indexes.push(s.index);
+  }
+  return {
+    fullScans: steps.filter((s) => s.kind === 'scan').map((s) => s.table!),
+    indexes,
+    tempBTrees: steps.filter((s) => s.kind === 'temp').length,
+  };
+}
+
+// Accepts both the current format ("SCAN m") and SQLite < 3.36 ("SCAN TABLE medications AS m")
+const ACCESS_STEP = /^(SCAN|SEARCH) (?:TABLE )?(\S+)(?: AS (\S+))?(.*)$/;
+const USING_INDEX = /USING (AUTOMATIC )?(?:PARTIAL )?(?:COVERING )?INDEX(?: (\w+))?/;
+const USING_PRIMARY_KEY = /USING (?:INTEGER )?PRIMARY KEY/;
+
+function classifyStep(id: number, detail: string, aliases: Map<string, string>): QueryPlanNode {
+  const node: QueryPlanNode = { id, detail, kind: 'other', children: [] };
+
+  const access = ACCESS_STEP.exec(detail);
+  if (access && access[2] !== 'CONSTANT') {
+    const [, verb, name, explicitAlias, rest] = access;
+    // The old format names both; the current one names the alias only
+    const alias = explicitAlias ?? (aliases.has(name.toLowerCase()) ? name : undefined);
+    node.table = explicitAlias ? name : aliases.get(name.toLowerCase()) ?? name;
+    if (alias) node.alias = alias;
+
+    const index = USING_INDEX.exec(rest);
+    if (index) node.index = index[1] ? 'AUTOMATIC' : index[2];
+    else if (USING_PRIMARY_KEY.test(rest)) node.index = 'PRIMARY KEY';
+    node.kind = verb === 'SEARCH' && node.index ? 'index' : 'scan';
+  } else if (/TEMP B-TREE/.test(detail)) {
+    node.kind = 'temp';
+  }
+
+  return node;
+}
+
+/** Keywords that end a FROM clause at its own depth. */
+const AFTER_FROM = new Set(['WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'WINDOW', 'UNION', 'INTERSECT', 'EXCEPT']);
+
+/**
+ * alias -> table for every aliased table in a FROM clause
+ * (`FROM patients p`, `JOIN nurses AS n`, `FROM a x, b y`), lowercased.
+ */
+function tableAliases(sql: string): Map<string, string> {
+  const code = significantTokens(tokenizeSql(sql));
+  const aliases = new Map<string, string>();
+  // Parenthesis depth of each FROM clause still open
+  const fromDepths: number[] = [];
+  let depth = 0;
+
+  code.forEach((t, i) => {
+    if (t.text === '(') depth++;
+    if (t.text === ')') {
+      depth--;
+      while (fromDepths.length > 0 && fromDepths[fromDepths.length - 1] > depth) fromDepths.pop();
+    }
+
+    const inFrom = fromDepths.length > 0 && fromDepths[fromDepths.length - 1] === depth;
+    const word = t.type === 'keyword' ? t.text.toUpperCase() : '';
+    if (word === 'FROM') fromDepths.push(depth);
+    else if (inFrom && (AFTER_FROM.has(word) || t.text === ';')) fromDepths.pop();
+    if (word !== 'FROM' && word !== 'JOIN' && !(inFrom && t.text === ',')) return;
+
+    // A schema-qualified name (main.patients) ends at its last part
+    let tableIdx = i + 1;
+    while (code[tableIdx]?.type === 'identifier' && code[tableIdx + 1]?.text === '.') tableIdx += 2;
+    const table = code[tableIdx];
+    if (table?.type !== 'identifier') return;
+    const aliasIdx = code[tableIdx + 1]?.text.toUpperCase() === 'AS' ? tableIdx + 2 : tableIdx + 1;
+    const alias = code[aliasIdx];
+    if (alias?.type === 'identifier') aliases.set(identifierName(alias), identifierName(table));
+  });
+  return aliases;
+}
@@ -1,66 +1,31 @@
-import type { QueryResult, ComparisonResult } from '@/types';
-import { executeQuery } from './database';
-
-/**
- * Normalize a value for comparison:
- * - Round floats to 1 decimal place (tolerant of student ROUND() usage)
- * - Convert to string for consistent comparison
- *
- * Using 1 decimal place means ROUND(AVG(x), 1) and raw AVG(x) produce
- * the same normalized value, so students aren't penalized for rounding.
- */
-function normalizeValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return 'NULL';
-  }
-  if (typeof value === 'number') {
-    // Round to 1 decimal place so ROUND(..., 1) and raw aggregates both match.
-    // This is intentionally coarse — the goal is to verify the student got the
-    // right data, not that they used identical floating-point formatting.
-    return Number(value.toFixed(1)).toString();
-  }
-  return String(value);
-}
-
-/**
- * Normalize column names (lowercase for comparison).
- */
-function normalizeColumnName(name: string): string {
-  return name.toLowerCase().trim();
+import type { QueryResult, ComparisonResult, Task } from '@/types';
+import { executeQuery, executeReferenceQuery, getSeedConfigHash } from './database';
+import { diffResults, isEmptyDiff, resolveComparisonPolicy } from './resultDiff';
+import type { ComparisonPolicy, ComparisonRule } from './resultDiff';
+import { tokenizeSql, significantTokens } from './sqlTokenizer';
+import { checkSqlConcepts } from './sqlConcepts';
+import type { ConceptRules } from './sqlConcepts';
+
+function columnList(kind: string, columns: string[]): string {
+  return `${kind} ${columns.length === 1 ? 'column' : 'columns'}: ${columns.join(', ')}`;
 }
 
 /**
- * Normalize a row for comparison.
- */
-function normalizeRow(row: unknown[]): string[] {
-  return row.map(normalizeValue);
-}
-
-/**
- * Sort rows for comparison (when order doesn't matter).
- */
-function sortRows(rows: unknown[][]): string[][] {
-  return rows
-    .map(normalizeRow)
-    .sort((a, b) => {
-      for (let i = 0; i < Math.max(a.length, b.length); i++) {
-        const cmp = (a[i] || '').localeCompare(b[i] || '');
-        if (cmp !== 0) return cmp;
-      }
-      return 0;
-    });
-}
-
-/**
- * Compare two result sets.
+ * Compare two result sets under a task's comparison policy. A mismatch names
+ * the rule that failed in `failedRule`, checked in this order: query error,
+ * columns, column names, row count, order, values.
  * @param studentResult - The student's query result
  * @param expectedResult - The expected result from reference query
  * @param preserveOrder - If true, row order must match
+ * @param policy - Tolerances and column rules (defaults: DEFAULT_COMPARISON_POLICY)
+ * @param tieCandidates - Expected rows without the LIMIT, to accept any tie-break at the cutoff
  */
 export function compareResults(
   studentResult: QueryResult,
   expectedResult: QueryResult,
-  preserveOrder: boolean = false
+  preserveOrder: boolean = false,
+  policy: ComparisonPolicy = {},
+  tieCandidates?: QueryResult
 ): ComparisonResult {
   // Check for errors
   if (studentResult.error) {
@@ -69,106 +34,166 @@ export function compareResults(
       studentResult,
       expectedResult,
       message: `Query error: ${studentResult.error}`,
+      failedRule: 'query_error',
     };
   }
 
-  // Compare column count
-  if (studentResult.columns.length !== expectedResult.columns.length) {
-    return {
-      isMatch: false,
-      studentResult,
-      expectedResult,
-      message: `Column count mismatch: got ${studentResult.columns.length}, expected ${expectedResult.columns.length}`,
-    };
+  const resolved = resolveComparisonPolicy(policy);
+  const diff = diffResults(studentResult, expectedResult, preserveOrder, resolved, tieCandidates);
+  const mismatch = (failedRule: ComparisonRule, message: string): ComparisonResult => ({
+    isMatch: false,
+    studentResult,
+    expectedResult,
+    diff,
+    message,
+    failedRule,
+  });
+
+  // Compare columns
+  const { missingColumns, extraColumns } = diff.alignment;
+  if (resolved.columns === 'exact' && studentResult.columns.length !== expectedResult.columns.length) {
+    return mismatch(
+      'columns',
+      `Column count mismatch: got ${studentResult.columns.length}, expected ${expectedResult.columns.length}`
+    );
+  }
+  if (missingColumns.length > 0) {
+    return mismatch('columns', columnList('Missing', missingColumns));
+  }
+  if (extraColumns.length > 0) {
+    return mismatch('columns', columnList('Unexpected', extraColumns));
+  }
+  if (resolved.matchColumnNames && !diff.alignment.byName) {
+    return mismatch('column_names', `Column names must match: expected ${expectedResult.columns.join(', ')}`);
   }
 
   // Compare row count
   if (studentResult.values.length !== expectedResult.values.length) {
-    return {
-      isMatch: false,
-      studentResult,
-      expectedResult,
-      message: `Row count mismatch: got ${studentResult.values.length}, expected ${expectedResult.values.length}`,
-    };
+    return mismatch(
+      'row_count',
+      `Row count mismatch: got ${studentResult.values.length}, expected ${expectedResult.values.length}`
+    );
   }
 
-  // Column names are intentionally NOT compared — only the data matters.
-  // Students may use different aliases (e.g., COUNT(*) vs "count") and
-  // that's fine as long as the values are correct.
-  //
-  // When column names match, we align by name so column order doesn't matter.
-  // When they don't match, we compare values positionally (column count
-  // already verified above).
-
-  const studentColMap = new Map<string, number>();
-  studentResult.columns.forEach((col, idx) => {
-    studentColMap.set(normalizeColumnName(col), idx);
-  });
+  if (diff.orderMismatchRow !== null) {
+    return mismatch('order', `Row ${diff.orderMismatchRow + 1} doesn't match. Check your ORDER BY clause.`);
+  }
 
-  // Try name-based alignment first; fall back to positional
-  const expectedNormalized = expectedResult.columns.map(normalizeColumnName);
-  const canAlignByName = expectedNormalized.every((col) => studentColMap.has(col));
-
-  const colMapping = canAlignByName
-    ? expectedNormalized.map((col) => studentColMap.get(col) ?? -1)
-    : expectedResult.columns.map((_, idx) => idx);
-
-  // Reorder student values to match expected column order
-  const reorderedStudentValues = studentResult.values.map((row) =>
-    colMapping.map((idx) => (idx >= 0 ? row[idx] : null))
-  );
-
-  // Compare values
-  if (preserveOrder) {
-    // Row order must match
-    const normalizedStudent = reorderedStudentValues.map(normalizeRow);
-    const normalizedExpected = expectedResult.values.map(normalizeRow);
-
-    for (let i = 0; i < normalizedExpected.length; i++) {
-      if (JSON.stringify(normalizedStudent[i]) !== JSON.stringify(normalizedExpected[i])) {
-        return {
-          isMatch: false,
-          studentResult,
-          expectedResult,
-          message: `Row ${i + 1} doesn't match. Check your ORDER BY clause.`,
-        };
-      }
-    }
-  } else {
-    // Sort both and compare
-    const sortedStudent = sortRows(reorderedStudentValues);
-    const sortedExpected = sortRows(expectedResult.values);
-
-    if (JSON.stringify(sortedStudent) !== JSON.stringify(sortedExpected)) {
-      return {
-        isMatch: false,
-        studentResult,
-        expectedResult,
-        message: 'Results don\'t match. Check your query logic.',
-      };
-    }
+  if (!isEmptyDiff(diff)) {
+    return mismatch('values', 'Results don\'t match. Check your query logic.');
   }
 
   return {
     isMatch: true,
     studentResult,
     expectedResult,
+    diff,
     message: 'Correct!',
   };
 }
 
 /**
- * Run comparison against expected query.
+ * A matching result is only accepted if the query follows the task's concept
+ * rules; otherwise it fails with failedRule 'concepts'. Wrong results are
+ * returned unchanged.
+ */
+export function enforceConceptRules(
+  result: ComparisonResult,
+  studentQuery: string,
+  rules?: ConceptRules
+): ComparisonResult {
+  if (!result.isMatch || !rules) return result;
+
+  const violations = checkSqlConcepts(studentQuery, rules);
+  if (violations.length === 0) return result;
+
+  return {
+    ...result,
+    isMatch: false,
+    message: `Right result, wrong technique. ${violations.map((v) => v.message).join(' ')}`,
+    failedRule: 'concepts',
+    conceptViolations: violations,
+  };
+}
+
+/**
+ * Expected results keyed by `${seedConfigHash}:${taskId}` (tie candidates:
+ * `…:ties`). A reference database never changes, so each expected query runs
+ * at most once per dataset per page load.
+ */
+const expectedResults = new Map<string, Promise<QueryResult>>();
+
+function cachedReferenceQuery(key: string, sql: string): Promise<QueryResult> {
+  const cached = expectedResults.get(key);
+  if (cached) return cached;
+
+  const pending = executeReferenceQuery(sql).then((result) => {
+    if (result.error) expectedResults.delete(key);
+    return result;
+  });
+  expectedResults.set(key, pending);
+  return pending;
+}
+
+/**
+ * Expected result for a task, computed on the isolated reference database and
+ * cached per task and dataset. Failed runs (e.g. interrupted by a timeout)
+ * aren't cached.
+ */
+export function getExpectedResult(task: Pick<Task, 'id' | 'expectedQuery'>): Promise<QueryResult> {
+  return cachedReferenceQuery(`${getSeedConfigHash()}:${task.id}`, task.expectedQuery);
+}
+
+/**
+ * The query without its final `LIMIT n` clause, or null when it doesn't end in
+ * one (a LIMIT inside a subquery, or with OFFSET, doesn't count).
+ */
+export function withoutLimit(sql: string): string | null {
+  const tokens = significantTokens(tokenizeSql(sql));
+  while (tokens.length > 0 && tokens[tokens.length - 1].text === ';') tokens.pop();
+
+  const n = tokens.length;
+  if (n < 2 || tokens[n - 2].text.toUpperCase() !== 'LIMIT' || tokens[n - 1].type !== 'number') {
+    return null;
+  }
+  return sql.slice(0, tokens[n - 2].start).trimEnd();
+}
+
+/**
+ * For an ORDER BY ... LIMIT task with order keys, the expected query's rows
+ * without the LIMIT (cached like the expected result); otherwise null.
+ */
+export function getTieCandidates(
+  task: Pick<Task, 'id' | 'expectedQuery' | 'preserveOrder' | 'comparison'>
+): Promise<QueryResult> | null {
+  const unlimited = withoutLimit(task.expectedQuery);
+  if (!task.preserveOrder || !task.comparison?.orderKeys?.length || !unlimited) return null;
+  return cachedReferenceQuery(`${getSeedConfigHash()}:${task.id}:ties`, unlimited);
+}
+
+/**
+ * Forget cached expected results (for testing).
+ */
+export function clearExpectedResults(): void {
+  expectedResults.clear();
+}
+
+/**
+ * Run the student query and compare it against the task's expected result,
+ * then check the query against the task's concept rules.
  */
 export async function checkQueryResult(
   studentQuery: string,
-  expectedQuery: string,
-  preserveOrder: boolean = false
+  task: Pick<Task, 'id' | 'expectedQuery' | 'preserveOrder' | 'comparison' | 'concepts'>
 ): Promise<ComparisonResult> {
-  const [studentResult, expectedResult] = await Promise.all([
+  const [studentResult, expectedResult, tieCandidates] = await Promise.all([
     executeQuery(studentQuery),
-    executeQuery(expectedQuery),
+    getExpectedResult(task),
+    getTieCandidates(task),
   ]);
 
-  return compareResults(studentResult, expectedResult, preserveOrder);
+  // Without tie candidates a different tie-break at the LIMIT is simply marked wrong
+  const candidates = tieCandidates && !tieCandidates.error ? tieCandidates : undefined;
+  const result = compareResults(studentResult, expectedResult, task.preserveOrder, task.comparison, candidates);
+  return enforceConceptRules(result, studentQuery, task.concepts);
 }
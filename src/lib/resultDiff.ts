@@ -0,0 +1,552 @@
+/**
+ * Structured diff between a student's result and the expected result.
+ *
+ * compareResults only needs a yes/no, but a wrong answer is easier to fix when
+ * the student can see which rows are missing, which are extra and which values
+ * differ. This module computes that diff under the task's comparison policy
+ * (the same rules compareResults enforces), so "no differences" and "correct"
+ * always agree, and redacts it to the task's reveal level before it reaches
+ * the UI.
+ *
+ * Pure: runs on QueryResults, never on the database.
+ */
+
+import type { QueryResult } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * How much of the expected result a wrong answer reveals (set per task):
+ * - `none`: only the failure message
+ * - `summary`: counts of missing/extra rows and wrong values, column problems
+ * - `rows`: also highlights the student's extra rows and wrong cells
+ * - `values`: also shows the expected values and the missing rows
+ */
+export type RevealLevel = 'none' | 'summary' | 'rows' | 'values';
+
+export const DEFAULT_REVEAL_LEVEL: RevealLevel = 'rows';
+
+/**
+ * How two numbers are compared. Both are rounded to `decimals` (if set), then
+ * must differ by at most `absolute`, or by `relative` times the larger
+ * magnitude; with neither set they must be equal after rounding.
+ */
+export interface NumericTolerance {
+  decimals?: number;
+  absolute?: number;
+  relative?: number;
+}
+
+/** Per-task rules for when a student's result counts as the expected one. */
+export interface ComparisonPolicy {
+  /** Default for every numeric column (default: rounded to 1 decimal place). */
+  numeric?: NumericTolerance;
+  /** Overrides of `numeric`, keyed by expected column name. */
+  numericColumns?: Record<string, NumericTolerance>;
+  /**
+   * - `exact` (default): the same number of columns
+   * - `superset`: extra student columns are ignored
+   * - `subset`: expected columns may be left out (columns are matched by name)
+   */
+  columns?: 'exact' | 'superset' | 'subset';
+  /** Require the expected column names, ignoring case (default: any aliases). */
+  matchColumnNames?: boolean;
+  /** Compare text ignoring case. */
+  caseInsensitive?: boolean;
+  /** Treat NULL and the empty string as equal. */
+  nullEqualsEmpty?: boolean;
+  /**
+   * With preserveOrder, only these expected columns have to be in order: rows
+   * tied on them may come in any order. Default: whole rows.
+   */
+  orderKeys?: string[];
+}
+
+/**
+ * The comparison rule a wrong answer broke. 'concepts': the result matched, but
+ * the query breaks the task's concept rules (see sqlConcepts).
+ */
+export type ComparisonRule = 'query_error' | 'columns' | 'column_names' | 'row_count' | 'order' | 'values' | 'concepts';
+
+/**
+ * Numbers are rounded to 1 decimal place by default, so ROUND(AVG(x), 1) and
+ * raw AVG(x) match and students aren't penalized for rounding. This is
+ * intentionally coarse — the goal is to verify the student got the right data,
+ * not that they used identical floating-point formatting.
+ */
+export const DEFAULT_COMPARISON_POLICY: Required<ComparisonPolicy> = {
+  numeric: { decimals: 1 },
+  numericColumns: {},
+  columns: 'exact',
+  matchColumnNames: false,
+  caseInsensitive: false,
+  nullEqualsEmpty: false,
+  orderKeys: [],
+};
+
+export function resolveComparisonPolicy(policy: ComparisonPolicy = {}): Required<ComparisonPolicy> {
+  return { ...DEFAULT_COMPARISON_POLICY, ...policy };
+}
+
+export type ValueType = 'number' | 'text' | 'blob';
+
+export interface ColumnAlignment {
+  /** True when columns were matched by name; false means by position. */
+  byName: boolean;
+  /** Student column index compared against each expected column (-1: none). */
+  mapping: number[];
+  /** Expected columns with no student counterpart that the policy requires. */
+  missingColumns: string[];
+  /** Student columns with no expected counterpart that the policy doesn't allow. */
+  extraColumns: string[];
+}
+
+export interface MissingRow {
+  /** Index into the expected result's rows. */
+  expectedRow: number;
+  /** Expected values, in expected column order. Redacted below `values`. */
+  values?: unknown[];
+}
+
+export interface CellMismatch {
+  /** Index into the student's rows. */
+  row: number;
+  /** Student column index. */
+  column: number;
+  actual: unknown;
+  /** Redacted below `values`. */
+  expected?: unknown;
+}
+
+export interface TypeMismatch {
+  /** Student column index. */
+  column: number;
+  expected: ValueType;
+  actual: ValueType;
+}
+
+export interface ComparisonDiff {
+  alignment: ColumnAlignment;
+  /** False when required columns are missing, so rows could not be compared. */
+  rowsCompared: boolean;
+  missingRows: MissingRow[];
+  /** Student row indexes with no expected counterpart. */
+  extraRows: number[];
+  /** Wrong values in rows that otherwise line up with an expected row. */
+  cellMismatches: CellMismatch[];
+  /** Columns whose values have a different type (informational: '12' and 12 still match). */
+  typeMismatches: TypeMismatch[];
+  /** First row out of place when the rows are right but the order is not. */
+  orderMismatchRow: number | null;
+}
+
+/** A diff as shown to the student, after redaction. */
+export interface RevealedDiff extends ComparisonDiff {
+  reveal: Exclude<RevealLevel, 'none'>;
+}
+
+// ---------------------------------------------------------------------------
+// Normalization
+// ---------------------------------------------------------------------------
+
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().trim();
+}
+
+function valueType(value: unknown): ValueType | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return 'number';
+  if (value instanceof Uint8Array) return 'blob';
+  return 'text';
+}
+
+function roundTo(value: number, decimals: number | undefined): number {
+  return decimals === undefined ? value : Number(value.toFixed(decimals));
+}
+
+function hasTolerance(tolerance: NumericTolerance): boolean {
+  return tolerance.absolute !== undefined || tolerance.relative !== undefined;
+}
+
+const NUMERIC_TEXT = /^\s*[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i;
+
+/** Numeric-looking text as a number (SQLite hands back text for `'72.5'` or a CAST to TEXT). */
+function asNumber(value: unknown): unknown {
+  return typeof value === 'string' && NUMERIC_TEXT.test(value) ? Number(value) : value;
+}
+
+interface CellComparer {
+  /**
+   * Hashable form of a value in an expected column. Values with equal keys are
+   * equal; numbers compared with a tolerance all share one key and are told
+   * apart by `equal`.
+   */
+  key(col: number, value: unknown): string;
+  equal(col: number, a: unknown, b: unknown): boolean;
+}
+
+function cellComparer(expectedColumns: string[], policy: Required<ComparisonPolicy>): CellComparer {
+  const overrides = new Map(
+    Object.entries(policy.numericColumns).map(([name, t]) => [normalizeColumnName(name), t])
+  );
+  const tolerances = expectedColumns.map((name) => overrides.get(normalizeColumnName(name)) ?? policy.numeric);
+
+  // Columns with a numeric policy compare numeric text as the number it spells
+  const numericPolicy = tolerances.map((t) => hasTolerance(t) || t.decimals !== undefined);
+
+  const key = (col: number, raw: unknown) => {
+    const value = numericPolicy[col] ? asNumber(raw) : raw;
+    if (value === null || value === undefined || (policy.nullEqualsEmpty && value === '')) {
+      return 'NULL';
+    }
+    if (typeof value === 'number') {
+      const tolerance = tolerances[col];
+      return hasTolerance(tolerance) ? '#' : roundTo(value, tolerance.decimals).toString();
+    }
+    return policy.caseInsensitive ? String(value).toLowerCase() : String(value);
+  };
+
+  const equal = (col: number, rawA: unknown, rawB: unknown) => {
+    const tolerance = tolerances[col];
+    const a = numericPolicy[col] ? asNumber(rawA) : rawA;
+    const b = numericPolicy[col] ? asNumber(rawB) : rawB;
+    if (typeof a === 'number' && typeof b === 'number' && hasTolerance(tolerance)) {
+      const x = roundTo(a, tolerance.decimals);
+      const y = roundTo(b, tolerance.decimals);
+      const allowed = Math.max(
+        tolerance.absolute ?? 0,
+        (tolerance.relative ?? 0) * Math.max(Math.abs(x), Math.abs(y))
+      );
+      return Math.abs(x - y) <= allowed + 1e-9;
+    }
+    return key(col, a) === key(col, b);
+  };
+
+  return { key, equal };
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+/**
+ * Column names are NOT required to match by default — students may use
+ * different aliases (e.g., COUNT(*) vs "count"). When every expected name
+ * appears in the student's result, columns are aligned by name so column order
+ * doesn't matter; otherwise they are compared by position. A `subset` policy
+ * always aligns by name, since position means nothing once columns are left out.
+ */
+export function alignColumns(
+  studentColumns: string[],
+  expectedColumns: string[],
+  columns: ComparisonPolicy['columns'] = 'exact'
+): ColumnAlignment {
+  const studentColMap = new Map<string, number>();
+  studentColumns.forEach((col, idx) => {
+    const name = normalizeColumnName(col);
+    if (!studentColMap.has(name)) studentColMap.set(name, idx);
+  });
+
+  const expectedNormalized = expectedColumns.map(normalizeColumnName);
+  const byName = columns === 'subset' || expectedNormalized.every((col) => studentColMap.has(col));
+  const mapping = byName
+    ? expectedNormalized.map((col) => studentColMap.get(col) ?? -1)
+    : expectedColumns.map((_, idx) => (idx < studentColumns.length ? idx : -1));
+
+  return {
+    byName,
+    mapping,
+    missingColumns: columns === 'subset' ? [] : expectedColumns.filter((_, idx) => mapping[idx] === -1),
+    extraColumns: columns === 'superset' ? [] : studentColumns.filter((_, idx) => !mapping.includes(idx)),
+  };
+}
+
+/**
+ * Diff the student's result against the expected one.
+ * @param preserveOrder - If true, rows must also appear in the expected order
+ * @param policy - The task's comparison policy (defaults: DEFAULT_COMPARISON_POLICY)
+ * @param tieCandidates - For an ORDER BY ... LIMIT task with order keys, the
+ *   expected query's rows without the LIMIT. Rows tied on the order keys with
+ *   the last expected row may then stand in for it: any tie-break is correct.
+ */
+export function diffResults(
+  studentResult: QueryResult,
+  expectedResult: QueryResult,
+  preserveOrder: boolean = false,
+  policy: ComparisonPolicy = {},
+  tieCandidates?: QueryResult
+): ComparisonDiff {
+  const resolved = resolveComparisonPolicy(policy);
+  const alignment = alignColumns(studentResult.columns, expectedResult.columns, resolved.columns);
+  // Expected column indexes that have a student counterpart
+  const compared = alignment.mapping.flatMap((column, col) => (column === -1 ? [] : [col]));
+
+  const diff: ComparisonDiff = {
+    alignment,
+    rowsCompared: alignment.missingColumns.length === 0 && compared.length > 0,
+    missingRows: [],
+    extraRows: [],
+    cellMismatches: [],
+    typeMismatches: findTypeMismatches(studentResult, expectedResult, alignment.mapping),
+    orderMismatchRow: null,
+  };
+  if (!diff.rowsCompared) return diff;
+
+  const cell = cellComparer(expectedResult.columns, resolved);
+  const expectedRows = expectedResult.values;
+  // Student rows in expected column order
+  const studentRows = studentResult.values.map((row) =>
+    alignment.mapping.map((idx) => (idx === -1 ? null : row[idx]))
+  );
+  const rowKey = (row: unknown[]) => JSON.stringify(compared.map((col) => cell.key(col, row[col])));
+  const rowsEqual = (a: unknown[], b: unknown[], cols: number[] = compared) =>
+    cols.every((col) => cell.equal(col, a[col], b[col]));
+
+  // Match equal rows first (as a multiset, ignoring order). Rows are bucketed
+  // by key; within a bucket, numbers with a tolerance decide the match, and an
+  // exactly equal row is preferred. matchOf[student row] = its expected row.
+  const buckets = new Map<string, number[]>();
+  expectedRows.forEach((row, idx) => {
+    const key = rowKey(row);
+    const indexes = buckets.get(key);
+    if (indexes) indexes.push(idx);
+    else buckets.set(key, [idx]);
+  });
+  const extra: number[] = [];
+  const matchOf: number[] = [];
+  studentRows.forEach((row, idx) => {
+    const candidates = buckets.get(rowKey(row)) ?? [];
+    let match = candidates.findIndex((expectedIdx) => sameValues(row, expectedRows[expectedIdx], compared));
+    if (match === -1) match = candidates.findIndex((expectedIdx) => rowsEqual(row, expectedRows[expectedIdx]));
+    if (match === -1) extra.push(idx);
+    else matchOf[idx] = candidates.splice(match, 1)[0];
+  });
+  const missing = [...buckets.values()].flat().sort((a, b) => a - b);
+
+  const keys = orderKeyColumns(resolved.orderKeys, expectedResult.columns).filter((col) =>
+    compared.includes(col)
+  );
+  if (preserveOrder && tieCandidates && keys.length > 0 && extra.length === missing.length) {
+    acceptTiesAtLimit(extra, missing, matchOf, studentRows, expectedRows, tieCandidates.values, keys, compared, rowsEqual);
+  }
+
+  if (extra.length === 0 && missing.length === 0) {
+    if (preserveOrder) {
+      // Order is judged on the expected values each row matched, so rows the
+      // tolerance can't tell apart still have to come in their exact order
+      const orderCols = keys.length > 0 ? keys : compared;
+      const outOfPlace = matchOf.findIndex(
+        (expectedIdx, idx) => !sameValues(expectedRows[expectedIdx], expectedRows[idx], orderCols)
+      );
+      diff.orderMismatchRow = outOfPlace === -1 ? null : outOfPlace;
+    }
+    return diff;
+  }
+
+  // Pair leftover rows that mostly agree, and report their differing cells
+  extra.forEach((studentIdx, i) => {
+    let best = -1;
+    let bestShared = 0;
+    missing.forEach((expectedIdx, pos) => {
+      const shared = compared.filter((col) =>
+        cell.equal(col, studentRows[studentIdx][col], expectedRows[expectedIdx][col])
+      ).length;
+      if (shared > bestShared) {
+        best = pos;
+        bestShared = shared;
+      }
+    });
+    // A single leftover row on each side is paired even if little agrees
+    const lastPair = missing.length === 1 && i === extra.length - 1;
+    if (lastPair) best = 0;
+    else if (best === -1 || bestShared * 2 < compared.length) {
+      diff.extraRows.push(studentIdx);
+      return;
+    }
+
+    const [expectedIdx] = missing.splice(best, 1);
+    for (const col of compared) {
+      if (cell.equal(col, studentRows[studentIdx][col], expectedRows[expectedIdx][col])) continue;
+      const column = alignment.mapping[col];
+      diff.cellMismatches.push({
+        row: studentIdx,
+        column,
+        actual: studentResult.values[studentIdx][column],
+        expected: expectedRows[expectedIdx][col],
+      });
+    }
+  });
+
+  diff.missingRows = missing.map((expectedRow) => ({
+    expectedRow,
+    values: expectedResult.values[expectedRow],
+  }));
+  return diff;
+}
+
+/** Exact equality in `cols`: no rounding or tolerance. */
+function sameValues(a: unknown[], b: unknown[], cols: number[]): boolean {
+  return cols.every((col) => a[col] === b[col] || (a[col] == null && b[col] == null));
+}
+
+/**
+ * Drop student rows from `extra` that are a valid tie-break at the LIMIT: a
+ * real row of the unlimited result, exactly tied on the order keys with the
+ * last expected row, and not already in the student's answer. Expected rows
+ * they replace are dropped from `missing` and recorded in `matchOf`. Ties are
+ * decided on the reference values, so rows that only round to the same keys
+ * are not tied. Changes the arrays in place, all or nothing.
+ */
+function acceptTiesAtLimit(
+  extra: number[],
+  missing: number[],
+  matchOf: number[],
+  studentRows: unknown[][],
+  expectedRows: unknown[][],
+  candidateRows: unknown[][],
+  keys: number[],
+  compared: number[],
+  rowsEqual: (a: unknown[], b: unknown[]) => boolean
+): void {
+  if (extra.length === 0 || expectedRows.length === 0) return;
+  const boundary = expectedRows[expectedRows.length - 1];
+  const atBoundary = (row: unknown[]) => sameValues(row, boundary, keys);
+  if (!missing.every((idx) => atBoundary(expectedRows[idx]))) return;
+
+  // Tied rows the student could still have picked: every tied candidate, less
+  // the tied expected rows the student already returned
+  const pool = candidateRows.filter(atBoundary);
+  expectedRows.forEach((row, idx) => {
+    if (missing.includes(idx) || !atBoundary(row)) return;
+    const used = pool.findIndex((candidate) => sameValues(candidate, row, compared));
+    if (used !== -1) pool.splice(used, 1);
+  });
+
+  for (const idx of extra) {
+    // A row that is exactly some candidate is that row, tied or not
+    const row = studentRows[idx];
+    const exact = candidateRows.some((candidate) => sameValues(candidate, row, compared));
+    const match = pool.findIndex((candidate) =>
+      exact ? sameValues(candidate, row, compared) : rowsEqual(candidate, row)
+    );
+    if (match === -1) return;
+    pool.splice(match, 1);
+  }
+  extra.forEach((studentIdx, i) => {
+    matchOf[studentIdx] = missing[i];
+  });
+  extra.length = 0;
+  missing.length = 0;
+}
+
+/** Expected column indexes for the policy's order keys. */
+function orderKeyColumns(orderKeys: string[], expectedColumns: string[]): number[] {
+  const names = expectedColumns.map(normalizeColumnName);
+  return orderKeys.map((key) => {
+    const col = names.indexOf(normalizeColumnName(key));
+    if (col === -1) {
+      throw new Error(`Order key "${key}" is not an expected column (${expectedColumns.join(', ')})`);
+    }
+    return col;
+  });
+}
+
+function findTypeMismatches(
+  studentResult: QueryResult,
+  expectedResult: QueryResult,
+  mapping: number[]
+): TypeMismatch[] {
+  const columnType = (rows: unknown[][], col: number) => {
+    for (const row of rows) {
+      const type = valueType(row[col]);
+      if (type) return type;
+    }
+    return null;
+  };
+
+  const mismatches: TypeMismatch[] = [];
+  mapping.forEach((column, col) => {
+    if (column === -1) return;
+    const expected = columnType(expectedResult.values, col);
+    const actual = columnType(studentResult.values, column);
+    if (expected && actual && expected !== actual) {
+      mismatches.push({ column, expected, actual });
+    }
+  });
+  return mismatches;
+}
+
+/**
+ * True when the diff finds no difference that affects correctness.
+ */
+export function isEmptyDiff(diff: ComparisonDiff): boolean {
+  return (
+    diff.rowsCompared &&
+    diff.alignment.extraColumns.length === 0 &&
+    diff.missingRows.length === 0 &&
+    diff.extraRows.length === 0 &&
+    diff.cellMismatches.length === 0 &&
+    diff.orderMismatchRow === null
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Reveal
+// ---------------------------------------------------------------------------
+
+/**
+ * Redact a diff to what the task's reveal level allows the student to see.
+ * Returns null for `none`. Below `values` no expected value is kept, so the
+ * UI cannot show one by accident.
+ */
+export function revealDiff(diff: ComparisonDiff, level: RevealLevel): RevealedDiff | null {
+  if (level === 'none') return null;
+  if (level === 'values') return { ...diff, reveal: level };
+
+  return {
+    ...diff,
+    reveal: level,
+    missingRows: diff.missingRows.map(({ expectedRow }) => ({ expectedRow })),
+    cellMismatches: diff.cellMismatches.map(({ row, column, actual }) => ({ row, column, actual })),
+  };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * One-line descriptions of what differs, for the summary above the results.
+ * @param studentColumns - Column names of the student's result (for type mismatches)
+ */
+export function describeDiff(diff: ComparisonDiff, studentColumns: string[]): string[] {
+  const lines: string[] = [];
+  const { missingColumns, extraColumns } = diff.alignment;
+
+  if (missingColumns.length > 0) {
+    lines.push(`Missing ${missingColumns.length === 1 ? 'column' : 'columns'}: ${missingColumns.join(', ')}`);
+  }
+  if (extraColumns.length > 0) {
+    lines.push(`Unexpected ${extraColumns.length === 1 ? 'column' : 'columns'}: ${extraColumns.join(', ')}`);
+  }
+  if (!diff.rowsCompared) {
+    lines.push('Rows were not compared until the columns line up');
+    return lines;
+  }
+
+  if (diff.missingRows.length > 0) lines.push(`${plural(diff.missingRows.length, 'row')} missing`);
+  if (diff.extraRows.length > 0) lines.push(`${plural(diff.extraRows.length, 'extra row')}`);
+  if (diff.cellMismatches.length > 0) {
+    const rows = new Set(diff.cellMismatches.map((m) => m.row)).size;
+    lines.push(`${plural(diff.cellMismatches.length, 'wrong value')} in ${plural(rows, 'row')}`);
+  }
+  for (const t of diff.typeMismatches) {
+    lines.push(`${studentColumns[t.column]} holds ${t.actual} values, expected ${t.expected}`);
+  }
+  if (diff.orderMismatchRow !== null) {
+    lines.push(`Right rows, wrong order: row ${diff.orderMismatchRow + 1} is out of place`);
+  }
+  return lines;
+}
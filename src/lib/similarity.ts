@@ -0,0 +1,369 @@
+/**
+ * Cross-student query similarity for academic integrity review.
+ *
+ * Every export carries the accepted `submitted_query` per task. For each task
+ * this module compares those queries pairwise on their normalized token
+ * streams — keywords uppercased, identifiers lowercased, aliases renamed to
+ * positional placeholders, whitespace and comments dropped — so renaming
+ * aliases or reformatting does not hide a copy.
+ *
+ * Simple tasks have one natural answer and many students will write the same
+ * normalized query. A pair on such a "common form" is only reported when it
+ * also shares incidental details that independent work rarely shares: the
+ * exact text, the whitespace layout, the alias names or comment text. Those
+ * details only count when few other students in the class have them too.
+ *
+ * Pure: no fs access. Run from cohort grading; results go to the instructor,
+ * never into a student's score.
+ */
+
+import type { StudySession, TaskAttempt } from '@/types';
+import { tokenizeSql, significantTokens, identifierName } from './sqlTokenizer';
+import type { SqlToken } from './sqlTokenizer';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** One student's export, as graded by the cohort grader. */
+export interface SimilaritySubmission {
+  source: string;
+  studentName: string;
+  session: StudySession;
+}
+
+export interface SimilarityOptions {
+  /** Minimum normalized token similarity (0-1) for a pair to be considered (default 0.9). */
+  threshold?: number;
+  /**
+   * A normalized query (or incidental detail) shared by more than this share of
+   * the class is treated as common, not as evidence (default 0.25).
+   */
+  commonShare?: number;
+}
+
+export type SimilarityEvidence =
+  | 'identical_text'
+  | 'identical_layout'
+  | 'shared_aliases'
+  | 'shared_comments';
+
+export interface SubmissionRef {
+  source: string;
+  studentName: string;
+}
+
+export interface QueryFingerprint {
+  /** Normalized significant tokens, aliases replaced by $1, $2, ... */
+  structure: string[];
+  /** Alias names as written (lowercased), in order of first definition. */
+  aliases: string[];
+  /** Comment text, lowercased with whitespace collapsed. */
+  comments: string[];
+  /** Whitespace runs, e.g. "\n  " for a newline and 2-space indent. */
+  layout: string;
+  /** Query text with leading/trailing whitespace trimmed. */
+  text: string;
+}
+
+export interface SimilarPair {
+  taskId: string;
+  a: SubmissionRef;
+  b: SubmissionRef;
+  /** 1 - token edit distance / longer length, rounded to 3 decimals. */
+  similarity: number;
+  /** Incidental details the two share that are rare in the class. */
+  evidence: SimilarityEvidence[];
+  /** True when this normalized query is what many students wrote. */
+  commonForm: boolean;
+}
+
+export interface SimilarityCluster {
+  taskId: string;
+  members: SubmissionRef[];
+  /** Lowest similarity among reported pairs inside the cluster. */
+  minSimilarity: number;
+}
+
+export interface TaskSimilarity {
+  taskId: string;
+  /** Students with an accepted query for this task. */
+  submissionCount: number;
+  /** Distinct normalized queries. */
+  distinctForms: number;
+  pairs: SimilarPair[];
+  clusters: SimilarityCluster[];
+}
+
+/** A pair of students flagged on one or more tasks, for review. */
+export interface ReviewPair {
+  a: SubmissionRef;
+  b: SubmissionRef;
+  taskIds: string[];
+  meanSimilarity: number;
+  evidence: SimilarityEvidence[];
+}
+
+export interface QuerySimilarityResult {
+  threshold: number;
+  commonShare: number;
+  tasks: TaskSimilarity[];
+  /** Sorted by number of flagged tasks, then mean similarity. */
+  reviewPairs: ReviewPair[];
+}
+
+const DEFAULT_THRESHOLD = 0.9;
+const DEFAULT_COMMON_SHARE = 0.25;
+
+// ---------------------------------------------------------------------------
+// Fingerprinting
+// ---------------------------------------------------------------------------
+
+/** Clause keywords that end a FROM list. */
+const FROM_LIST_END = new Set(['WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'UNION', 'EXCEPT', 'INTERSECT', 'ON', 'USING', 'WINDOW']);
+
+/** Type names after AS in CAST(x AS INTEGER) — not aliases. */
+const CAST_TYPES = new Set(['integer', 'int', 'real', 'text', 'numeric', 'blob', 'float', 'decimal']);
+
+export function fingerprintQuery(sql: string): QueryFingerprint {
+  const tokens = tokenizeSql(sql.trim());
+  const code = significantTokens(tokens);
+  while (code.at(-1)?.text === ';') code.pop();
+  const aliases = findAliases(code);
+  const placeholder = new Map(aliases.map((name, i) => [name, `$${i + 1}`]));
+
+  return {
+    structure: code
+      // AS before an alias is optional; `FROM nurses AS n` and `FROM nurses n` are the same query
+      .filter((t, i) => !(t.text.toUpperCase() === 'AS' && code[i + 1] && placeholder.has(identifierName(code[i + 1]))))
+      .map((t) => {
+        if (t.type === 'keyword') return t.text.toUpperCase();
+        if (t.type === 'identifier') return placeholder.get(identifierName(t)) ?? identifierName(t);
+        return t.text;
+      }),
+    aliases,
+    comments: tokens
+      .filter((t) => t.type === 'comment')
+      .map((t) => t.text.replace(/^--|^\/\*|\*\/$/g, '').replace(/\s+/g, ' ').trim().toLowerCase())
+      .filter((c) => c.length > 0),
+    layout: tokens
+      .filter((t) => t.type === 'whitespace')
+      .map((t) => t.text.replace(/\r/g, ''))
+      .join('|'),
+    text: sql.trim(),
+  };
+}
+
+/**
+ * Names introduced with AS, plus bare table aliases in FROM/JOIN
+ * (`FROM patients p`, `JOIN nurses n`, `FROM a x, b y`).
+ */
+function findAliases(code: SqlToken[]): string[] {
+  const aliases: string[] = [];
+  const add = (token: SqlToken | undefined) => {
+    if (token?.type !== 'identifier') return;
+    const name = identifierName(token);
+    if (!aliases.includes(name)) aliases.push(name);
+  };
+
+  let inFromList = false;
+  for (let i = 0; i < code.length; i++) {
+    const t = code[i];
+    const upper = t.type === 'keyword' ? t.text.toUpperCase() : '';
+
+    const next = code[i + 1];
+    if (upper === 'AS' && next && !CAST_TYPES.has(identifierName(next))) add(next);
+    if (upper === 'FROM' || upper === 'JOIN') inFromList = true;
+    else if (FROM_LIST_END.has(upper) || t.text === ')') inFromList = false;
+
+    // table name followed directly by an identifier → that identifier is an alias
+    const startsTable = upper === 'FROM' || upper === 'JOIN' || (inFromList && t.text === ',');
+    if (startsTable && code[i + 1]?.type === 'identifier' && code[i + 2]?.text !== '.') {
+      add(code[i + 2]);
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Token-level similarity: 1 - Levenshtein distance / longer length.
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+// ---------------------------------------------------------------------------
+// Cohort analysis
+// ---------------------------------------------------------------------------
+
+interface Entry {
+  ref: SubmissionRef;
+  fp: QueryFingerprint;
+}
+
+export function analyzeQuerySimilarity(
+  submissions: SimilaritySubmission[],
+  options: SimilarityOptions = {}
+): QuerySimilarityResult {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const commonShare = options.commonShare ?? DEFAULT_COMMON_SHARE;
+
+  const byTask = new Map<string, Entry[]>();
+  for (const s of submissions) {
+    for (const attempt of finalQueries(s.session)) {
+      const entries = byTask.get(attempt.taskId) ?? [];
+      entries.push({ ref: { source: s.source, studentName: s.studentName }, fp: fingerprintQuery(attempt.submittedQuery) });
+      byTask.set(attempt.taskId, entries);
+    }
+  }
+
+  const tasks = Array.from(byTask.entries())
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([taskId, entries]) => compareTask(taskId, entries, threshold, commonShare));
+
+  return { threshold, commonShare, tasks, reviewPairs: buildReviewPairs(tasks) };
+}
+
+function compareTask(
+  taskId: string,
+  entries: Entry[],
+  threshold: number,
+  commonShare: number
+): TaskSimilarity {
+  // A value is rare if at most this many submissions share it (a pair always can).
+  const rareLimit = Math.max(2, Math.floor(commonShare * entries.length));
+  const counter = (key: (fp: QueryFingerprint) => string) => {
+    const counts = new Map<string, number>();
+    for (const e of entries) counts.set(key(e.fp), (counts.get(key(e.fp)) ?? 0) + 1);
+    return (fp: QueryFingerprint) => counts.get(key(fp)) ?? 0;
+  };
+  const structureKey = (fp: QueryFingerprint) => fp.structure.join(' ');
+  const aliasKey = (fp: QueryFingerprint) => [...fp.aliases].sort().join(',');
+  const structureCount = counter(structureKey);
+  const textCount = counter((fp) => fp.text);
+  const layoutCount = counter((fp) => fp.layout);
+  const aliasCount = counter(aliasKey);
+
+  const pairs: SimilarPair[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i].fp;
+      const b = entries[j].fp;
+      const similarity = tokenSimilarity(a.structure, b.structure);
+      if (similarity < threshold) continue;
+
+      const evidence: SimilarityEvidence[] = [];
+      if (a.text === b.text && textCount(a) <= rareLimit) {
+        evidence.push('identical_text');
+      } else if (a.layout === b.layout && /\n/.test(a.layout) && layoutCount(a) <= rareLimit) {
+        // single-line queries all share the same layout; only multi-line ones say anything
+        evidence.push('identical_layout');
+      }
+      if (a.aliases.length > 0 && aliasKey(a) === aliasKey(b) && aliasCount(a) <= rareLimit) {
+        evidence.push('shared_aliases');
+      }
+      if (a.comments.some((c) => b.comments.includes(c))) {
+        evidence.push('shared_comments');
+      }
+
+      const commonForm = structureKey(a) === structureKey(b) && structureCount(a) > rareLimit;
+      if (commonForm && evidence.length === 0) continue;
+
+      pairs.push({
+        taskId,
+        a: entries[i].ref,
+        b: entries[j].ref,
+        similarity: Math.round(similarity * 1000) / 1000,
+        evidence,
+        commonForm,
+      });
+    }
+  }
+
+  return {
+    taskId,
+    submissionCount: entries.length,
+    distinctForms: new Set(entries.map((e) => structureKey(e.fp))).size,
+    pairs,
+    clusters: clusterPairs(taskId, pairs),
+  };
+}
+
+/** Connected components of the reported pairs (single linkage). */
+function clusterPairs(taskId: string, pairs: SimilarPair[]): SimilarityCluster[] {
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    const p = parent.get(x) ?? x;
+    if (p === x) return x;
+    const root = find(p);
+    parent.set(x, root);
+    return root;
+  };
+
+  const refs = new Map<string, SubmissionRef>();
+  for (const pair of pairs) {
+    refs.set(pair.a.source, pair.a);
+    refs.set(pair.b.source, pair.b);
+    parent.set(find(pair.a.source), find(pair.b.source));
+  }
+
+  const clusters = new Map<string, SimilarityCluster>();
+  for (const [source, ref] of refs) {
+    const root = find(source);
+    const cluster = clusters.get(root) ?? { taskId, members: [], minSimilarity: 1 };
+    cluster.members.push(ref);
+    clusters.set(root, cluster);
+  }
+  for (const pair of pairs) {
+    const cluster = clusters.get(find(pair.a.source))!;
+    cluster.minSimilarity = Math.min(cluster.minSimilarity, pair.similarity);
+  }
+
+  return Array.from(clusters.values())
+    .map((c) => ({ ...c, members: c.members.sort((x, y) => x.source.localeCompare(y.source)) }))
+    .sort((x, y) => y.members.length - x.members.length);
+}
+
+function buildReviewPairs(tasks: TaskSimilarity[]): ReviewPair[] {
+  const byStudents = new Map<string, { pair: ReviewPair; total: number }>();
+
+  for (const task of tasks) {
+    for (const p of task.pairs) {
+      const [a, b] = p.a.source <= p.b.source ? [p.a, p.b] : [p.b, p.a];
+      const key = JSON.stringify([a.source, b.source]);
+      const entry = byStudents.get(key) ?? { pair: { a, b, taskIds: [], meanSimilarity: 0, evidence: [] }, total: 0 };
+      entry.pair.taskIds.push(p.taskId);
+      entry.total += p.similarity;
+      for (const e of p.evidence) {
+        if (!entry.pair.evidence.includes(e)) entry.pair.evidence.push(e);
+      }
+      byStudents.set(key, entry);
+    }
+  }
+
+  return Array.from(byStudents.values())
+    .map(({ pair, total }) => ({ ...pair, meanSimilarity: Math.round((total / pair.taskIds.length) * 1000) / 1000 }))
+    .sort((x, y) => y.taskIds.length - x.taskIds.length || y.meanSimilarity - x.meanSimilarity);
+}
+
+/** Last accepted query per task, the one the student actually submitted. */
+function finalQueries(session: StudySession): TaskAttempt[] {
+  const last = new Map<string, TaskAttempt>();
+  for (const a of session.attempts) {
+    if (a.isCorrect) last.set(a.taskId, a);
+  }
+  return Array.from(last.values());
+}
@@ -0,0 +1,111 @@
+/**
+ * Statement classification for the read-only lab database.
+ *
+ * Every student shares one seeded database per tab, and expected queries run
+ * against the same data. A `DELETE FROM medications` would silently break
+ * every later answer check, so anything other than reading is rejected before
+ * it reaches sql.js, with an explanation a student can act on. The worker also
+ * sets `PRAGMA query_only`, so a statement that slips past this still fails.
+ */
+
+import { tokenizeSql, significantTokens } from './sqlTokenizer';
+import type { SqlToken } from './sqlTokenizer';
+
+export type StatementKind = 'read' | 'dml' | 'ddl' | 'transaction' | 'pragma' | 'other';
+
+export interface StatementClassification {
+  kind: StatementKind;
+  /** Leading keyword, uppercased (e.g. "SELECT", "DROP"). */
+  keyword: string;
+  allowed: boolean;
+}
+
+export interface SqlClassification {
+  allowed: boolean;
+  statements: StatementClassification[];
+  /** Why the SQL was rejected; null when allowed. */
+  message: string | null;
+}
+
+const DML = new Set(['INSERT', 'UPDATE', 'DELETE', 'REPLACE']);
+const DDL = new Set(['CREATE', 'DROP', 'ALTER', 'REINDEX', 'VACUUM', 'ANALYZE']);
+const TRANSACTION = new Set(['BEGIN', 'COMMIT', 'END', 'ROLLBACK', 'SAVEPOINT', 'RELEASE']);
+
+/** Schema-inspection pragmas students may use; everything else can change state. */
+const READ_ONLY_PRAGMAS = new Set([
+  'table_info', 'table_xinfo', 'table_list', 'index_list', 'index_info', 'index_xinfo', 'foreign_key_list',
+]);
+
+/**
+ * Classify each statement in `sql`. Allowed only if every statement reads.
+ */
+export function classifySql(sql: string): SqlClassification {
+  const statements = splitStatements(significantTokens(tokenizeSql(sql))).map(classifyStatement);
+  const rejected = statements.find((s) => !s.allowed);
+
+  return {
+    allowed: !rejected,
+    statements,
+    message: rejected ? rejectionMessage(rejected) : null,
+  };
+}
+
+function classifyStatement(tokens: SqlToken[]): StatementClassification {
+  const keyword = tokens[0].text.toUpperCase();
+
+  if (keyword === 'SELECT' || keyword === 'VALUES') {
+    return { kind: 'read', keyword, allowed: true };
+  }
+  if (keyword === 'EXPLAIN') {
+    // EXPLAIN only describes the plan; nothing after it runs
+    return { kind: 'read', keyword, allowed: true };
+  }
+  if (keyword === 'WITH') {
+    // A CTE can front a write (`WITH x AS (...) DELETE FROM ...`)
+    const write = tokens.find((t, i) => isWriteKeyword(t, tokens[i + 1]));
+    return write
+      ? { kind: 'dml', keyword: write.text.toUpperCase(), allowed: false }
+      : { kind: 'read', keyword, allowed: true };
+  }
+  if (keyword === 'PRAGMA') {
+    const name = tokens[1]?.text.toLowerCase() ?? '';
+    const assigns = tokens.some((t) => t.text === '=');
+    return { kind: 'pragma', keyword, allowed: READ_ONLY_PRAGMAS.has(name) && !assigns };
+  }
+  if (DML.has(keyword)) return { kind: 'dml', keyword, allowed: false };
+  if (DDL.has(keyword)) return { kind: 'ddl', keyword, allowed: false };
+  if (TRANSACTION.has(keyword)) return { kind: 'transaction', keyword, allowed: false };
+  return { kind: 'other', keyword, allowed: false };
+}
+
+/** INSERT/UPDATE/DELETE/REPLACE as a statement, not `replace(...)` the string function. */
+function isWriteKeyword(token: SqlToken, next: SqlToken | undefined): boolean {
+  const upper = token.text.toUpperCase();
+  if (token.type !== 'keyword' || !DML.has(upper)) return false;
+  return !(upper === 'REPLACE' && next?.text === '(');
+}
+
+function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [[]];
+  for (const t of tokens) {
+    if (t.text === ';') statements.push([]);
+    else statements[statements.length - 1].push(t);
+  }
+  return statements.filter((s) => s.length > 0);
+}
+
+function rejectionMessage(statement: StatementClassification): string {
+  const readOnly = 'The hospital database is read-only — use SELECT to look at the data.';
+  switch (statement.kind) {
+    case 'dml':
+      return `${statement.keyword} changes data, which isn't allowed here. ${readOnly}`;
+    case 'ddl':
+      return `${statement.keyword} changes the database structure, which isn't allowed here. ${readOnly}`;
+    case 'transaction':
+      return `Transactions (${statement.keyword}) aren't needed — queries here only read. ${readOnly}`;
+    case 'pragma':
+      return `Only schema-inspection pragmas (e.g. PRAGMA table_info(patients)) are allowed. ${readOnly}`;
+    default:
+      return `${statement.keyword} isn't a query this lab can run. ${readOnly}`;
+  }
+}
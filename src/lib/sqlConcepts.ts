@@ -0,0 +1,167 @@
+/**
+ * Required and forbidden SQL constructs per task.
+ *
+ * Answers are checked by comparing results, so a student can pass a subquery
+ * task by hard-coding a number they computed earlier, or a JOIN task with
+ * correlated lookups. A task's `concepts` rules name the technique it teaches;
+ * a matching result that skips it is reported instead of accepted.
+ *
+ * Works on sqlTokenizer tokens, so strings and comments never count. Pure: no
+ * database access.
+ */
+
+import { tokenizeSql, significantTokens } from './sqlTokenizer';
+import type { SqlToken } from './sqlTokenizer';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** `subquery` is any nested SELECT or WITH clause; `cte` only a WITH clause. */
+export type SqlConcept = 'join' | 'subquery' | 'cte' | 'group_by' | 'window';
+
+export interface ConceptRules {
+  /** Constructs the query must use. */
+  require?: SqlConcept[];
+  /** Constructs the query must not use. */
+  forbid?: SqlConcept[];
+  /**
+   * Largest numeric literal allowed, so results can't be typed in. LIMIT and
+   * OFFSET counts and ORDER BY / GROUP BY positions don't count.
+   */
+  maxNumericLiteral?: number;
+}
+
+export type ConceptViolation =
+  | { kind: 'missing' | 'forbidden'; concept: SqlConcept; message: string }
+  | { kind: 'literal'; literal: string; start: number; message: string };
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+const CONCEPTS: Record<SqlConcept, { label: string; how: string }> = {
+  join: { label: 'a JOIN', how: 'combine the tables with JOIN … ON' },
+  subquery: { label: 'a subquery', how: 'compute the value in the query with (SELECT …) or WITH' },
+  cte: { label: 'a CTE', how: 'name the intermediate result with WITH … AS (…)' },
+  group_by: { label: 'GROUP BY', how: 'group the rows with GROUP BY' },
+  window: { label: 'a window function', how: 'use a function with OVER (…)' },
+};
+
+/** Keywords that end a FROM clause at its own depth. */
+const AFTER_FROM = new Set(['WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'WINDOW', 'UNION', 'INTERSECT', 'EXCEPT']);
+
+/** What may follow an ORDER BY / GROUP BY position: it is the whole term. */
+const POSITION_END = new Set([',', ')', ';', 'ASC', 'DESC', 'NULLS', 'COLLATE', 'HAVING', 'LIMIT', 'WINDOW', 'ORDER']);
+
+function isKeyword(token: SqlToken | undefined, word: string): boolean {
+  return token?.type === 'keyword' && token.text.toUpperCase() === word;
+}
+
+/** The constructs a query uses. */
+export function detectSqlConcepts(sql: string): Set<SqlConcept> {
+  const tokens = significantTokens(tokenizeSql(sql));
+  const found = new Set<SqlConcept>();
+  // Parenthesis depth of each FROM clause still open
+  const fromDepths: number[] = [];
+  let depth = 0;
+
+  tokens.forEach((t, i) => {
+    const next = tokens[i + 1];
+    if (t.text === '(') {
+      if (isKeyword(next, 'SELECT') || isKeyword(next, 'WITH')) found.add('subquery');
+      depth++;
+      return;
+    }
+    if (t.text === ')') {
+      depth--;
+      while (fromDepths.length > 0 && fromDepths[fromDepths.length - 1] > depth) fromDepths.pop();
+      return;
+    }
+
+    const inFrom = fromDepths.length > 0 && fromDepths[fromDepths.length - 1] === depth;
+    if (t.type === 'keyword') {
+      const word = t.text.toUpperCase();
+      if (word === 'JOIN') found.add('join');
+      else if (word === 'WITH') found.add('cte').add('subquery');
+      else if (word === 'GROUP' && isKeyword(next, 'BY')) found.add('group_by');
+      else if (word === 'OVER') found.add('window');
+      else if (word === 'FROM') fromDepths.push(depth);
+      else if (inFrom && AFTER_FROM.has(word)) fromDepths.pop();
+    } else if (inFrom && t.text === ',') {
+      found.add('join');
+    } else if (inFrom && t.text === ';') {
+      fromDepths.pop();
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Numeric literals above `max`, skipping LIMIT/OFFSET counts and positional
+ * ORDER BY / GROUP BY terms.
+ */
+function hardCodedLiterals(sql: string, max: number): SqlToken[] {
+  const tokens = significantTokens(tokenizeSql(sql));
+  // Innermost clause keyword at each parenthesis depth
+  const clauses: string[] = [''];
+
+  return tokens.filter((t, i) => {
+    if (t.text === '(') clauses.push('');
+    else if (t.text === ')' && clauses.length > 1) clauses.pop();
+    else if (t.type === 'keyword') {
+      const word = t.text.toUpperCase();
+      if (word !== 'BY' && word !== 'ASC' && word !== 'DESC') clauses[clauses.length - 1] = word;
+    }
+    if (t.type !== 'number' || !(Math.abs(Number(t.text)) > max)) return false;
+
+    const clause = clauses[clauses.length - 1];
+    if (clause === 'LIMIT' || clause === 'OFFSET') return false;
+
+    const previous = tokens[i - 1]?.text.toUpperCase();
+    const next = tokens[i + 1]?.text.toUpperCase();
+    const isPosition = (clause === 'ORDER' || clause === 'GROUP')
+      && (previous === 'BY' || previous === ',')
+      && (next === undefined || POSITION_END.has(next));
+    return !isPosition;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Checking
+// ---------------------------------------------------------------------------
+
+/** How the query breaks the task's rules, in rule order; empty when it follows them. */
+export function checkSqlConcepts(sql: string, rules: ConceptRules): ConceptViolation[] {
+  const used = detectSqlConcepts(sql);
+  const violations: ConceptViolation[] = [];
+
+  for (const concept of rules.require ?? []) {
+    if (!used.has(concept)) {
+      const { label, how } = CONCEPTS[concept];
+      violations.push({ kind: 'missing', concept, message: `This task practices ${label}: ${how}.` });
+    }
+  }
+  for (const concept of rules.forbid ?? []) {
+    if (used.has(concept)) {
+      violations.push({
+        kind: 'forbidden',
+        concept,
+        message: `This task is meant to be solved without ${CONCEPTS[concept].label}.`,
+      });
+    }
+  }
+  if (rules.maxNumericLiteral !== undefined) {
+    for (const t of hardCodedLiterals(sql, rules.maxNumericLiteral)) {
+      violations.push({
+        kind: 'literal',
+        literal: t.text,
+        start: t.start,
+        message: `\`${t.text}\` looks hard-coded: compute it in the query instead of typing it in.`,
+      });
+    }
+  }
+
+  return violations;
+}
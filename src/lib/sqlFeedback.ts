@@ -0,0 +1,432 @@
+/**
+ * Static feedback on common SQL mistakes.
+ *
+ * Many wrong answers share a handful of causes that are visible in the query
+ * text: `= NULL`, a JOIN with no condition, a selected column missing from
+ * GROUP BY, integer division in a percentage, "double-quoted" text. Spotting
+ * them lets the feedback name the actual mistake instead of only saying the
+ * results differ.
+ *
+ * Like analyzeSqlComplexity this is pattern matching, not a parser, but it
+ * works on sqlTokenizer tokens: strings and comments never match, and every
+ * SELECT (including subqueries) is checked on its own clauses. Rules stay
+ * quiet when unsure. Pure: no database access.
+ */
+
+import type { TableSchema } from '@/types';
+import { tableSchemas } from '@/data/schema';
+import { tokenizeSql, significantTokens, identifierName } from './sqlTokenizer';
+import type { SqlToken } from './sqlTokenizer';
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export type FeedbackRule =
+  | 'null_comparison'
+  | 'cartesian_product'
+  | 'group_by_missing_column'
+  | 'integer_division'
+  | 'double_quoted_string';
+
+export interface SqlFeedback {
+  rule: FeedbackRule;
+  /** Hint for the student, quoting the part of their query it is about. */
+  message: string;
+  /** Offset into the query of the token the hint is about. */
+  start: number;
+}
+
+export interface FeedbackContext {
+  /** The task's reference query. Rules use it to tell intended patterns from mistakes. */
+  expectedQuery?: string;
+  /** Tables for name and foreign-key lookups (default: the lab schema). */
+  tables?: TableSchema[];
+}
+
+// ---------------------------------------------------------------------------
+// Token structure
+// ---------------------------------------------------------------------------
+
+interface Tok extends SqlToken {
+  upper: string;
+  /** Parenthesis depth; a '(' and its ')' sit at the outer depth. */
+  depth: number;
+  /** Index of the innermost SELECT this token belongs to (-1: none). */
+  scope: number;
+}
+
+type Clause = 'SELECT' | 'FROM' | 'WHERE' | 'GROUP BY' | 'HAVING' | 'ORDER BY' | 'LIMIT' | 'WINDOW';
+
+interface SelectScope {
+  depth: number;
+  current: Clause;
+  /** Tokens of each clause, including those of nested subqueries. */
+  clauses: Map<Clause, Tok[]>;
+}
+
+const CLAUSE_STARTS: Record<string, Clause> = {
+  FROM: 'FROM',
+  WHERE: 'WHERE',
+  GROUP: 'GROUP BY',
+  HAVING: 'HAVING',
+  ORDER: 'ORDER BY',
+  LIMIT: 'LIMIT',
+  WINDOW: 'WINDOW',
+};
+
+const COMPOUND = new Set(['UNION', 'INTERSECT', 'EXCEPT']);
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'TOTAL', 'GROUP_CONCAT']);
+
+function structure(sql: string): { tokens: Tok[]; scopes: SelectScope[] } {
+  const tokens: Tok[] = [];
+  const scopes: SelectScope[] = [];
+  const stack: number[] = [];
+  let depth = 0;
+
+  for (const token of significantTokens(tokenizeSql(sql))) {
+    if (token.text === ')') depth--;
+    while (stack.length > 0 && depth < scopes[stack[stack.length - 1]].depth) stack.pop();
+
+    const upper = token.text.toUpperCase();
+    const top = stack.length > 0 ? stack[stack.length - 1] : -1;
+    const atTop = top !== -1 && depth === scopes[top].depth;
+
+    if (token.type === 'keyword' && upper === 'SELECT') {
+      // A compound SELECT (after UNION) replaces the scope at its depth
+      if (atTop) stack.pop();
+      scopes.push({ depth, current: 'SELECT', clauses: new Map() });
+      stack.push(scopes.length - 1);
+    } else if (atTop && token.type === 'keyword' && CLAUSE_STARTS[upper]) {
+      scopes[top].current = CLAUSE_STARTS[upper];
+    } else if (atTop && (token.text === ';' || COMPOUND.has(upper))) {
+      stack.pop();
+    }
+
+    const scope = stack.length > 0 ? stack[stack.length - 1] : -1;
+    const tok: Tok = { ...token, upper, depth, scope };
+    tokens.push(tok);
+
+    // Record the token in its own clause and in the enclosing scopes' clauses
+    for (const owner of stack) {
+      const { clauses, current } = scopes[owner];
+      if (!clauses.has(current)) clauses.set(current, []);
+      clauses.get(current)!.push(tok);
+    }
+    if (token.text === '(') depth++;
+  }
+
+  return { tokens, scopes };
+}
+
+/** Split clause tokens on the commas at `depth`. */
+function splitList(tokens: Tok[], depth: number): Tok[][] {
+  const items: Tok[][] = [[]];
+  for (const t of tokens) {
+    if (t.text === ',' && t.depth === depth) items.push([]);
+    else items[items.length - 1].push(t);
+  }
+  return items.filter((item) => item.length > 0);
+}
+
+/** An aggregate call that collapses rows (a window function with OVER doesn't). */
+function isAggregateCall(tokens: Tok[], i: number): boolean {
+  if (!AGGREGATES.has(tokens[i].upper) || tokens[i + 1]?.text !== '(') return false;
+  const close = tokens.findIndex((t, j) => j > i && t.text === ')' && t.depth === tokens[i].depth);
+  return tokens[close + 1]?.upper !== 'OVER';
+}
+
+/** The student's text for `tokens`, on one line. */
+function quote(sql: string, tokens: Tok[]): string {
+  const last = tokens[tokens.length - 1];
+  return sql.slice(tokens[0].start, last.start + last.text.length).replace(/\s+/g, ' ');
+}
+
+// ---------------------------------------------------------------------------
+// Analyzer
+// ---------------------------------------------------------------------------
+
+/**
+ * Hints for mistakes found in `sql`, in query order, at most one per rule and
+ * subject.
+ */
+export function analyzeSqlFeedback(sql: string, context: FeedbackContext = {}): SqlFeedback[] {
+  const tables = context.tables ?? tableSchemas;
+  const { tokens, scopes } = structure(sql);
+  const expected = context.expectedQuery ? structure(context.expectedQuery) : null;
+
+  const feedback: SqlFeedback[] = [
+    ...nullComparisons(tokens),
+    ...doubleQuotedStrings(tokens, tables, expected?.tokens ?? []),
+    ...scopes.flatMap((scope, id) => [
+      ...cartesianProducts(scope, id, tables),
+      ...groupByColumns(sql, scope, id, tables),
+      ...integerDivisions(sql, scope, id, expected),
+    ]),
+  ];
+
+  const seen = new Set<string>();
+  return feedback
+    .sort((a, b) => a.start - b.start)
+    .filter((f) => {
+      const key = `${f.rule}:${f.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+const EQUALITY = new Set(['=', '==', '!=', '<>']);
+
+function nullComparisons(tokens: Tok[]): SqlFeedback[] {
+  const feedback: SqlFeedback[] = [];
+  tokens.forEach((t, i) => {
+    if (t.type !== 'operator' || !EQUALITY.has(t.text)) return;
+    if (tokens[i + 1]?.upper !== 'NULL' && tokens[i - 1]?.upper !== 'NULL') return;
+    const fix = t.text === '=' || t.text === '==' ? 'IS NULL' : 'IS NOT NULL';
+    feedback.push({
+      rule: 'null_comparison',
+      message: `\`${t.text} NULL\` is never true, because any comparison with NULL gives NULL. Use \`${fix}\`.`,
+      start: t.start,
+    });
+  });
+  return feedback;
+}
+
+function doubleQuotedStrings(tokens: Tok[], tables: TableSchema[], expectedTokens: Tok[]): SqlFeedback[] {
+  // Names a double-quoted identifier may refer to: the schema, aliases the
+  // student defines with AS, and names the task's reference query uses
+  const known = new Set<string>();
+  for (const table of tables) {
+    known.add(table.name.toLowerCase());
+    for (const column of table.columns) known.add(column.name.toLowerCase());
+  }
+  tokens.forEach((t, i) => {
+    if (t.type === 'identifier' && tokens[i - 1]?.upper === 'AS') known.add(identifierName(t));
+  });
+  for (const t of expectedTokens) {
+    if (t.type === 'identifier') known.add(identifierName(t));
+  }
+
+  return tokens
+    .filter((t) => t.type === 'identifier' && t.text.startsWith('"') && !known.has(identifierName(t)))
+    .map((t) => ({
+      rule: 'double_quoted_string' as const,
+      message: `${t.text} is read as a column name, not text: SQLite only falls back to text because no such column exists. Use single quotes: '${t.text.slice(1, -1).replace(/""/g, '"')}'.`,
+      start: t.start,
+    }));
+}
+
+interface TableRef {
+  table: string;
+  alias: string;
+  start: number;
+}
+
+/** Tables named directly in a FROM clause (not subqueries), with their aliases. */
+function fromTables(from: Tok[], depth: number, tables: TableSchema[]): TableRef[] {
+  const names = new Set(tables.map((t) => t.name.toLowerCase()));
+  const refs: TableRef[] = [];
+  from.forEach((t, i) => {
+    if (t.depth !== depth || t.type !== 'identifier' || !names.has(identifierName(t))) return;
+    const prev = from[i - 1];
+    if (prev && prev.upper !== 'FROM' && prev.upper !== 'JOIN' && prev.text !== ',') return;
+    let next = i + 1;
+    if (from[next]?.upper === 'AS') next++;
+    const alias = from[next]?.type === 'identifier' ? identifierName(from[next]) : identifierName(t);
+    refs.push({ table: identifierName(t), alias, start: t.start });
+  });
+  return refs;
+}
+
+/** An ON condition linking `ref` to one of `others` through a foreign key, if the schema has one. */
+function suggestJoin(ref: TableRef, others: TableRef[], tables: TableSchema[]): string | null {
+  for (const other of others) {
+    for (const [from, to] of [[ref, other], [other, ref]]) {
+      const schema = tables.find((t) => t.name.toLowerCase() === from.table);
+      const fk = schema?.columns.find((c) => c.references?.toLowerCase().startsWith(`${to.table}.`));
+      if (fk) return `${from.alias}.${fk.name} = ${to.alias}.${fk.references!.split('.')[1]}`;
+    }
+  }
+  return null;
+}
+
+function cartesianProducts(scope: SelectScope, id: number, tables: TableSchema[]): SqlFeedback[] {
+  const from = (scope.clauses.get('FROM') ?? []).filter((t) => t.scope === id);
+  const refs = fromTables(from, scope.depth, tables);
+  const feedback: SqlFeedback[] = [];
+
+  const hint = (ref: TableRef, problem: string, keyword: 'ON' | 'WHERE') => {
+    const on = suggestJoin(ref, refs.filter((r) => r !== ref), tables);
+    feedback.push({
+      rule: 'cartesian_product',
+      message: `${problem}, so every row is paired with every ${ref.table} row (a Cartesian product).${
+        on ? ` Link the tables on their key, e.g. \`${keyword} ${on}\`.` : ''
+      }`,
+      start: ref.start,
+    });
+  };
+
+  from.forEach((t, i) => {
+    if (t.upper !== 'JOIN' || t.depth !== scope.depth) return;
+    // CROSS JOIN is a deliberate product; NATURAL [LEFT ...] JOIN brings its own condition
+    const modifiers = from.slice(Math.max(0, i - 3), i).map((p) => p.upper);
+    if (from[i - 1]?.upper === 'CROSS' || modifiers.includes('NATURAL')) return;
+    // Skip the table (or subquery) and its alias
+    let j = i + 1;
+    if (from[j]?.text === '(') {
+      while (j < from.length && !(from[j].text === ')' && from[j].depth === scope.depth)) j++;
+    }
+    j++;
+    if (from[j]?.upper === 'AS') j++;
+    if (from[j]?.type === 'identifier') j++;
+    if (from[j]?.upper === 'ON' || from[j]?.upper === 'USING') return;
+
+    const ref = refs.find((r) => r.start === from[i + 1]?.start);
+    if (ref) hint(ref, `\`JOIN ${ref.table}\` has no ON condition`, 'ON');
+  });
+
+  const commaJoin = from.some((t) => t.text === ',' && t.depth === scope.depth);
+  if (commaJoin && !scope.clauses.has('WHERE') && refs.length > 1) {
+    const tableList = refs.map((r) => r.table).join(', ');
+    hint(refs[refs.length - 1], `\`FROM ${tableList}\` has no WHERE condition linking the tables`, 'WHERE');
+  }
+  return feedback;
+}
+
+interface SelectItem {
+  tokens: Tok[];
+  /** The item without its alias. */
+  core: Tok[];
+  /** Column name for a bare column reference (`col` or `t.col`); null for expressions. */
+  column: string | null;
+  qualifier: string | null;
+  alias: string | null;
+}
+
+function selectItems(scope: SelectScope, id: number): SelectItem[] {
+  const select = (scope.clauses.get('SELECT') ?? []).slice(1);
+  if (select[0]?.upper === 'DISTINCT' || select[0]?.upper === 'ALL') select.shift();
+
+  return splitList(select, scope.depth).map((tokens) => {
+    let core = tokens;
+    let alias: string | null = null;
+    const last = tokens[tokens.length - 1];
+    const prev = tokens[tokens.length - 2];
+    // `expr AS name`, or `expr name` after a value (not after an operator or `.`)
+    if (prev && last.type === 'identifier' && (prev.upper === 'AS' || /^(identifier|number|string)$/.test(prev.type) || prev.text === ')')) {
+      alias = identifierName(last);
+      core = tokens.slice(0, prev.upper === 'AS' ? -2 : -1);
+    }
+    const own = core.every((t) => t.scope === id);
+    if (own && core.length === 1 && core[0].type === 'identifier') {
+      return { tokens, core, column: identifierName(core[0]), qualifier: null, alias };
+    }
+    if (own && core.length === 3 && core[1].text === '.' && core[2].type === 'identifier') {
+      return { tokens, core, column: identifierName(core[2]), qualifier: identifierName(core[0]), alias };
+    }
+    return { tokens, core, column: null, qualifier: null, alias };
+  });
+}
+
+function groupByColumns(sql: string, scope: SelectScope, id: number, tables: TableSchema[]): SqlFeedback[] {
+  const items = selectItems(scope, id);
+  const own = (scope.clauses.get('SELECT') ?? []).filter((t) => t.scope === id);
+  const aggregated = own.some((_, i) => isAggregateCall(own, i));
+  const groupBy = (scope.clauses.get('GROUP BY') ?? []).slice(2);
+  const bare = items.filter((item) => item.column !== null);
+
+  if (groupBy.length === 0) {
+    if (!aggregated || bare.length === 0) return [];
+    const names = bare.map((item) => quote(sql, item.core)).join(', ');
+    return [{
+      rule: 'group_by_missing_column',
+      message: `The query mixes ${names} with an aggregate but has no GROUP BY, so it returns a single row. For one row per ${quote(sql, bare[0].core)}, add \`GROUP BY ${names}\`.`,
+      start: bare[0].tokens[0].start,
+    }];
+  }
+
+  // What the GROUP BY covers: column names, select aliases and positions
+  const grouped = new Set<string>();
+  for (const g of splitList(groupBy, scope.depth)) {
+    const name = g[g.length - 1];
+    if (g.length === 1 && name.type === 'number') {
+      const item = items[Number(name.text) - 1];
+      if (item?.column) grouped.add(item.column);
+    } else if (name.type === 'identifier' && (g.length === 1 || g[g.length - 2].text === '.')) {
+      grouped.add(identifierName(name));
+      const item = items.find((it) => it.alias === identifierName(name));
+      if (item?.column) grouped.add(item.column);
+    }
+  }
+
+  // A column of a table whose primary key is grouped has one value per group
+  const refs = fromTables((scope.clauses.get('FROM') ?? []).filter((t) => t.scope === id), scope.depth, tables);
+  const tableOf = (item: SelectItem) => {
+    const ref = item.qualifier
+      ? refs.find((r) => r.alias === item.qualifier)
+      : refs.find((r) => tables.find((t) => t.name === r.table)?.columns.some((c) => c.name === item.column));
+    return tables.find((t) => t.name === ref?.table);
+  };
+
+  return bare
+    .filter((item) => !grouped.has(item.column!))
+    .filter((item) => {
+      const pk = tableOf(item)?.columns.find((c) => c.isPrimaryKey);
+      return !pk || !grouped.has(pk.name);
+    })
+    .map((item) => ({
+      rule: 'group_by_missing_column' as const,
+      message: `${quote(sql, item.core)} is selected but not in GROUP BY, so SQLite shows the value from an arbitrary row of each group. Add it to GROUP BY, or wrap it in an aggregate.`,
+      start: item.tokens[0].start,
+    }));
+}
+
+/** Integer operands SQLite divides without a fraction: integer literals, COUNT() and SUM(). */
+function integerDivisor(tokens: Tok[], i: number): boolean {
+  const t = tokens[i];
+  if (!t) return false;
+  if (t.type === 'number') return /^\d+$/.test(t.text);
+  return (t.upper === 'COUNT' || t.upper === 'SUM') && tokens[i + 1]?.text === '(';
+}
+
+/** True when an expression has a real operand (a decimal literal, CAST, AVG or TOTAL). */
+function hasRealOperand(tokens: Tok[]): boolean {
+  return tokens.some(
+    (t) => (t.type === 'number' && /[.e]/i.test(t.text)) || ['CAST', 'AVG', 'TOTAL'].includes(t.upper)
+  );
+}
+
+function integerDivisions(
+  sql: string,
+  scope: SelectScope,
+  id: number,
+  expected: { tokens: Tok[] } | null
+): SqlFeedback[] {
+  // Task-aware: skip tasks whose reference query itself divides integers
+  if (expected && !(expected.tokens.some((t) => t.text === '/') && hasRealOperand(expected.tokens))) {
+    return [];
+  }
+
+  return selectItems(scope, id).flatMap((item) => {
+    const own = item.tokens.filter((t) => t.scope === id);
+    if (hasRealOperand(own)) return [];
+    const slash = own.findIndex((t, i) => t.text === '/' && integerDivisor(own, i + 1));
+    if (slash === -1) return [];
+    const scaled = own.some((t) => t.type === 'number' && t.text === '100');
+    const integerSide = own.slice(0, slash).some((t, i) => integerDivisor(own.slice(0, slash), i));
+    if (!scaled && !integerSide) return [];
+
+    return [{
+      rule: 'integer_division' as const,
+      message: `${quote(sql, item.core)} divides integers, so SQLite drops the fraction (7 / 2 is 3). ${
+        scaled ? 'Multiply by 100.0 instead of 100' : 'Multiply by 1.0 first'
+      } to get a decimal result.`,
+      start: own[slash].start,
+    }];
+  });
+}
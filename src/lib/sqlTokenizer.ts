@@ -0,0 +1,119 @@
+/**
+ * SQL tokenizer for the SQLite dialect students write in the lab.
+ *
+ * Produces every token including whitespace and comments, so callers can
+ * either look at the code (skip trivia) or at how it was typed (layout,
+ * comment text). Handles quoted identifiers ("x", [x], `x`), string literals
+ * with doubled-quote escapes, line and block comments, and multi-character
+ * operators. Never throws: an unterminated string or comment runs to the end.
+ */
+
+export type SqlTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Source text, unchanged. */
+  text: string;
+  /** Offset into the source string. */
+  start: number;
+}
+
+/** Reserved words that matter for the lab's queries (SQLite keyword list, trimmed). */
+export const SQL_KEYWORDS: ReadonlySet<string> = new Set([
+  'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CAST', 'COLLATE', 'CREATE',
+  'CROSS', 'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'DELETE', 'DESC', 'DISTINCT',
+  'DROP', 'ELSE', 'END', 'ESCAPE', 'EXCEPT', 'EXISTS', 'EXPLAIN', 'FROM', 'FULL', 'GLOB',
+  'GROUP', 'HAVING', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'ISNULL',
+  'JOIN', 'LEFT', 'LIKE', 'LIMIT', 'NATURAL', 'NOT', 'NOTNULL', 'NULL', 'OFFSET', 'ON', 'OR',
+  'ORDER', 'OUTER', 'OVER', 'PARTITION', 'PRAGMA', 'RECURSIVE', 'REGEXP', 'REPLACE', 'RIGHT',
+  'SELECT', 'SET', 'TABLE', 'THEN', 'UNION', 'UPDATE', 'USING', 'VALUES', 'VIEW', 'WHEN',
+  'WHERE', 'WINDOW', 'WITH',
+]);
+
+const OPERATORS = ['||', '<=', '>=', '<>', '!=', '==', '<<', '>>', '=', '<', '>', '+', '-', '*', '/', '%', '&', '|', '~'];
+const PUNCTUATION = new Set(['(', ')', ',', ';', '.']);
+
+/**
+ * Split `sql` into tokens. Concatenating every token's text gives back the input.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number) => {
+    tokens.push({ type, text: sql.slice(i, end), start: i });
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && /\s/.test(sql[end])) end++;
+      push('whitespace', end);
+    } else if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      push('comment', newline === -1 ? sql.length : newline);
+    } else if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      push('comment', close === -1 ? sql.length : close + 2);
+    } else if (ch === "'") {
+      push('string', quotedEnd(sql, i, "'"));
+    } else if (ch === '"' || ch === '`') {
+      push('identifier', quotedEnd(sql, i, ch));
+    } else if (ch === '[') {
+      const close = sql.indexOf(']', i);
+      push('identifier', close === -1 ? sql.length : close + 1);
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      const match = /^(?:0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i.exec(sql.slice(i))!;
+      push('number', i + match[0].length);
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))!;
+      push(SQL_KEYWORDS.has(match[0].toUpperCase()) ? 'keyword' : 'identifier', i + match[0].length);
+    } else if (PUNCTUATION.has(ch)) {
+      push('punctuation', i + 1);
+    } else {
+      const op = OPERATORS.find((o) => sql.startsWith(o, i));
+      push('operator', i + (op?.length ?? 1));
+    }
+  }
+
+  return tokens;
+}
+
+/** Tokens that carry meaning (no whitespace or comments). */
+export function significantTokens(tokens: SqlToken[]): SqlToken[] {
+  return tokens.filter((t) => t.type !== 'whitespace' && t.type !== 'comment');
+}
+
+/** Identifier text without quoting, lowercased (SQLite identifiers are case-insensitive). */
+export function identifierName(token: SqlToken): string {
+  const text = token.text;
+  if (/^["`[]/.test(text)) return text.slice(1, -1).replace(/""/g, '"').toLowerCase();
+  return text.toLowerCase();
+}
+
+function quotedEnd(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
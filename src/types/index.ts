@@ -1,3 +1,8 @@
+import type { SeedConfig } from '@/data/seed';
+import type { QueryPlanSummary } from '@/lib/queryPlan';
+import type { ComparisonDiff, ComparisonPolicy, ComparisonRule, RevealLevel } from '@/lib/resultDiff';
+import type { ConceptRules, ConceptViolation } from '@/lib/sqlConcepts';
+
 // ============================================================================
 // EMR Database Types
 // ============================================================================
@@ -77,6 +82,49 @@ export interface Nurse {
   years_experience: number;
 }
 
+export interface Unit {
+  unit_name: string;
+  unit_type: string;
+  floor: number;
+  bed_count: number;
+  /** Staffing target: patients per nurse on a shift. */
+  target_patients_per_nurse: number;
+}
+
+export interface ShiftAssignment {
+  assignment_id: number;
+  nurse_id: number;
+  shift_date: string;
+  shift: 'Day' | 'Evening' | 'Night';
+  /** Unit worked that shift; differs from nurses.unit when floated. */
+  unit: string;
+}
+
+export interface Vital {
+  vital_id: number;
+  patient_id: number;
+  recorded_time: string;
+  heart_rate: number;
+  systolic_bp: number;
+  diastolic_bp: number;
+  respiratory_rate: number;
+  temperature_f: number;
+  spo2: number;
+  recorded_by_nurse_id: number;
+}
+
+export interface Order {
+  order_id: number;
+  patient_id: number;
+  encounter_id: number;
+  provider_id: number;
+  order_type: 'Medication' | 'Lab' | 'Imaging' | 'Consult';
+  priority: 'Routine' | 'STAT';
+  ordered_time: string;
+  status: 'Completed' | 'Pending' | 'Cancelled';
+  completed_time: string | null;
+}
+
 // ============================================================================
 // Task/Study Types (CMS-ready structure)
 // ============================================================================
@@ -89,6 +137,9 @@ export interface Task {
   expectedQuery: string;   // Reference query for generating expected results
   preserveOrder: boolean;  // Whether ORDER BY matters for comparison
   hints?: string[];
+  comparison?: ComparisonPolicy; // Tolerances and column rules (default: DEFAULT_COMPARISON_POLICY)
+  reveal?: RevealLevel;    // How much of the expected result a wrong answer shows (default 'rows')
+  concepts?: ConceptRules; // SQL constructs a correct answer must (not) use
 }
 
 export interface Round {
@@ -121,6 +172,9 @@ export interface StudentInfo {
   sqlExpertise: 0 | 1 | 2 | 3;
 }
 
+/** A right result reached without the task's required technique is 'wrong_technique'. */
+export type AttemptOutcome = 'correct' | 'incorrect' | 'wrong_technique';
+
 export interface TaskAttempt {
   studentName: string;
   sqlExpertise: number;
@@ -129,11 +183,35 @@ export interface TaskAttempt {
   taskId: string;
   querySequence: number;
   attemptNum: number;
+  /** Wall-clock seconds from task start to this submission. */
   timeSec: number;
+  /** Same as timeSec; explicit so exports can carry both clocks side by side. */
+  wallTimeSec?: number;
+  /** timeSec minus hidden-tab, unfocused and idle periods. Absent in older sessions. */
+  activeTimeSec?: number;
   totalAttempts: number;
   submittedQuery: string;
   completedAt: string;
   isCorrect: boolean;
+  /** Absent in older sessions: 'correct' or 'incorrect' per isCorrect. */
+  outcome?: AttemptOutcome;
+  /** Why the result comparison failed (e.g. "Row count mismatch: ..."). Absent on correct attempts. */
+  failureReason?: string;
+  /** Hash-chain link over this and every earlier attempt (see lib/integrity). Absent in older sessions. */
+  chainHash?: string;
+  /** EXPLAIN QUERY PLAN characteristics of the submitted query. Absent if it failed to run. */
+  queryPlan?: QueryPlanSummary;
+}
+
+/** Why the student was not working: tab hidden, window unfocused, or no input. */
+export type InactivityReason = 'hidden' | 'blur' | 'idle';
+
+export interface InactiveInterval {
+  reason: InactivityReason;
+  /** Epoch ms. */
+  start: number;
+  /** Epoch ms, or null while the interval is still open. */
+  end: number | null;
 }
 
 export interface StudySession {
@@ -142,9 +220,13 @@ export interface StudySession {
   currentQuery: number;
   attempts: TaskAttempt[];
   taskStartTime: number | null;
+  /** Inactive periods since taskStartTime. Reset whenever a new task starts. */
+  inactiveIntervals?: InactiveInterval[];
   isComplete: boolean;
   /** When true, session was created via ?skipTo= — no advancement, no completion, no export. */
   sandboxMode?: boolean;
+  /** Dataset the session runs against. Absent in older sessions (DEFAULT_SEED_CONFIG). */
+  seedConfig?: SeedConfig;
 }
 
 // ============================================================================
@@ -155,6 +237,8 @@ export interface QueryResult {
   columns: string[];
   values: unknown[][];
   error?: string;
+  /** Set when the query was stopped before finishing (error holds the message). */
+  interrupted?: 'timeout' | 'cancelled';
 }
 
 export interface ComparisonResult {
@@ -162,4 +246,10 @@ export interface ComparisonResult {
   studentResult: QueryResult;
   expectedResult: QueryResult;
   message?: string;
+  /** What differs; absent when the student's query failed to run. */
+  diff?: ComparisonDiff;
+  /** The rule a wrong answer broke. */
+  failedRule?: ComparisonRule;
+  /** With failedRule 'concepts': how the query breaks the task's concept rules. */
+  conceptViolations?: ConceptViolation[];
 }